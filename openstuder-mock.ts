@@ -0,0 +1,1736 @@
+import {encode as CBOR_encode} from "cbor-x/encode";
+import {decodeMultiple as CBOR_decodeMultiple} from "cbor-x/decode";
+import {
+    SIAccessLevel,
+    SIDeviceFunctions,
+    SIDeviceMessage,
+    SIExtensionStatus,
+    SIJsonlTrafficRecorder,
+    SIPropertyType,
+    SIStatus,
+    SITimerProvider,
+    SITrafficRecord,
+    SIWebSocket,
+    SIWebSocketFactory
+} from "./openstuder";
+
+
+/**************************************************************************************************************************************************************
+ * Mock gateway model.
+ */
+
+/**
+ * The SIMockProperty type describes a property of a device simulated by the SIMockGateway.
+ */
+export type SIMockProperty = {
+    /**
+     * Data type of the property, defaults to SIPropertyType.FLOAT.
+     */
+    type?: SIPropertyType,
+
+    /**
+     * Current value of the property.
+     */
+    value?: any,
+
+    /**
+     * Human readable description of the property.
+     */
+    description?: string,
+
+    /**
+     * Unit of the property value.
+     */
+    unit?: string,
+
+    /**
+     * True if the property can be read, defaults to true.
+     */
+    readable?: boolean,
+
+    /**
+     * True if the property can be written, defaults to false.
+     */
+    writeable?: boolean,
+
+    /**
+     * Minimal access level required to access the property, defaults to SIAccessLevel.BASIC.
+     */
+    accessLevel?: SIAccessLevel,
+
+    /**
+     * Possible values and their labels for properties of type SIPropertyType.ENUM.
+     */
+    values?: Map<number, string>
+}
+
+/**
+ * Handler simulating an extension command, receives the parameters and the body of the call and returns the result. Calls received over WebSocket pass the parameters as map, calls
+ * received over Bluetooth pass the parameters as array and an empty body.
+ */
+export type SIMockExtensionHandler = (parameters: Map<string, string> | Array<any>, body: string) => {
+    status: SIExtensionStatus,
+    parameters?: Map<string, string> | Array<any>,
+    body?: string
+};
+
+type SIMockDevice = {
+    model: string,
+    functions: Array<SIDeviceFunctions>,
+    virtual: boolean,
+    properties: Map<number, SIMockProperty>
+}
+
+type SIMockDeviceAccess = {
+    driver: string,
+    parameters: {[key: string]: any},
+    devices: Map<string, SIMockDevice>
+}
+
+type SIMockUser = {
+    password: string,
+    accessLevel: SIAccessLevel
+}
+
+type SIMockSession = {
+    authorized: boolean,
+    accessLevel: SIAccessLevel,
+    subscriptions: Set<string>,
+    sendPropertyUpdate: (propertyId: string, value: any) => void,
+    sendDeviceMessage: (message: SIDeviceMessage) => void,
+    close: () => void
+}
+
+function statusToString(status: SIStatus): string {
+    switch (status) {
+        case SIStatus.SUCCESS:
+            return "Success";
+        case SIStatus.IN_PROGRESS:
+            return "InProgress";
+        case SIStatus.NO_PROPERTY:
+            return "NoProperty";
+        case SIStatus.NO_DEVICE:
+            return "NoDevice";
+        case SIStatus.NO_DEVICE_ACCESS:
+            return "NoDeviceAccess";
+        case SIStatus.TIMEOUT:
+            return "Timeout";
+        case SIStatus.INVALID_VALUE:
+            return "InvalidValue";
+        default:
+            return "Error";
+    }
+}
+
+function accessLevelToString(accessLevel: SIAccessLevel): string {
+    switch (accessLevel) {
+        case SIAccessLevel.BASIC:
+            return "Basic";
+        case SIAccessLevel.INSTALLER:
+            return "Installer";
+        case SIAccessLevel.EXPERT:
+            return "Expert";
+        case SIAccessLevel.QUALIFIED_SERVICE_PERSONNEL:
+            return "QSP";
+        default:
+            return "None";
+    }
+}
+
+function extensionStatusToString(status: SIExtensionStatus): string {
+    switch (status) {
+        case SIExtensionStatus.SUCCESS:
+            return "Success";
+        case SIExtensionStatus.UNSUPPORTED_EXTENSION:
+            return "UnsupportedExtension";
+        case SIExtensionStatus.UNSUPPORTED_COMMAND:
+            return "UnsupportedCommand";
+        case SIExtensionStatus.INVALID_HEADERS:
+            return "InvalidHeaders";
+        case SIExtensionStatus.INVALID_BODY:
+            return "InvalidBody";
+        default:
+            return "Error";
+    }
+}
+
+function propertyTypeToString(type: SIPropertyType): string {
+    switch (type) {
+        case SIPropertyType.FLOAT:
+            return "Float";
+        case SIPropertyType.ENUM:
+            return "Enum";
+        case SIPropertyType.BOOL:
+            return "Bool";
+        case SIPropertyType.TIME_OF_DAY:
+            return "TimeOfDay";
+        case SIPropertyType.DAYS_OF_WEEK:
+            return "DaysOfWeek";
+        case SIPropertyType.SIGNAL:
+            return "Signal";
+        case SIPropertyType.STRING:
+            return "String";
+        default:
+            return "Invalid";
+    }
+}
+
+function deviceFunctionToString(func: SIDeviceFunctions): string {
+    switch (func) {
+        case SIDeviceFunctions.INVERTER:
+            return "inverter";
+        case SIDeviceFunctions.CHARGER:
+            return "charger";
+        case SIDeviceFunctions.SOLAR:
+            return "solar";
+        case SIDeviceFunctions.TRANSFER:
+            return "transfer";
+        case SIDeviceFunctions.BATTERY:
+            return "battery";
+        case SIDeviceFunctions.ALL:
+            return "all";
+        default:
+            return "";
+    }
+}
+
+function deviceFunctionFromString(str: string): SIDeviceFunctions {
+    switch (str) {
+        case "inverter":
+            return SIDeviceFunctions.INVERTER;
+        case "charger":
+            return SIDeviceFunctions.CHARGER;
+        case "solar":
+            return SIDeviceFunctions.SOLAR;
+        case "transfer":
+            return SIDeviceFunctions.TRANSFER;
+        case "battery":
+            return SIDeviceFunctions.BATTERY;
+        case "all":
+            return SIDeviceFunctions.ALL;
+        default:
+            return SIDeviceFunctions.NONE;
+    }
+}
+
+/**
+ * In-process mock of an OpenStuder gateway. The mock simulates a scriptable set of device access instances, devices and properties and speaks the WebSocket text protocol, so that code
+ * built on SIGatewayClient can be tested without a real gateway and real devices:
+ *
+ *     const gateway = new SIMockGateway();
+ *     gateway.addDeviceAccess("demo");
+ *     gateway.addDevice("demo", "inv", "Demo inverter", [SIDeviceFunctions.INVERTER]);
+ *     gateway.addProperty("demo.inv.3136", {type: SIPropertyType.FLOAT, value: 42.5, unit: "kW"});
+ *
+ *     const client = new SIGatewayClient();
+ *     client.setWebSocketFactory(gateway.webSocketFactory);
+ *     client.connect("localhost");
+ *
+ * Errors can be injected for any command using injectError(), property updates and device messages can be pushed to the connected clients using setPropertyValue() and addMessage().
+ * The same simulated installation can be accessed over Bluetooth using SIFakeBluetooth.
+ */
+export class SIMockGateway {
+    private gatewayVersion: string;
+    private extensions: Map<string, Map<string, SIMockExtensionHandler>> = new Map<string, Map<string, SIMockExtensionHandler>>();
+    private users: Map<string, SIMockUser> = new Map<string, SIMockUser>();
+    private anonymousAccessLevel: SIAccessLevel = SIAccessLevel.BASIC;
+    private deviceAccesses: Map<string, SIMockDeviceAccess> = new Map<string, SIMockDeviceAccess>();
+    private datalog: Map<string, Array<{timestamp: Date, value: any}>> = new Map<string, Array<{timestamp: Date, value: any}>>();
+    private messages: Array<SIDeviceMessage> = [];
+    private injectedErrors: Map<string, Array<string>> = new Map<string, Array<string>>();
+    private sessions: Set<SIMockSession> = new Set<SIMockSession>();
+    private latency: number = 0;
+    private online: boolean = true;
+    private protocolVersions: Array<number> = [1];
+    private timers: SITimerProvider;
+
+    /**
+     * Frames received from all clients in the order they were received.
+     */
+    public readonly receivedFrames: Array<string | Uint8Array> = [];
+
+    /**
+     * Creates a new mock gateway without any device access instance.
+     *
+     * @param gatewayVersion Version reported to the clients during authorization.
+     * @param timers Timer functions used to simulate latency, defaults to the global setTimeout() and clearTimeout() functions.
+     */
+    public constructor(gatewayVersion: string = "0.0.0-mock", timers?: SITimerProvider) {
+        this.gatewayVersion = gatewayVersion;
+        this.timers = timers || {
+            setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+            clearTimeout: (handle: any) => clearTimeout(handle)
+        };
+    }
+
+    /**
+     * Adds a user, a client authorizing with the given user and password is granted the given access level. Clients authorizing with an unknown user or a wrong password are rejected.
+     *
+     * @param user Username.
+     * @param password Password.
+     * @param accessLevel Access level granted to the user.
+     */
+    public addUser(user: string, password: string, accessLevel: SIAccessLevel) {
+        this.users.set(user, {password: password, accessLevel: accessLevel});
+    }
+
+    /**
+     * Sets the access level granted to clients authorizing without user and password, defaults to SIAccessLevel.BASIC.
+     *
+     * @param accessLevel Access level granted to anonymous clients.
+     */
+    public setAnonymousAccessLevel(accessLevel: SIAccessLevel) {
+        this.anonymousAccessLevel = accessLevel;
+    }
+
+    /**
+     * Adds a device access instance.
+     *
+     * @param accessId ID of the device access instance.
+     * @param driver Name of the device access driver.
+     * @param parameters Driver configuration parameters.
+     */
+    public addDeviceAccess(accessId: string, driver: string = "Mock", parameters: {[key: string]: any} = {}) {
+        this.deviceAccesses.set(accessId, {driver: driver, parameters: parameters, devices: new Map<string, SIMockDevice>()});
+    }
+
+    /**
+     * Adds a device to a device access instance added before using addDeviceAccess().
+     *
+     * @param accessId ID of the device access instance.
+     * @param deviceId ID of the device.
+     * @param model Model of the device.
+     * @param functions Functions of the device.
+     * @param virtual True if the device is a virtual device.
+     */
+    public addDevice(accessId: string, deviceId: string, model: string, functions: Array<SIDeviceFunctions> = [], virtual: boolean = false) {
+        const access = this.deviceAccesses.get(accessId);
+        if (access === undefined) {
+            throw new Error(`unknown device access ${accessId}`);
+        }
+        access.devices.set(deviceId, {model: model, functions: functions, virtual: virtual, properties: new Map<number, SIMockProperty>()});
+    }
+
+    /**
+     * Adds a property to a device added before using addDevice().
+     *
+     * @param propertyId ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param property Property description and initial value.
+     */
+    public addProperty(propertyId: string, property: SIMockProperty) {
+        const [accessId, deviceId, id] = propertyId.split(".");
+        const device = this.deviceAccesses.get(accessId)?.devices.get(deviceId);
+        if (device === undefined) {
+            throw new Error(`unknown device ${accessId}.${deviceId}`);
+        }
+        device.properties.set(+id, property);
+    }
+
+    /**
+     * Changes the value of a property and sends a property update to all clients subscribed to the property.
+     *
+     * @param propertyId ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param value New value.
+     */
+    public setPropertyValue(propertyId: string, value: any) {
+        const property = this.findProperty(propertyId);
+        if (property === undefined) {
+            throw new Error(`unknown property ${propertyId}`);
+        }
+        property.value = value;
+        this.sessions.forEach(session => {
+            if (session.authorized && session.subscriptions.has(propertyId)) {
+                this.deliver(() => session.sendPropertyUpdate(propertyId, value));
+            }
+        });
+    }
+
+    /**
+     * Returns the current value of a property.
+     *
+     * @param propertyId ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Current value or undefined if the property does not exist.
+     */
+    public getPropertyValue(propertyId: string): any {
+        return this.findProperty(propertyId)?.value;
+    }
+
+    /**
+     * Adds an entry to the data log of a property.
+     *
+     * @param propertyId ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param timestamp Timestamp of the entry.
+     * @param value Logged value.
+     */
+    public addDatalogEntry(propertyId: string, timestamp: Date, value: any) {
+        const entries = this.datalog.get(propertyId) || [];
+        entries.push({timestamp: timestamp, value: value});
+        entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        this.datalog.set(propertyId, entries);
+    }
+
+    /**
+     * Adds a device message to the message log and broadcasts it to all connected clients.
+     *
+     * @param message Device message.
+     * @param broadcast If true, the message is sent to all connected clients as device message indication.
+     */
+    public addMessage(message: SIDeviceMessage, broadcast: boolean = true) {
+        this.messages.push(message);
+        if (broadcast) {
+            this.sessions.forEach(session => {
+                if (session.authorized) {
+                    this.deliver(() => session.sendDeviceMessage(message));
+                }
+            });
+        }
+    }
+
+    /**
+     * Registers a handler for an extension command. The extension is reported to the clients during authorization.
+     *
+     * @param extension Name of the extension.
+     * @param command Name of the command.
+     * @param handler Handler simulating the command.
+     */
+    public setExtension(extension: string, command: string, handler: SIMockExtensionHandler) {
+        if (!this.extensions.has(extension)) {
+            this.extensions.set(extension, new Map<string, SIMockExtensionHandler>());
+        }
+        this.extensions.get(extension)!.set(command, handler);
+    }
+
+    /**
+     * Makes the gateway answer the next request(s) of the given command with an ERROR frame instead of the regular response.
+     *
+     * @param command Command to fail, for example "READ PROPERTY". Bluetooth requests use the same command names as the WebSocket protocol.
+     * @param reason Reason sent in the ERROR frame.
+     * @param count Number of subsequent requests to fail.
+     */
+    public injectError(command: string, reason: string, count: number = 1) {
+        const errors = this.injectedErrors.get(command) || [];
+        for (let i = 0; i < count; ++i) {
+            errors.push(reason);
+        }
+        this.injectedErrors.set(command, errors);
+    }
+
+    /**
+     * Sets the latency in milliseconds applied to every frame sent by the gateway.
+     *
+     * @param latency Latency in milliseconds.
+     */
+    public setLatency(latency: number) {
+        this.latency = latency;
+    }
+
+    /**
+     * Simulates a gateway that is (not) reachable. While offline, new connections fail.
+     *
+     * @param online False to refuse new connections.
+     */
+    public setOnline(online: boolean) {
+        this.online = online;
+    }
+
+    /**
+     * Sets the protocol versions supported by the gateway, defaults to version 1. During authorization the gateway picks the highest of the versions advertised by the client it supports
+     * and rejects the client if there is none.
+     *
+     * @param versions Supported protocol versions.
+     */
+    public setProtocolVersions(versions: Array<number>) {
+        this.protocolVersions = versions.slice();
+    }
+
+    /**
+     * Closes the connections to all clients, simulating a connection loss.
+     */
+    public disconnectAll() {
+        Array.from(this.sessions).forEach(session => session.close());
+    }
+
+    /**
+     * Returns the number of connected clients.
+     *
+     * @return Number of connected clients.
+     */
+    public getConnectionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * WebSocket factory to pass to SIGatewayClient.setWebSocketFactory(), connects the client to this mock gateway.
+     */
+    public readonly webSocketFactory: SIWebSocketFactory = (url: string) => new SIMockWebSocket(this, url);
+
+    /** @internal */
+    public isOnline(): boolean {
+        return this.online;
+    }
+
+    /** @internal */
+    public getTimers(): SITimerProvider {
+        return this.timers;
+    }
+
+    /** @internal */
+    public deliver(action: () => void) {
+        this.timers.setTimeout(action, this.latency);
+    }
+
+    /** @internal */
+    public openSession(session: SIMockSession) {
+        this.sessions.add(session);
+    }
+
+    /** @internal */
+    public closeSession(session: SIMockSession) {
+        this.sessions.delete(session);
+    }
+
+    /** @internal */
+    public takeInjectedError(command: string): string | undefined {
+        return this.injectedErrors.get(command)?.shift();
+
+    }
+
+    /** @internal */
+    public authorize(user?: string, password?: string): SIAccessLevel | undefined {
+        if (!user) {
+            return this.anonymousAccessLevel;
+        }
+        const entry = this.users.get(user);
+        return entry !== undefined && entry.password === password ? entry.accessLevel : undefined;
+    }
+
+    /** @internal */
+    public negotiateProtocolVersion(advertised: Array<number>): number | undefined {
+        const versions = advertised.filter(version => this.protocolVersions.includes(version));
+        return versions.length > 0 ? Math.max(...versions) : undefined;
+    }
+
+    /** @internal */
+    public getGatewayVersion(): string {
+        return this.gatewayVersion;
+    }
+
+    /** @internal */
+    public getExtensions(): Array<string> {
+        return Array.from(this.extensions.keys());
+    }
+
+    /** @internal */
+    public getDeviceCount(): number {
+        let count = 0;
+        this.deviceAccesses.forEach(access => count += access.devices.size);
+        return count;
+    }
+
+    /** @internal */
+    public describe(id: string | undefined, accessInformation: boolean, deviceInformation: boolean, propertyInformation: boolean, driverInformation: boolean,
+                    accessLevel: SIAccessLevel): {status: SIStatus, description?: any} {
+        const describeProperty = (id: number, property: SIMockProperty) => {
+            const type = property.type ?? SIPropertyType.FLOAT;
+            let description: any = {
+                id: id,
+                type: propertyTypeToString(type),
+                description: property.description || "",
+                unit: property.unit || "",
+                readable: property.readable ?? true,
+                writeable: property.writeable ?? false
+            };
+            if (type === SIPropertyType.ENUM && property.values !== undefined) {
+                description.values = {};
+                property.values.forEach((label, value) => description.values[value] = label);
+            }
+            return description;
+        };
+        const describeDevice = (id: string, device: SIMockDevice) => {
+            let description: any = {id: id, model: device.model, functions: device.functions.map(it => deviceFunctionToString(it)), virtual: device.virtual};
+            if (propertyInformation) {
+                description.properties = Array.from(device.properties.entries())
+                    .filter(([_, property]) => (property.accessLevel ?? SIAccessLevel.BASIC) <= accessLevel)
+                    .map(([id, property]) => describeProperty(id, property));
+            }
+            return description;
+        };
+        const describeAccess = (id: string, access: SIMockDeviceAccess) => {
+            let description: any = {id: id};
+            if (accessInformation) description.driver = access.driver;
+            if (driverInformation) description.parameters = access.parameters;
+            if (deviceInformation) description.devices = Array.from(access.devices.entries()).map(([id, device]) => describeDevice(id, device));
+            return description;
+        };
+
+        if (id === undefined) {
+            return {status: SIStatus.SUCCESS, description: {instances: Array.from(this.deviceAccesses.entries()).map(([id, access]) => describeAccess(id, access))}};
+        }
+        const [accessId, deviceId, propertyId] = id.split(".");
+        const access = this.deviceAccesses.get(accessId);
+        if (access === undefined) return {status: SIStatus.NO_DEVICE_ACCESS};
+        if (deviceId === undefined) return {status: SIStatus.SUCCESS, description: describeAccess(accessId, access)};
+        const device = access.devices.get(deviceId);
+        if (device === undefined) return {status: SIStatus.NO_DEVICE};
+        if (propertyId === undefined) return {status: SIStatus.SUCCESS, description: describeDevice(deviceId, device)};
+        const property = device.properties.get(+propertyId);
+        if (property === undefined || (property.accessLevel ?? SIAccessLevel.BASIC) > accessLevel) return {status: SIStatus.NO_PROPERTY};
+        return {status: SIStatus.SUCCESS, description: describeProperty(+propertyId, property)};
+    }
+
+    /** @internal */
+    public findProperties(id: string, virtual: boolean, functions: Array<SIDeviceFunctions>, accessLevel: SIAccessLevel): Array<string> {
+        const [accessPattern, devicePattern, propertyPattern] = id.split(".");
+        let found: Array<string> = [];
+        this.deviceAccesses.forEach((access, accessId) => {
+            if (accessPattern !== "*" && accessPattern !== accessId) return;
+            access.devices.forEach((device, deviceId) => {
+                if (devicePattern !== "*" && devicePattern !== deviceId) return;
+                if (device.virtual !== virtual) return;
+                if (!functions.includes(SIDeviceFunctions.ALL) && !functions.some(it => device.functions.includes(it))) return;
+                device.properties.forEach((property, propertyId) => {
+                    if (propertyPattern !== "*" && +propertyPattern !== propertyId) return;
+                    if ((property.accessLevel ?? SIAccessLevel.BASIC) > accessLevel) return;
+                    found.push(`${accessId}.${deviceId}.${propertyId}`);
+                });
+            });
+        });
+        return found;
+    }
+
+    /** @internal */
+    public readProperty(propertyId: string, accessLevel: SIAccessLevel): {status: SIStatus, value?: any} {
+        const property = this.findAccessibleProperty(propertyId, accessLevel);
+        if (property === undefined) return {status: SIStatus.NO_PROPERTY};
+        if (property.readable === false) return {status: SIStatus.ERROR};
+        return {status: SIStatus.SUCCESS, value: property.value};
+    }
+
+    /** @internal */
+    public writeProperty(propertyId: string, value: any, accessLevel: SIAccessLevel): SIStatus {
+        const property = this.findAccessibleProperty(propertyId, accessLevel);
+        if (property === undefined) return SIStatus.NO_PROPERTY;
+        if (property.writeable !== true) return SIStatus.ERROR;
+        if (property.type !== SIPropertyType.SIGNAL) {
+            if (value === undefined || value === null) return SIStatus.INVALID_VALUE;
+            this.setPropertyValue(propertyId, value);
+        }
+        return SIStatus.SUCCESS;
+    }
+
+    /** @internal */
+    public subscribe(session: SIMockSession, propertyId: string): SIStatus {
+        if (this.findAccessibleProperty(propertyId, session.accessLevel) === undefined) return SIStatus.NO_PROPERTY;
+        session.subscriptions.add(propertyId);
+        return SIStatus.SUCCESS;
+    }
+
+    /** @internal */
+    public unsubscribe(session: SIMockSession, propertyId: string): SIStatus {
+        return session.subscriptions.delete(propertyId) ? SIStatus.SUCCESS : SIStatus.NO_PROPERTY;
+    }
+
+    /** @internal */
+    public readDatalogProperties(dateFrom?: Date, dateTo?: Date): Array<string> {
+        return Array.from(this.datalog.entries())
+            .filter(([_, entries]) => entries.some(it => (dateFrom === undefined || it.timestamp >= dateFrom) && (dateTo === undefined || it.timestamp <= dateTo)))
+            .map(([id, _]) => id);
+    }
+
+    /** @internal */
+    public readDatalog(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number): Array<{timestamp: Date, value: any}> {
+        const entries = (this.datalog.get(propertyId) || [])
+            .filter(it => (dateFrom === undefined || it.timestamp >= dateFrom) && (dateTo === undefined || it.timestamp <= dateTo));
+        return limit ? entries.slice(0, limit) : entries;
+    }
+
+    /** @internal */
+    public readMessages(dateFrom?: Date, dateTo?: Date, limit?: number): Array<SIDeviceMessage> {
+        const messages = this.messages
+            .filter(it => (dateFrom === undefined || it.timestamp >= dateFrom) && (dateTo === undefined || it.timestamp <= dateTo));
+        return limit ? messages.slice(0, limit) : messages;
+    }
+
+    /** @internal */
+    public callExtension(extension: string, command: string, parameters: Map<string, string> | Array<any>, body: string):
+        {status: SIExtensionStatus, parameters?: Map<string, string> | Array<any>, body: string} {
+        const commands = this.extensions.get(extension);
+        if (commands === undefined) return {status: SIExtensionStatus.UNSUPPORTED_EXTENSION, body: ""};
+        const handler = commands.get(command);
+        if (handler === undefined) return {status: SIExtensionStatus.UNSUPPORTED_COMMAND, body: ""};
+        const result = handler(parameters, body);
+        return {status: result.status, parameters: result.parameters, body: result.body || ""};
+    }
+
+    private findProperty(propertyId: string): SIMockProperty | undefined {
+        const [accessId, deviceId, id] = propertyId.split(".");
+        return this.deviceAccesses.get(accessId)?.devices.get(deviceId)?.properties.get(+id);
+    }
+
+    private findAccessibleProperty(propertyId: string, accessLevel: SIAccessLevel): SIMockProperty | undefined {
+        const property = this.findProperty(propertyId);
+        return property !== undefined && (property.accessLevel ?? SIAccessLevel.BASIC) <= accessLevel ? property : undefined;
+    }
+}
+
+
+/**************************************************************************************************************************************************************
+ * Mock WebSocket transport.
+ */
+
+type SIMockWebSocketFrame = {
+    command: string,
+    headers: Map<string, string>,
+    body: string
+}
+
+function decodeMockWebSocketFrame(frame: string): SIMockWebSocketFrame {
+    const separator = frame.indexOf("\n\n");
+    const head = separator >= 0 ? frame.substring(0, separator) : frame;
+    const lines = head.split("\n");
+    let headers = new Map<string, string>();
+    lines.slice(1).forEach(line => {
+        const colon = line.indexOf(":");
+        if (colon > 0) {
+            headers.set(line.substring(0, colon), line.substring(colon + 1));
+        }
+    });
+    return {command: lines[0], headers: headers, body: separator >= 0 ? frame.substring(separator + 2) : ""};
+}
+
+function encodeMockWebSocketFrame(command: string, headers: Array<[string, any]>, body?: string): string {
+    let frame = command + "\n";
+    headers.filter(([_, value]) => value !== undefined).forEach(([key, value]) => frame += `${key}:${value}\n`);
+    frame += "\n";
+    if (body !== undefined) {
+        frame += body;
+    }
+    return frame;
+}
+
+function encodeMockValue(value: any): string {
+    return value === undefined || value === null ? "" : String(value);
+}
+
+class SIMockWebSocket implements SIWebSocket {
+    public onopen: ((event: any) => void) | null = null;
+    public onmessage: ((event: any) => void) | null = null;
+    public onerror: ((event: any) => void) | null = null;
+    public onclose: ((event: any) => void) | null = null;
+
+    private gateway: SIMockGateway;
+    private session: SIMockSession;
+    private closed: boolean = false;
+
+    public constructor(gateway: SIMockGateway, url: string) {
+        this.gateway = gateway;
+        this.session = {
+            authorized: false,
+            accessLevel: SIAccessLevel.NONE,
+            subscriptions: new Set<string>(),
+            sendPropertyUpdate: (propertyId, value) => this.reply(encodeMockWebSocketFrame("PROPERTY UPDATE", [["id", propertyId], ["value", encodeMockValue(value)]])),
+            sendDeviceMessage: (message) => this.reply(encodeMockWebSocketFrame("DEVICE MESSAGE", [
+                ["access_id", message.accessId],
+                ["device_id", message.deviceId],
+                ["message_id", message.messageId],
+                ["message", message.message],
+                ["timestamp", message.timestamp.toISOString()]
+            ])),
+            close: () => this.close()
+        };
+
+        gateway.deliver(() => {
+            if (this.closed) return;
+            if (gateway.isOnline()) {
+                gateway.openSession(this.session);
+                this.onopen?.({});
+            } else {
+                this.closed = true;
+                this.onerror?.({});
+                this.onclose?.({});
+            }
+        });
+    }
+
+    public send(data: string) {
+        if (this.closed) return;
+        this.gateway.receivedFrames.push(data);
+
+        const frame = decodeMockWebSocketFrame(data);
+        const error = this.gateway.takeInjectedError(frame.command);
+        if (error !== undefined) {
+            this.gateway.deliver(() => this.reply(encodeMockWebSocketFrame("ERROR", [["reason", error]])));
+            return;
+        }
+
+        const response = this.handle(frame);
+        if (response !== undefined) {
+            this.gateway.deliver(() => this.reply(response));
+        }
+    }
+
+    public close() {
+        if (this.closed) return;
+        this.closed = true;
+        this.gateway.closeSession(this.session);
+        this.gateway.deliver(() => this.onclose?.({}));
+    }
+
+    private reply(frame: string) {
+        if (!this.closed) {
+            this.onmessage?.({data: frame});
+        }
+    }
+
+    private handle(frame: SIMockWebSocketFrame): string | undefined {
+        const gateway = this.gateway;
+        const session = this.session;
+        const headers = frame.headers;
+
+        if (!session.authorized) {
+            if (frame.command !== "AUTHORIZE") {
+                return encodeMockWebSocketFrame("ERROR", [["reason", "not authorized"]]);
+            }
+            const accessLevel = gateway.authorize(headers.get("user"), headers.get("password"));
+            if (accessLevel === undefined) {
+                return encodeMockWebSocketFrame("ERROR", [["reason", "invalid user or password"]]);
+            }
+            const protocolVersion = gateway.negotiateProtocolVersion((headers.get("protocol_version") || "").split(",").map(it => +it));
+            if (protocolVersion === undefined) {
+                return encodeMockWebSocketFrame("ERROR", [["reason", "protocol version not supported"]]);
+            }
+            session.authorized = true;
+            session.accessLevel = accessLevel;
+            return encodeMockWebSocketFrame("AUTHORIZED", [
+                ["access_level", accessLevelToString(accessLevel)],
+                ["protocol_version", protocolVersion],
+                ["gateway_version", gateway.getGatewayVersion()],
+                ["extensions", gateway.getExtensions().join(",")]
+            ]);
+        }
+
+        const dateHeader = (key: string) => headers.has(key) ? new Date(headers.get(key)!) : undefined;
+        const limitHeader = () => headers.has("limit") ? +headers.get("limit")! : undefined;
+
+        switch (frame.command) {
+            case "ENUMERATE":
+                return encodeMockWebSocketFrame("ENUMERATED", [["status", "Success"], ["device_count", gateway.getDeviceCount()]]);
+
+            case "DESCRIBE": {
+                const flags = (headers.get("flags") || "").split(",");
+                const noFlags = !headers.has("flags");
+                const result = gateway.describe(headers.get("id"),
+                    noFlags || flags.includes("IncludeAccessInformation"),
+                    noFlags || flags.includes("IncludeDeviceInformation"),
+                    noFlags || flags.includes("IncludePropertyInformation"),
+                    flags.includes("IncludeDriverInformation"),
+                    session.accessLevel);
+                return encodeMockWebSocketFrame("DESCRIPTION", [["status", statusToString(result.status)], ["id", headers.get("id")]],
+                    result.description !== undefined ? JSON.stringify(result.description) : undefined);
+            }
+
+            case "FIND PROPERTIES": {
+                const id = headers.get("id") || "";
+                const virtual = headers.get("virtual") === "true";
+                const functions = headers.has("functions") ? headers.get("functions")!.split(",").map(it => deviceFunctionFromString(it)) : [SIDeviceFunctions.ALL];
+                const found = gateway.findProperties(id, virtual, functions, session.accessLevel);
+                return encodeMockWebSocketFrame("PROPERTIES FOUND", [
+                    ["status", "Success"],
+                    ["id", id],
+                    ["count", found.length],
+                    ["virtual", virtual ? "true" : "false"],
+                    ["functions", headers.get("functions") || "all"]
+                ], JSON.stringify(found));
+            }
+
+            case "READ PROPERTY": {
+                const id = headers.get("id") || "";
+                const result = gateway.readProperty(id, session.accessLevel);
+                return encodeMockWebSocketFrame("PROPERTY READ", [
+                    ["status", statusToString(result.status)],
+                    ["id", id],
+                    ["value", result.status === SIStatus.SUCCESS ? encodeMockValue(result.value) : undefined]
+                ]);
+            }
+
+            case "READ PROPERTIES": {
+                const ids: Array<string> = JSON.parse(frame.body || "[]");
+                const results = ids.map(id => {
+                    const result = gateway.readProperty(id, session.accessLevel);
+                    return {status: statusToString(result.status), id: id, value: result.value};
+                });
+                return encodeMockWebSocketFrame("PROPERTIES READ", [["status", "Success"]], JSON.stringify(results));
+            }
+
+            case "WRITE PROPERTY": {
+                const id = headers.get("id") || "";
+                const status = gateway.writeProperty(id, headers.get("value"), session.accessLevel);
+                return encodeMockWebSocketFrame("PROPERTY WRITTEN", [["status", statusToString(status)], ["id", id]]);
+            }
+
+            case "SUBSCRIBE PROPERTY": {
+                const id = headers.get("id") || "";
+                return encodeMockWebSocketFrame("PROPERTY SUBSCRIBED", [["status", statusToString(gateway.subscribe(session, id))], ["id", id]]);
+            }
+
+            case "SUBSCRIBE PROPERTIES": {
+                const ids: Array<string> = JSON.parse(frame.body || "[]");
+                const results = ids.map(id => ({status: statusToString(gateway.subscribe(session, id)), id: id}));
+                return encodeMockWebSocketFrame("PROPERTIES SUBSCRIBED", [["status", "Success"]], JSON.stringify(results));
+            }
+
+            case "UNSUBSCRIBE PROPERTY": {
+                const id = headers.get("id") || "";
+                return encodeMockWebSocketFrame("PROPERTY UNSUBSCRIBED", [["status", statusToString(gateway.unsubscribe(session, id))], ["id", id]]);
+            }
+
+            case "UNSUBSCRIBE PROPERTIES": {
+                const ids: Array<string> = JSON.parse(frame.body || "[]");
+                const results = ids.map(id => ({status: statusToString(gateway.unsubscribe(session, id)), id: id}));
+                return encodeMockWebSocketFrame("PROPERTIES UNSUBSCRIBED", [["status", "Success"]], JSON.stringify(results));
+            }
+
+            case "READ DATALOG": {
+                const id = headers.get("id");
+                if (id === undefined) {
+                    const properties = gateway.readDatalogProperties(dateHeader("from"), dateHeader("to"));
+                    return encodeMockWebSocketFrame("DATALOG READ", [["status", "Success"], ["count", properties.length]], properties.join("\n"));
+                }
+                const entries = gateway.readDatalog(id, dateHeader("from"), dateHeader("to"), limitHeader());
+                return encodeMockWebSocketFrame("DATALOG READ", [["status", "Success"], ["id", id], ["count", entries.length]],
+                    entries.map(it => `${it.timestamp.toISOString()},${encodeMockValue(it.value)}`).join("\n"));
+            }
+
+            case "READ MESSAGES": {
+                const messages = gateway.readMessages(dateHeader("from"), dateHeader("to"), limitHeader());
+                return encodeMockWebSocketFrame("MESSAGES READ", [["status", "Success"], ["count", messages.length]], JSON.stringify(messages.map(it => ({
+                    timestamp: it.timestamp.toISOString(),
+                    access_id: it.accessId,
+                    device_id: it.deviceId,
+                    message_id: it.messageId,
+                    message: it.message
+                }))));
+            }
+
+            case "CALL EXTENSION": {
+                const extension = headers.get("extension") || "";
+                const command = headers.get("command") || "";
+                let parameters = new Map<string, string>(headers);
+                parameters.delete("extension");
+                parameters.delete("command");
+                const result = gateway.callExtension(extension, command, parameters, frame.body);
+                return encodeMockWebSocketFrame("EXTENSION CALLED", [
+                    ["extension", extension],
+                    ["command", command],
+                    ["status", extensionStatusToString(result.status)],
+                    ...(result.parameters instanceof Map ? Array.from(result.parameters.entries()) : [])
+                ], result.body);
+            }
+
+            default:
+                return encodeMockWebSocketFrame("ERROR", [["reason", "unknown command"]]);
+        }
+    }
+}
+
+
+/**************************************************************************************************************************************************************
+ * Fake Web Bluetooth transport.
+ */
+
+const SERVICE_UUID = "f3c2d800-8421-44b1-9655-0951992f313b";
+const RX_CHARACTERISTIC_UUID = "f3c2d801-8421-44b1-9655-0951992f313b";
+const TX_CHARACTERISTIC_UUID = "f3c2d802-8421-44b1-9655-0951992f313b";
+
+const BLUETOOTH_COMMANDS = new Map<number, string>([
+    [0x01, "AUTHORIZE"],
+    [0x02, "ENUMERATE"],
+    [0x03, "DESCRIBE"],
+    [0x04, "READ PROPERTY"],
+    [0x05, "WRITE PROPERTY"],
+    [0x06, "SUBSCRIBE PROPERTY"],
+    [0x07, "UNSUBSCRIBE PROPERTY"],
+    [0x08, "READ DATALOG"],
+    [0x09, "READ MESSAGES"],
+    [0x0A, "FIND PROPERTIES"],
+    [0x0B, "CALL EXTENSION"]
+]);
+
+class SIFakeEventTarget {
+    private listeners: Map<string, Set<(event: any) => void>> = new Map<string, Set<(event: any) => void>>();
+
+    public addEventListener(type: string, listener: (event: any) => void) {
+        if (!this.listeners.has(type)) {
+            this.listeners.set(type, new Set<(event: any) => void>());
+        }
+        this.listeners.get(type)!.add(listener);
+    }
+
+    public removeEventListener(type: string, listener: (event: any) => void) {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    protected dispatch(type: string) {
+        this.listeners.get(type)?.forEach(listener => listener({type: type, target: this}));
+    }
+}
+
+class SIFakeBluetoothCharacteristic extends SIFakeEventTarget {
+    public readonly uuid: string;
+    public value: DataView | undefined = undefined;
+
+    private peripheral: SIFakeBluetoothPeripheral;
+
+    public constructor(peripheral: SIFakeBluetoothPeripheral, uuid: string) {
+        super();
+        this.peripheral = peripheral;
+        this.uuid = uuid;
+    }
+
+    public startNotifications(): Promise<SIFakeBluetoothCharacteristic> {
+        return this.peripheral.operation(() => this);
+    }
+
+    public writeValueWithoutResponse(value: BufferSource): Promise<void> {
+        const bytes = ArrayBuffer.isView(value) ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength) : new Uint8Array(value);
+        return this.peripheral.write(this.uuid, bytes.slice());
+    }
+
+    public writeValue(value: BufferSource): Promise<void> {
+        return this.writeValueWithoutResponse(value);
+    }
+
+    public notify(fragment: Uint8Array) {
+        // The client uses the whole underlying buffer, so every notification gets its own buffer.
+        this.value = new DataView(fragment.slice().buffer);
+        this.dispatch("characteristicvaluechanged");
+    }
+}
+
+class SIFakeBluetoothService {
+    public readonly uuid: string = SERVICE_UUID;
+
+    private peripheral: SIFakeBluetoothPeripheral;
+
+    public constructor(peripheral: SIFakeBluetoothPeripheral) {
+        this.peripheral = peripheral;
+    }
+
+    public getCharacteristic(uuid: string): Promise<SIFakeBluetoothCharacteristic> {
+        return this.peripheral.operation(() => this.peripheral.characteristic(uuid));
+    }
+}
+
+class SIFakeBluetoothRemoteGATTServer {
+    public readonly device: SIFakeBluetoothPeripheral;
+
+    public constructor(device: SIFakeBluetoothPeripheral) {
+        this.device = device;
+    }
+
+    public get connected(): boolean {
+        return this.device.isConnected();
+    }
+
+    public connect(): Promise<SIFakeBluetoothRemoteGATTServer> {
+        return this.device.connectGatt().then(() => this);
+    }
+
+    public disconnect() {
+        this.device.disconnectGatt();
+    }
+
+    public getPrimaryService(uuid: string): Promise<SIFakeBluetoothService> {
+        return this.device.operation(() => this.device.service(uuid));
+    }
+}
+
+abstract class SIFakeBluetoothPeripheral extends SIFakeEventTarget {
+    public readonly id: string = "openstuder-mock";
+    public readonly name: string = "OpenStuder";
+    public readonly gatt: SIFakeBluetoothRemoteGATTServer;
+
+    private bluetooth: SIFakeBluetooth;
+    private gattService: SIFakeBluetoothService;
+    private rx: SIFakeBluetoothCharacteristic;
+    private tx: SIFakeBluetoothCharacteristic;
+    private connected: boolean = false;
+    private frame: Uint8Array = new Uint8Array(0);
+
+    protected constructor(bluetooth: SIFakeBluetooth) {
+        super();
+        this.bluetooth = bluetooth;
+        this.gatt = new SIFakeBluetoothRemoteGATTServer(this);
+        this.gattService = new SIFakeBluetoothService(this);
+        this.rx = new SIFakeBluetoothCharacteristic(this, RX_CHARACTERISTIC_UUID);
+        this.tx = new SIFakeBluetoothCharacteristic(this, TX_CHARACTERISTIC_UUID);
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public connectGatt(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this.deliver(() => {
+                if (!this.isReachable()) {
+                    reject(new Error("NetworkError: Bluetooth device is no longer in range."));
+                    return;
+                }
+                if (!this.connected) {
+                    this.connected = true;
+                    this.frame = new Uint8Array(0);
+                    this.opened();
+                }
+                resolve();
+            });
+        });
+    }
+
+    public disconnectGatt() {
+        if (!this.connected) return;
+        this.closed();
+        this.connected = false;
+        this.frame = new Uint8Array(0);
+        this.deliver(() => this.dispatch("gattserverdisconnected"));
+    }
+
+    public service(uuid: string): SIFakeBluetoothService {
+        if (uuid !== SERVICE_UUID) {
+            throw new Error(`NotFoundError: No service matching UUID ${uuid} found in device.`);
+        }
+        return this.gattService;
+    }
+
+    public characteristic(uuid: string): SIFakeBluetoothCharacteristic {
+        switch (uuid) {
+            case RX_CHARACTERISTIC_UUID:
+                return this.rx;
+            case TX_CHARACTERISTIC_UUID:
+                return this.tx;
+            default:
+                throw new Error(`NotFoundError: No characteristic matching UUID ${uuid} found in service.`);
+        }
+    }
+
+    public operation<T>(action: () => T): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.deliver(() => {
+                if (!this.connected) {
+                    reject(new Error("NetworkError: GATT Server is disconnected."));
+                    return;
+                }
+                try {
+                    resolve(action());
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+    }
+
+    public write(uuid: string, fragment: Uint8Array): Promise<void> {
+        if (uuid !== TX_CHARACTERISTIC_UUID) {
+            return Promise.reject(new Error("NotSupportedError: GATT operation not permitted."));
+        }
+        if (!this.connected) {
+            return Promise.reject(new Error("NetworkError: GATT Server is disconnected."));
+        }
+        const failure = this.bluetooth.takeWriteFailure();
+        if (failure !== undefined) {
+            return Promise.reject(new Error(failure));
+        }
+
+        // The first byte of each fragment holds the number of fragments still to follow.
+        const frame = new Uint8Array(this.frame.length + fragment.length - 1);
+        frame.set(this.frame);
+        frame.set(fragment.subarray(1), this.frame.length);
+        this.frame = frame;
+        if (fragment[0] === 0) {
+            this.frame = new Uint8Array(0);
+            this.receive(frame);
+        }
+        return Promise.resolve();
+    }
+
+    protected send(payload: Uint8Array) {
+        const fragmentSize = this.bluetooth.getFragmentSize();
+        let fragmentCount = Math.max(Math.ceil(payload.length / fragmentSize), 1);
+        while (fragmentCount > 0) {
+            fragmentCount -= 1;
+            const length = Math.min(payload.length, fragmentSize);
+            let fragment = new Uint8Array(length + 1);
+            fragment[0] = Math.min(fragmentCount, 255);
+            fragment.set(payload.subarray(0, length), 1);
+            payload = payload.subarray(length);
+            if (this.connected) {
+                this.rx.notify(fragment);
+            }
+        }
+    }
+
+    protected abstract deliver(action: () => void): void;
+
+    protected abstract isReachable(): boolean;
+
+    protected abstract opened(): void;
+
+    protected abstract closed(): void;
+
+    protected abstract receive(frame: Uint8Array): void;
+}
+
+class SIMockBluetoothPeripheral extends SIFakeBluetoothPeripheral {
+    private gateway: SIMockGateway;
+    private session: SIMockSession | undefined = undefined;
+
+    public constructor(gateway: SIMockGateway, bluetooth: SIFakeBluetooth) {
+        super(bluetooth);
+        this.gateway = gateway;
+    }
+
+    protected deliver(action: () => void) {
+        this.gateway.deliver(action);
+    }
+
+    protected isReachable(): boolean {
+        return this.gateway.isOnline();
+    }
+
+    protected opened() {
+        this.session = {
+            authorized: false,
+            accessLevel: SIAccessLevel.NONE,
+            subscriptions: new Set<string>(),
+            sendPropertyUpdate: (propertyId, value) => this.reply(0xFE, propertyId, value ?? null),
+            sendDeviceMessage: (message) => this.reply(0xFD, Math.floor(message.timestamp.getTime() / 1000), message.accessId, message.deviceId, +message.messageId,
+                message.message),
+            close: () => this.disconnectGatt()
+        };
+        this.gateway.openSession(this.session);
+    }
+
+    protected closed() {
+        if (this.session !== undefined) {
+            this.gateway.closeSession(this.session);
+            this.session = undefined;
+        }
+    }
+
+    private reply(...values: Array<any>) {
+        let payload = new Uint8Array(0);
+        values.forEach(value => {
+            const encoded = CBOR_encode(value);
+            const joined = new Uint8Array(payload.length + encoded.length);
+            joined.set(payload);
+            joined.set(encoded, payload.length);
+            payload = joined;
+        });
+        this.send(payload);
+    }
+
+    protected receive(frame: Uint8Array) {
+        this.gateway.receivedFrames.push(frame);
+
+        let decoded: Array<any>;
+        try {
+            decoded = CBOR_decodeMultiple(frame) as Array<any>;
+        } catch (error) {
+            this.gateway.deliver(() => this.reply(0xFF, "invalid frame"));
+            return;
+        }
+
+        const command = decoded[0];
+        const error = this.gateway.takeInjectedError(BLUETOOTH_COMMANDS.get(command) || "");
+        if (error !== undefined) {
+            this.gateway.deliver(() => this.reply(0xFF, error));
+            return;
+        }
+
+        const response = this.handle(command, decoded.slice(1));
+        this.gateway.deliver(() => this.reply(...response));
+    }
+
+    private handle(command: number, parameters: Array<any>): Array<any> {
+        const gateway = this.gateway;
+        const session = this.session!;
+
+        if (!session.authorized) {
+            if (command !== 0x01) {
+                return [0xFF, "not authorized"];
+            }
+            const accessLevel = gateway.authorize(parameters[0] ?? undefined, parameters[1] ?? undefined);
+            if (accessLevel === undefined) {
+                return [0xFF, "invalid user or password"];
+            }
+            // Like the installed gateways, the mock only accepts a single protocol version as integer.
+            if (typeof parameters[2] !== "number") {
+                return [0xFF, "invalid protocol version"];
+            }
+            const protocolVersion = gateway.negotiateProtocolVersion([parameters[2]]);
+            if (protocolVersion === undefined) {
+                return [0xFF, "protocol version not supported"];
+            }
+            session.authorized = true;
+            session.accessLevel = accessLevel;
+            return [0x81, accessLevel, protocolVersion, gateway.getGatewayVersion(), gateway.getExtensions().join(",")];
+        }
+
+        const date = (value: any) => typeof value === "number" ? new Date(value) : undefined;
+        const limit = (value: any) => typeof value === "number" ? value : undefined;
+
+        switch (command) {
+            case 0x02:
+                return [0x82, SIStatus.SUCCESS, gateway.getDeviceCount()];
+
+            case 0x03: {
+                const id = parameters[0] ?? undefined;
+                const flags: Array<string> = Array.isArray(parameters[1]) ? parameters[1] : [];
+                const noFlags = flags.length === 0;
+                const result = gateway.describe(id,
+                    noFlags || flags.includes("IncludeAccessInformation"),
+                    noFlags || flags.includes("IncludeDeviceInformation"),
+                    noFlags || flags.includes("IncludePropertyInformation"),
+                    flags.includes("IncludeDriverInformation"),
+                    session.accessLevel);
+                return [0x83, result.status, id ?? null, result.description ?? null];
+            }
+
+            case 0x04: {
+                const result = gateway.readProperty(parameters[0], session.accessLevel);
+                return [0x84, result.status, parameters[0], result.value ?? null];
+            }
+
+            case 0x05:
+                return [0x85, gateway.writeProperty(parameters[0], parameters[2] ?? undefined, session.accessLevel), parameters[0]];
+
+            case 0x06:
+                return [0x86, gateway.subscribe(session, parameters[0]), parameters[0]];
+
+            case 0x07:
+                return [0x87, gateway.unsubscribe(session, parameters[0]), parameters[0]];
+
+            case 0x08: {
+                const id = parameters[0] ?? undefined;
+                if (id === undefined) {
+                    const properties = gateway.readDatalogProperties(date(parameters[1]), date(parameters[2]));
+                    return [0x88, SIStatus.SUCCESS, null, properties.length, properties];
+                }
+                const entries = gateway.readDatalog(id, date(parameters[1]), date(parameters[2]), limit(parameters[3]));
+                let results: Array<any> = [];
+                entries.forEach(it => results.push(it.timestamp.getTime(), it.value));
+                return [0x88, SIStatus.SUCCESS, id, entries.length, results];
+            }
+
+            case 0x09: {
+                const messages = gateway.readMessages(date(parameters[0]), date(parameters[1]), limit(parameters[2]));
+                let results: Array<any> = [];
+                messages.forEach(it => results.push(Math.floor(it.timestamp.getTime() / 1000), it.accessId, it.deviceId, +it.messageId, it.message));
+                return [0x89, SIStatus.SUCCESS, messages.length, results];
+            }
+
+            case 0x0A: {
+                const virtual = parameters[1] === true;
+                const functions: Array<string> = Array.isArray(parameters[2]) ? parameters[2] : ["all"];
+                const found = gateway.findProperties(parameters[0], virtual, functions.map(it => deviceFunctionFromString(it)), session.accessLevel);
+                return [0x8A, SIStatus.SUCCESS, parameters[0], found.length, virtual, functions, found];
+            }
+
+            case 0x0B: {
+                const result = gateway.callExtension(parameters[0], parameters[1], parameters.slice(2), "");
+                return [0x8B, parameters[0], parameters[1], result.status, ...(Array.isArray(result.parameters) ? result.parameters : [])];
+            }
+
+            default:
+                return [0xFF, "unknown command"];
+        }
+    }
+}
+
+/**
+ * Simulated Web Bluetooth API exposing a SIMockGateway as virtual OpenStuder Bluetooth peripheral speaking the CBOR protocol. Install it as navigator.bluetooth in order to test code built on
+ * SIBluetoothGatewayClient on systems without Bluetooth hardware:
+ *
+ *     const bluetooth = new SIFakeBluetooth(gateway);
+ *     (globalThis as any).navigator = {bluetooth: bluetooth};
+ *
+ *     const client = new SIBluetoothGatewayClient();
+ *     client.connect();
+ *
+ * Frames sent to the client are split into fragments of at most getFragmentSize() bytes, connection losses and failing GATT writes can be simulated using simulateDisconnect() and
+ * failWrites(). While the gateway is offline (SIMockGateway.setOnline()), GATT connections fail. Passing a SITrafficReplay instead of a gateway replays a recorded Bluetooth session.
+ */
+export class SIFakeBluetooth {
+    private available: boolean = true;
+    private deviceSelectable: boolean = true;
+    private fragmentSize: number = 508;
+    private writeFailures: Array<string> = [];
+    private peripheral: SIFakeBluetoothPeripheral;
+
+    /**
+     * Creates a simulated Web Bluetooth API with a single OpenStuder peripheral.
+     *
+     * @param source Mock gateway simulating the installation behind the peripheral, or traffic replay feeding a recorded Bluetooth session to the client.
+     */
+    public constructor(source: SIMockGateway | SITrafficReplay) {
+        this.peripheral = source instanceof SITrafficReplay ? new SIReplayBluetoothPeripheral(source, this) : new SIMockBluetoothPeripheral(source, this);
+    }
+
+    /**
+     * Sets whether a Bluetooth adapter is available, reported by getAvailability().
+     *
+     * @param available False to simulate a system without Bluetooth adapter.
+     */
+    public setAvailable(available: boolean) {
+        this.available = available;
+    }
+
+    /**
+     * Sets whether the user selects the peripheral in the device chooser. If not, requestDevice() fails as if the user cancelled the chooser.
+     *
+     * @param selectable False to make requestDevice() fail.
+     */
+    public setDeviceSelectable(selectable: boolean) {
+        this.deviceSelectable = selectable;
+    }
+
+    /**
+     * Sets the maximal payload size of the fragments sent to the client, small values force frames to be split into multiple fragments.
+     *
+     * @param size Maximal fragment payload size in bytes, defaults to 508.
+     */
+    public setFragmentSize(size: number) {
+        this.fragmentSize = Math.max(1, size);
+    }
+
+    /**
+     * Returns the maximal payload size of the fragments sent to the client.
+     *
+     * @return Maximal fragment payload size in bytes.
+     */
+    public getFragmentSize(): number {
+        return this.fragmentSize;
+    }
+
+    /**
+     * Makes the next GATT write operation(s) of the client fail.
+     *
+     * @param count Number of subsequent write operations to fail.
+     * @param reason Message of the error the write operations are rejected with.
+     */
+    public failWrites(count: number = 1, reason: string = "NetworkError: GATT operation failed for unknown reason.") {
+        for (let i = 0; i < count; ++i) {
+            this.writeFailures.push(reason);
+        }
+    }
+
+    /**
+     * Drops the GATT connection, simulating the peripheral getting out of range.
+     */
+    public simulateDisconnect() {
+        this.peripheral.disconnectGatt();
+    }
+
+    /**
+     * Web Bluetooth API: Returns if a Bluetooth adapter is available.
+     */
+    public getAvailability(): Promise<boolean> {
+        return Promise.resolve(this.available);
+    }
+
+    /**
+     * Web Bluetooth API: Returns the OpenStuder peripheral if the filters accept the OpenStuder service and the device is selectable.
+     *
+     * @param options Request options, only service filters are evaluated.
+     */
+    public requestDevice(options?: {filters?: Array<{services?: Array<string>}>}): Promise<any> {
+        if (!this.available) {
+            return Promise.reject(new Error("NotFoundError: Bluetooth adapter not available."));
+        }
+        const accepted = options?.filters === undefined || options.filters.some(filter => filter.services === undefined || filter.services.includes(SERVICE_UUID));
+        if (!this.deviceSelectable || !accepted) {
+            return Promise.reject(new Error("NotFoundError: User cancelled the requestDevice() chooser."));
+        }
+        return Promise.resolve(this.peripheral);
+    }
+
+    /** @internal */
+    public takeWriteFailure(): string | undefined {
+        return this.writeFailures.shift();
+    }
+}
+
+
+/**************************************************************************************************************************************************************
+ * Traffic replay.
+ */
+
+type SITrafficReplayConnection = {
+    transport: "websocket" | "bluetooth",
+    receive: (data: string) => void
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+    let hex = "";
+    bytes.forEach(byte => hex += ("0" + byte.toString(16)).slice(-2));
+    return hex;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+    let bytes = new Uint8Array(Math.floor(hex.length / 2));
+    for (let i = 0; i < bytes.length; ++i) {
+        bytes[i] = parseInt(hex.substring(2 * i, 2 * i + 2), 16);
+    }
+    return bytes;
+}
+
+// Clients record the AUTHORIZE frame with the password replaced by "***" unless recording the credentials was enabled, so the frame sent during the replay is compared redacted too.
+function redactReplayedAuthorizeFrame(transport: "websocket" | "bluetooth", data: string): string {
+    if (transport === "websocket") {
+        return data.startsWith("AUTHORIZE\n") ? data.replace(/^password:.*$/m, "password:***") : data;
+    }
+    let sequence: Array<any>;
+    try {
+        sequence = CBOR_decodeMultiple(hexToBytes(data)) as Array<any>;
+    } catch (error) {
+        return data;
+    }
+    if (sequence[0] !== 0x01 || typeof sequence[2] !== "string" || sequence[2] === "") {
+        return data;
+    }
+    sequence[2] = "***";
+    return sequence.map(value => bytesToHex(CBOR_encode(value))).join("");
+}
+
+class SIReplayWebSocket implements SIWebSocket {
+    public onopen: ((event: any) => void) | null = null;
+    public onmessage: ((event: any) => void) | null = null;
+    public onerror: ((event: any) => void) | null = null;
+    public onclose: ((event: any) => void) | null = null;
+
+    private replay: SITrafficReplay;
+    private connection: SITrafficReplayConnection | undefined = undefined;
+    private closed: boolean = false;
+
+    public constructor(replay: SITrafficReplay) {
+        this.replay = replay;
+        replay.deliver(() => {
+            if (this.closed) return;
+            this.connection = replay.open("websocket", data => this.onmessage?.({data: data}));
+            this.onopen?.({});
+        });
+    }
+
+    public send(data: string) {
+        if (this.connection !== undefined) {
+            this.replay.sent(this.connection, data);
+        }
+    }
+
+    public close() {
+        if (this.closed) return;
+        this.closed = true;
+        if (this.connection !== undefined) {
+            this.replay.close(this.connection);
+            this.connection = undefined;
+        }
+        this.replay.deliver(() => this.onclose?.({}));
+    }
+}
+
+class SIReplayBluetoothPeripheral extends SIFakeBluetoothPeripheral {
+    private replay: SITrafficReplay;
+    private connection: SITrafficReplayConnection | undefined = undefined;
+
+    public constructor(replay: SITrafficReplay, bluetooth: SIFakeBluetooth) {
+        super(bluetooth);
+        this.replay = replay;
+    }
+
+    protected deliver(action: () => void) {
+        this.replay.deliver(action);
+    }
+
+    protected isReachable(): boolean {
+        return true;
+    }
+
+    protected opened() {
+        this.connection = this.replay.open("bluetooth", data => this.send(hexToBytes(data)));
+    }
+
+    protected closed() {
+        if (this.connection !== undefined) {
+            this.replay.close(this.connection);
+            this.connection = undefined;
+        }
+    }
+
+    protected receive(frame: Uint8Array) {
+        if (this.connection !== undefined) {
+            this.replay.sent(this.connection, bytesToHex(frame));
+        }
+    }
+}
+
+/**
+ * The SITrafficReplayMismatch type describes a frame sent by the client during a replay that differs from the frame sent in the recorded session.
+ */
+export type SITrafficReplayMismatch = {
+    /**
+     * Index of the record in the recording the frame was compared to.
+     */
+    index: number,
+
+    /**
+     * Frame sent in the recorded session, undefined if the recording did not contain any further frame sent by the client.
+     */
+    expected?: string,
+
+    /**
+     * Frame sent by the client during the replay.
+     */
+    actual: string
+}
+
+/**
+ * Replays a session captured by a SITrafficRecorder (for example SIJsonlTrafficRecorder) to a SIGatewayClient or a SIBluetoothGatewayClient, making it possible to reproduce a session of
+ * an installation without access to it:
+ *
+ *     const replay = new SITrafficReplay(recording);
+ *
+ *     client.setWebSocketFactory(replay.webSocketFactory);     // SIGatewayClient
+ *     navigator.bluetooth = new SIFakeBluetooth(replay);       // SIBluetoothGatewayClient
+ *
+ * The frames received in the recorded session are fed to the client in the recorded order. Whenever the recording continues with a frame sent by the client, the replay waits until the
+ * client sends its next frame, so the frames are delivered in the same order relative to the actions of the client as in the recorded session. The frames sent by the client are
+ * compared to the recorded ones, differences are collected and can be retrieved using getMismatches(). By default the received frames are delivered without delay, setRealTime() preserves
+ * the recorded timing.
+ *
+ * Only the records of the transport used by the client are replayed. Connection losses are not part of a recording, once it is exhausted the connection stays open.
+ */
+export class SITrafficReplay {
+    private records: Array<SITrafficRecord>;
+    private position: number = 0;
+    private connection: SITrafficReplayConnection | undefined = undefined;
+    private sentFrames: Array<string> = [];
+    private pendingDelivery: any = undefined;
+    private realTime: boolean = false;
+    private mismatches: Array<SITrafficReplayMismatch> = [];
+    private timers: SITimerProvider;
+
+    /**
+     * WebSocket factory connecting a SIGatewayClient to the replay, pass it to SIGatewayClient.setWebSocketFactory().
+     */
+    public readonly webSocketFactory: SIWebSocketFactory = (_: string) => new SIReplayWebSocket(this);
+
+    /**
+     * Creates a replay of the given recording.
+     *
+     * @param recording Recording in the JSON Lines format as written by SIJsonlTrafficRecorder or the records of a recording.
+     * @param timers Timer functions used to deliver the frames, defaults to the global setTimeout() and clearTimeout() functions.
+     */
+    public constructor(recording: string | Array<SITrafficRecord>, timers?: SITimerProvider) {
+        this.records = typeof recording === "string" ? SIJsonlTrafficRecorder.parse(recording) : recording.slice();
+        this.timers = timers || {
+            setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+            clearTimeout: (handle: any) => clearTimeout(handle)
+        };
+    }
+
+    /**
+     * Sets whether the recorded time between the frames is preserved. If disabled (default), the received frames are delivered as fast as possible.
+     *
+     * @param enabled True to deliver the frames with the recorded timing.
+     */
+    public setRealTime(enabled: boolean) {
+        this.realTime = enabled;
+    }
+
+    /**
+     * Returns the frames sent by the client that differ from the recorded ones.
+     *
+     * @return Mismatches in the order they were detected.
+     */
+    public getMismatches(): Array<SITrafficReplayMismatch> {
+        return this.mismatches.slice();
+    }
+
+    /**
+     * Returns true once all records of the recording have been replayed.
+     *
+     * @return True if the replay is finished.
+     */
+    public isFinished(): boolean {
+        return this.position >= this.records.length;
+    }
+
+    /** @internal */
+    public deliver(action: () => void) {
+        this.timers.setTimeout(action, 0);
+    }
+
+    /** @internal */
+    public open(transport: "websocket" | "bluetooth", receive: (data: string) => void): SITrafficReplayConnection {
+        if (this.connection !== undefined) {
+            this.close(this.connection);
+        }
+        this.connection = {transport: transport, receive: receive};
+        this.pump();
+        return this.connection;
+    }
+
+    /** @internal */
+    public sent(connection: SITrafficReplayConnection, data: string) {
+        if (connection !== this.connection) return;
+        this.sentFrames.push(data);
+        this.pump();
+    }
+
+    /** @internal */
+    public close(connection: SITrafficReplayConnection) {
+        if (connection !== this.connection) return;
+        this.connection = undefined;
+        this.sentFrames = [];
+        if (this.pendingDelivery !== undefined) {
+            this.timers.clearTimeout(this.pendingDelivery);
+            this.pendingDelivery = undefined;
+        }
+    }
+
+    private pump() {
+        const connection = this.connection;
+        if (connection === undefined || this.pendingDelivery !== undefined) return;
+
+        while (this.position < this.records.length) {
+            const record = this.records[this.position];
+            if (record.transport !== connection.transport) {
+                this.position += 1;
+                continue;
+            }
+
+            // Frames sent by the client are compared to the recorded ones, the replay waits for the client if it did not yet send its next frame.
+            if (record.direction === "tx") {
+                const actual = this.sentFrames.shift();
+                if (actual === undefined) return;
+                if (actual !== record.data && redactReplayedAuthorizeFrame(connection.transport, actual) !== record.data) {
+                    this.mismatches.push({index: this.position, expected: record.data, actual: actual});
+                }
+                this.position += 1;
+                continue;
+            }
+
+            const delay = this.realTime && this.position > 0 ? Math.max(record.timestamp - this.records[this.position - 1].timestamp, 0) : 0;
+            this.pendingDelivery = this.timers.setTimeout(() => {
+                this.pendingDelivery = undefined;
+                this.position += 1;
+                connection.receive(record.data);
+                this.pump();
+            }, delay);
+            return;
+        }
+
+        this.sentFrames.forEach(actual => this.mismatches.push({index: this.records.length, expected: undefined, actual: actual}));
+        this.sentFrames = [];
+    }
+}
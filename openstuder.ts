@@ -1,3 +1,4 @@
+/// <reference lib="es2018.asynciterable" />
 import {encode as CBOR_encode} from "cbor-x/encode";
 import {decodeMultiple as CBOR_decodeMultiple} from "cbor-x/decode";
 
@@ -247,150 +248,2674 @@ function deviceFunctionsFromString(str?: string): Set<SIDeviceFunctions> {
     return functions;
 }
 
+function deviceFunctionsToStrings(functions: Array<SIDeviceFunctions>): Array<string> {
+    let strings: Array<string> = [];
+    functions.forEach(func => {
+        if (func === SIDeviceFunctions.INVERTER) strings.push("inverter");
+        if (func === SIDeviceFunctions.CHARGER) strings.push("charger");
+        if (func === SIDeviceFunctions.SOLAR) strings.push("solar");
+        if (func === SIDeviceFunctions.TRANSFER) strings.push("transfer");
+        if (func === SIDeviceFunctions.BATTERY) strings.push("battery");
+        if (func === SIDeviceFunctions.ALL) strings.push("all");
+    });
+    return strings;
+}
+
+function describeId(deviceAccessId?: string, deviceId?: string, propertyId?: number): string | undefined {
+    let id: string | undefined = undefined;
+    if (deviceAccessId !== null && deviceAccessId !== undefined) {
+        id = deviceAccessId;
+        if (deviceId !== null && deviceId !== undefined) {
+            id += "." + deviceId;
+            if (propertyId !== null && propertyId !== undefined) {
+                id += "." + propertyId;
+            }
+        }
+    }
+    return id;
+}
+
+function descriptionFlagsToStrings(flags: Array<SIDescriptionFlags>): Array<string> {
+    let strings: Array<string> = [];
+    flags.forEach(flag => {
+        if (flag === SIDescriptionFlags.INCLUDE_ACCESS_INFORMATION) strings.push("IncludeAccessInformation");
+        if (flag === SIDescriptionFlags.INCLUDE_PROPERTY_INFORMATION) strings.push("IncludePropertyInformation");
+        if (flag === SIDescriptionFlags.INCLUDE_DEVICE_INFORMATION) strings.push("IncludeDeviceInformation");
+        if (flag === SIDescriptionFlags.INCLUDE_DRIVER_INFORMATION) strings.push("IncludeDriverInformation");
+    });
+    return strings;
+}
+
+function propertyValueFromString(str: string, type?: string): boolean | number | string {
+    switch (type) {
+        case "Float":
+        case "Enum":
+        case "TimeOfDay":
+        case "DaysOfWeek": {
+            const value = +str;
+            return isNaN(value) ? str : value;
+        }
+        case "Bool":
+            return str === "true" || str === "1";
+        case "String":
+        case "Signal":
+            return str;
+        default:
+            // Property type unknown, guess the type from the string representation.
+            if (str === "true" || str === "false") {
+                return str === "true";
+            }
+            if (str.trim() !== "" && !isNaN(+str)) {
+                return +str;
+            }
+            return str;
+    }
+}
+
+function collectPropertyTypes(description: any, path: Array<string>, types: Map<string, string>) {
+    if (description === null || typeof description !== "object") return;
+
+    if (path.length === 3 && typeof description.type === "string") {
+        types.set(path.join("."), description.type);
+    }
+    ["instances", "devices", "properties"].forEach(key => {
+        if (Array.isArray(description[key])) {
+            description[key].forEach((child: any) => {
+                if (child !== null && typeof child === "object" && child.id !== undefined) {
+                    collectPropertyTypes(child, [...path, String(child.id)], types);
+                }
+            });
+        }
+    });
+}
+
+/**
+ * Data type of a property.
+ */
+export enum SIPropertyType {
+    /**
+     * The type is unknown or invalid.
+     */
+    INVALID,
+
+    /**
+     * Floating point number.
+     */
+    FLOAT,
+
+    /**
+     * Enumerated value, the possible values are listed in the property description.
+     */
+    ENUM,
+
+    /**
+     * Boolean value.
+     */
+    BOOL,
+
+    /**
+     * Time of the day in minutes since midnight.
+     */
+    TIME_OF_DAY,
+
+    /**
+     * Days of the week as bit mask.
+     */
+    DAYS_OF_WEEK,
+
+    /**
+     * Signal property, writing to the property triggers an action, there is no value.
+     */
+    SIGNAL,
+
+    /**
+     * Character string.
+     */
+    STRING
+}
+
+function propertyTypeFromString(str?: string): SIPropertyType {
+    switch (str) {
+        case "Float":
+            return SIPropertyType.FLOAT;
+        case "Enum":
+            return SIPropertyType.ENUM;
+        case "Bool":
+            return SIPropertyType.BOOL;
+        case "TimeOfDay":
+            return SIPropertyType.TIME_OF_DAY;
+        case "DaysOfWeek":
+            return SIPropertyType.DAYS_OF_WEEK;
+        case "Signal":
+            return SIPropertyType.SIGNAL;
+        case "String":
+            return SIPropertyType.STRING;
+        default:
+            return SIPropertyType.INVALID;
+    }
+}
+
+/**
+ * Level of the subject of a description.
+ */
+export enum SIDescriptionLevel {
+    /**
+     * Description of the whole gateway.
+     */
+    GATEWAY,
+
+    /**
+     * Description of a device access instance.
+     */
+    DEVICE_ACCESS,
+
+    /**
+     * Description of a device.
+     */
+    DEVICE,
+
+    /**
+     * Description of a property.
+     */
+    PROPERTY
+}
+
+/**
+ * The SIPropertyDescription type describes a single property of a device.
+ */
+export type SIPropertyDescription = {
+    /**
+     * Always SIDescriptionLevel.PROPERTY.
+     */
+    level: SIDescriptionLevel.PROPERTY,
+
+    /**
+     * ID of the property on the device.
+     */
+    id: number,
+
+    /**
+     * Global ID of the property in the form '{device access ID}.{device ID}.{property ID}', empty if unknown.
+     */
+    globalId: string,
+
+    /**
+     * Data type of the property.
+     */
+    type: SIPropertyType,
+
+    /**
+     * Human readable description of the property.
+     */
+    description: string,
+
+    /**
+     * Unit of the property value, empty if the property has no unit.
+     */
+    unit: string,
+
+    /**
+     * True if the property can be read.
+     */
+    readable: boolean,
+
+    /**
+     * True if the property can be written.
+     */
+    writeable: boolean,
+
+    /**
+     * Possible values and their labels, only present for properties of type SIPropertyType.ENUM.
+     */
+    values?: Map<number, string>
+}
+
+/**
+ * The SIDeviceDescription type describes a device and its properties.
+ */
+export type SIDeviceDescription = {
+    /**
+     * Always SIDescriptionLevel.DEVICE.
+     */
+    level: SIDescriptionLevel.DEVICE,
+
+    /**
+     * ID of the device on the device access instance.
+     */
+    id: string,
+
+    /**
+     * Global ID of the device in the form '{device access ID}.{device ID}', empty if unknown.
+     */
+    globalId: string,
+
+    /**
+     * Device model.
+     */
+    model: string,
+
+    /**
+     * Functions of the device.
+     */
+    functions: Set<SIDeviceFunctions>,
+
+    /**
+     * Properties of the device, only present if property information was requested.
+     */
+    properties: SIPropertyDescription[]
+}
+
+/**
+ * The SIDeviceAccessDescription type describes a device access instance and the devices connected to it.
+ */
+export type SIDeviceAccessDescription = {
+    /**
+     * Always SIDescriptionLevel.DEVICE_ACCESS.
+     */
+    level: SIDescriptionLevel.DEVICE_ACCESS,
+
+    /**
+     * ID of the device access instance.
+     */
+    id: string,
+
+    /**
+     * Name of the device access driver, only present if access information was requested.
+     */
+    driver?: string,
+
+    /**
+     * Driver configuration parameters, only present if driver information was requested.
+     */
+    parameters?: Map<string, any>,
+
+    /**
+     * Devices connected through the device access instance, only present if device information was requested.
+     */
+    devices: SIDeviceDescription[]
+}
+
+/**
+ * The SIGatewayDescription type describes all device access instances of the gateway.
+ */
+export type SIGatewayDescription = {
+    /**
+     * Always SIDescriptionLevel.GATEWAY.
+     */
+    level: SIDescriptionLevel.GATEWAY,
+
+    /**
+     * Device access instances of the gateway.
+     */
+    deviceAccesses: SIDeviceAccessDescription[]
+}
+
+/**
+ * Parsed description as returned by parseDescription(), use the level field to determine the actual type.
+ */
+export type SIDescription = SIGatewayDescription | SIDeviceAccessDescription | SIDeviceDescription | SIPropertyDescription;
+
+/**
+ * Parses the description returned by the gateway as a result of the describe() method into a typed object model. Works for both the JSON string reported by SIGatewayClient and the
+ * decoded object reported by SIBluetoothGatewayClient.
+ *
+ * @param description Description as reported by the onDescription() callback or the describeAsync() method.
+ * @param id Subject's ID as reported together with the description, determines the level of the description.
+ * @return Parsed description.
+ * @raises SIProtocolError: If the description is not valid.
+ */
+export function parseDescription(description: string | object, id?: string): SIDescription {
+    let node: any;
+    try {
+        node = typeof description === "string" ? JSON.parse(description) : description;
+    } catch (error: any) {
+        throw new SIProtocolError("invalid description");
+    }
+    if (node === null || typeof node !== "object") {
+        throw new SIProtocolError("invalid description");
+    }
+
+    const path = id ? id.split(".") : [];
+    switch (path.length) {
+        case 0:
+            return {
+                level: SIDescriptionLevel.GATEWAY,
+                deviceAccesses: descriptionChildren(node, "instances").map(it => parseDeviceAccessDescription(it))
+            };
+        case 1:
+            return parseDeviceAccessDescription(node, path[0]);
+        case 2:
+            return parseDeviceDescription(node, path[0], path[1]);
+        default:
+            return parsePropertyDescription(node, path.slice(0, 2).join("."), +path[2]);
+    }
+}
+
+function descriptionField(node: any, key: string): any {
+    return node instanceof Map ? node.get(key) : node[key];
+}
+
+function descriptionChildren(node: any, key: string): Array<any> {
+    const children = descriptionField(node, key);
+    return Array.isArray(children) ? children.filter(it => it !== null && typeof it === "object") : [];
+}
+
+function parseDeviceAccessDescription(node: any, id?: string): SIDeviceAccessDescription {
+    const accessId = id ?? String(descriptionField(node, "id") ?? "");
+    const driver = descriptionField(node, "driver");
+    const parameters = descriptionField(node, "parameters");
+    return {
+        level: SIDescriptionLevel.DEVICE_ACCESS,
+        id: accessId,
+        driver: typeof driver === "string" ? driver : undefined,
+        parameters: parameters !== null && typeof parameters === "object" ?
+            (parameters instanceof Map ? parameters : new Map<string, any>(Object.entries(parameters))) : undefined,
+        devices: descriptionChildren(node, "devices").map(it => parseDeviceDescription(it, accessId))
+    };
+}
+
+function parseDeviceDescription(node: any, accessId: string, id?: string): SIDeviceDescription {
+    const deviceId = id ?? String(descriptionField(node, "id") ?? "");
+    const functions = descriptionField(node, "functions");
+    const globalId = accessId ? accessId + "." + deviceId : "";
+    return {
+        level: SIDescriptionLevel.DEVICE,
+        id: deviceId,
+        globalId: globalId,
+        model: String(descriptionField(node, "model") ?? ""),
+        functions: functions === undefined ? new Set<SIDeviceFunctions>() : deviceFunctionsFromString(Array.isArray(functions) ? functions.join(",") : String(functions)),
+        properties: descriptionChildren(node, "properties").map(it => parsePropertyDescription(it, globalId))
+    };
+}
+
+function parsePropertyDescription(node: any, deviceGlobalId: string, id?: number): SIPropertyDescription {
+    const propertyId = id ?? +(descriptionField(node, "id") ?? 0);
+    const type = propertyTypeFromString(descriptionField(node, "type"));
+    let values: Map<number, string> | undefined = undefined;
+    const rawValues = descriptionField(node, "values");
+    if (type === SIPropertyType.ENUM && rawValues !== null && typeof rawValues === "object") {
+        values = new Map<number, string>();
+        const entries: Array<[any, any]> = rawValues instanceof Map ? Array.from(rawValues.entries()) : Object.entries(rawValues);
+        entries.forEach(([value, label]) => values!.set(+value, String(label)));
+    }
+    return {
+        level: SIDescriptionLevel.PROPERTY,
+        id: propertyId,
+        globalId: deviceGlobalId ? deviceGlobalId + "." + propertyId : "",
+        type: type,
+        description: String(descriptionField(node, "description") ?? ""),
+        unit: String(descriptionField(node, "unit") ?? ""),
+        readable: descriptionField(node, "readable") === true,
+        writeable: descriptionField(node, "writeable") === true,
+        values: values
+    };
+}
+
+/**
+ * The SIErrorDetails type holds the context attached to an error reported by the clients.
+ */
+export type SIErrorDetails = {
+    /**
+     * Command the error relates to, for example "READ PROPERTY".
+     */
+    command?: string,
+
+    /**
+     * Frame that caused the error, text frames of the WebSocket protocol are passed as string, frames of the Bluetooth protocol as byte array.
+     */
+    frame?: string | Uint8Array,
+
+    /**
+     * Underlying error or event of the transport layer.
+     */
+    cause?: any
+}
+
 /**
- * Class for reporting all OpenStuder protocol errors.
+ * Class for reporting all OpenStuder protocol errors. The subclasses allow to distinguish the different kinds of errors, for example to show a login prompt on an SIAuthorizationError
+ * and a "gateway unreachable" message on an SITransportError.
  */
 export class SIProtocolError extends Error {
-    public constructor(message: string) {
+    /**
+     * Command the error relates to, if known.
+     */
+    public readonly command?: string;
+
+    /**
+     * Frame that caused the error, if any.
+     */
+    public readonly frame?: string | Uint8Array;
+
+    /**
+     * Underlying error or event of the transport layer, if any.
+     */
+    public readonly cause?: any;
+
+    public constructor(message: string, details: SIErrorDetails = {}) {
         super(message);
-        Object.setPrototypeOf(this, SIProtocolError.prototype);
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.command = details.command;
+        this.frame = details.frame;
+        this.cause = details.cause;
+    }
+
+    static raise(message: string, details: SIErrorDetails = {}) {
+        throw new this(message, details);
     }
+}
+
+/**
+ * The gateway rejected the authorization, for example because of an unknown user or a wrong password.
+ */
+export class SIAuthorizationError extends SIProtocolError {
+}
+
+/**
+ * The gateway does not support the protocol version of the client.
+ */
+export class SIProtocolVersionError extends SIProtocolError {
+}
+
+/**
+ * A command was issued while the client was not in the required state, for example before the connection was established.
+ */
+export class SIInvalidStateError extends SIProtocolError {
+}
+
+/**
+ * The connection to the gateway failed or was lost, the transport specific error or event is available in the cause property.
+ */
+export class SITransportError extends SIProtocolError {
+}
+
+/**
+ * The gateway responded with an error frame, the message holds the reason reported by the gateway.
+ */
+export class SIGatewayError extends SIProtocolError {
+}
+
+/**
+ * The gateway did not respond in time, either while establishing the connection or to a liveness check.
+ */
+export class SITimeoutError extends SIProtocolError {
+}
+
+/**
+ * The SIDeviceMessage type represents a message a device connected to the OpenStuder gateway has broadcast.
+ */
+export type SIDeviceMessage = {
+    /**
+     * Timestamp when the device message was received by the gateway.
+     */
+    timestamp: Date
+
+    /**
+     * ID of the device access driver that received the message.
+     */
+    accessId: string,
+
+    /**
+     * ID of the device that broadcast the message.
+     */
+    deviceId: string,
+
+    /**
+     * Message ID.
+     */
+    messageId: string,
+
+    /**
+     * String representation of the message.
+     */
+    message: string
+}
+
+/**
+ * The SIDPropertyReadResult type represents the status of a property read result.
+ */
+export type SIPropertyReadResult = {
+    /**
+     * Status of the property read operation.
+     */
+    status: SIStatus,
+
+    /**
+     * ID of the property read.
+     */
+    id: string,
+
+    /**
+     * Value that was read from the property, optional.
+     */
+    value?: any
+}
+
+/**
+ * The SIDSubscriptionsResult type represents the status of a property subscription/unsubscription.
+ */
+export type SISubscriptionsResult = {
+    /**
+     * Status of the property subscribe or unsubscribe operation.
+     */
+    status: SIStatus,
+
+    /**
+     * ID of the property.
+     */
+    id: string
+}
+
+/**
+ * The SIEnumerateResult type represents the result of an enumerate operation.
+ */
+export type SIEnumerateResult = {
+    /**
+     * Status of the enumeration operation.
+     */
+    status: SIStatus,
+
+    /**
+     * Number of devices present.
+     */
+    deviceCount: number
+}
+
+/**
+ * The SIDescriptionResult type represents the result of a describe operation.
+ */
+export type SIDescriptionResult = {
+    /**
+     * Status of the describe operation.
+     */
+    status: SIStatus,
+
+    /**
+     * Subject's ID, optional.
+     */
+    id?: string,
+
+    /**
+     * Description object.
+     */
+    description: any
+}
+
+/**
+ * The SIPropertiesFoundResult type represents the result of a find properties operation.
+ */
+export type SIPropertiesFoundResult = {
+    /**
+     * Status of the find operation.
+     */
+    status: SIStatus,
+
+    /**
+     * The searched ID (including wildcard character).
+     */
+    id: string,
+
+    /**
+     * The number of properties found.
+     */
+    count: number,
+
+    /**
+     * True if list contains only virtual devices, false if it contains only real devices.
+     */
+    virtual: boolean,
+
+    /**
+     * Function list mask.
+     */
+    functions: Set<SIDeviceFunctions>,
+
+    /**
+     * List of the property IDs.
+     */
+    properties: string[]
+}
+
+/**
+ * The SIPropertyWriteResult type represents the result of a property write operation.
+ */
+export type SIPropertyWriteResult = {
+    /**
+     * Status of the write operation.
+     */
+    status: SIStatus,
+
+    /**
+     * ID of the property written.
+     */
+    id: string
+}
+
+/**
+ * The SIDatalogPropertiesResult type represents the result of a datalog property list operation.
+ */
+export type SIDatalogPropertiesResult = {
+    /**
+     * Status of the operation.
+     */
+    status: SIStatus,
+
+    /**
+     * List of the IDs of the properties for whom data is available in the data log.
+     */
+    properties: string[]
+}
+
+/**
+ * The SIDataLogEntry type represents a single value of a property stored in the data log.
+ */
+export type SIDataLogEntry = {
+    /**
+     * Timestamp the value was logged.
+     */
+    timestamp: Date,
+
+    /**
+     * The logged value.
+     */
+    value: any
+}
+
+/**
+ * Controls how malformed lines in the data log returned by the gateway over WebSocket are handled.
+ */
+export enum SIMalformedDatalogLineHandling {
+    /**
+     * Malformed lines are silently skipped.
+     */
+    SKIP,
+
+    /**
+     * Malformed lines cause the whole datalog read operation to fail with a protocol error.
+     */
+    FAIL
+}
+
+/**
+ * The SIDatalogReadResult type represents the result of a datalog read operation.
+ */
+export type SIDatalogReadResult = {
+    /**
+     * Status of the operation.
+     */
+    status: SIStatus,
+
+    /**
+     * ID of the property.
+     */
+    id: string,
+
+    /**
+     * Number of entries.
+     */
+    count: number,
+
+    /**
+     * The values with their timestamps.
+     */
+    values: SIDataLogEntry[]
+}
+
+/**
+ * The SIMessagesReadResult type represents the result of a read messages operation.
+ */
+export type SIMessagesReadResult = {
+    /**
+     * Status of the operation.
+     */
+    status: SIStatus,
+
+    /**
+     * Number of messages retrieved.
+     */
+    count: number,
+
+    /**
+     * List of retrieved messages.
+     */
+    messages: SIDeviceMessage[]
+}
+
+/**
+ * The SIExtensionStatus enum represents the status of an extension command call.
+ */
+export enum SIExtensionStatus {
+    /**
+     * Extension command was successfully executed.
+     */
+    SUCCESS = 0,
+
+    /**
+     * The extension does not exist or the currently logged user does not have the right to call the extension.
+     */
+    UNSUPPORTED_EXTENSION = - 1,
+
+    /**
+     * The command does not exist or the currently logged user does not have the right to call the command.
+     */
+    UNSUPPORTED_COMMAND = - 2,
+
+    /**
+     * A header value is missing or at least one header value is invalid (WebSocket only).
+     */
+    INVALID_HEADERS = - 3,
+
+    /**
+     * A parameter is missing or at least one parameter value is invalid (Bluetooth only).
+     */
+    INVALID_PARAMETERS = - 3,
+
+    /**
+     * The body is missing, or it's value is invalid (WebSocket only).
+     */
+    INVALID_BODY = - 4,
+
+    /**
+     * General (unspecified) error.
+     */
+    ERROR = - 5
+}
+
+function extensionStatusFromString(str?: string): SIExtensionStatus {
+    switch (str) {
+        case "Success":
+            return SIExtensionStatus.SUCCESS;
+        case "UnsupportedExtension":
+            return SIExtensionStatus.UNSUPPORTED_EXTENSION;
+        case "UnsupportedCommand":
+            return SIExtensionStatus.UNSUPPORTED_COMMAND
+        case "InvalidHeaders":
+            return SIExtensionStatus.INVALID_HEADERS;
+        case "InvalidParameters":
+            return SIExtensionStatus.INVALID_PARAMETERS;
+        case "InvalidBody":
+            return SIExtensionStatus.INVALID_BODY
+        case "Error":
+            return SIExtensionStatus.ERROR;
+        default:
+            return SIExtensionStatus.ERROR;
+    }
+}
+
+/**
+ * The SIReconnectOptions type controls the automatic reconnection of a client after the connection to the gateway was lost.
+ */
+export type SIReconnectOptions = {
+    /**
+     * Delay in milliseconds before the first reconnection attempt, defaults to 1000.
+     */
+    initialDelay: number,
+
+    /**
+     * Maximal delay in milliseconds between two reconnection attempts, defaults to 30000.
+     */
+    maxDelay: number,
+
+    /**
+     * Factor the delay is multiplied with after each failed attempt, defaults to 2.
+     */
+    multiplier: number,
+
+    /**
+     * Maximal number of attempts before giving up, 0 (default) means the client tries forever.
+     */
+    maxAttempts: number
+}
+
+function reconnectOptionsWithDefaults(options: Partial<SIReconnectOptions>): SIReconnectOptions {
+    return {
+        initialDelay: options.initialDelay ?? 1000,
+        maxDelay: options.maxDelay ?? 30000,
+        multiplier: options.multiplier ?? 2,
+        maxAttempts: options.maxAttempts ?? 0
+    };
+}
+
+function reconnectDelay(options: SIReconnectOptions, attempt: number): number {
+    return Math.min(options.initialDelay * Math.pow(options.multiplier, attempt - 1), options.maxDelay);
+}
+
+/**
+ * The SIHeartbeatOptions type controls the liveness check of a connected client.
+ */
+export type SIHeartbeatOptions = {
+    /**
+     * Time in milliseconds without any frame received from the gateway after which the connection is checked, defaults to 30000.
+     */
+    interval: number,
+
+    /**
+     * Time in milliseconds the gateway has to respond to a probe before the connection is considered lost, defaults to 10000.
+     */
+    timeout: number,
+
+    /**
+     * True (default) to send a probe once the interval elapsed without traffic. If false, no probe is sent and the connection is considered lost as soon as no frame has been received for
+     * the interval, which is useful if subscribed properties are known to be updated regularly.
+     */
+    probe: boolean,
+
+    /**
+     * ID of the property read as probe in the form '{device access ID}.{device ID}.{property ID}', required if probes are enabled. Reading a property is cheap, whereas a device
+     * enumeration would cause the gateway to scan its buses on every probe.
+     */
+    probePropertyId?: string
+}
+
+function heartbeatOptionsWithDefaults(options: Partial<SIHeartbeatOptions>): SIHeartbeatOptions {
+    const probe = options.probe ?? true;
+    if (probe && options.probePropertyId === undefined) {
+        throw new SIProtocolError("heartbeat probes require a probePropertyId");
+    }
+    return {
+        interval: options.interval ?? 30000,
+        timeout: options.timeout ?? 10000,
+        probe: probe,
+        probePropertyId: options.probePropertyId
+    };
+}
+
+// Protocol versions implemented by the clients, advertised to the gateway during authorization.
+const supportedProtocolVersions: Array<number> = [1];
+
+/**
+ * The SICapabilityRule type describes the requirements for a capability of the gateway, see setCapabilityRule() of SIGatewayClient and SIBluetoothGatewayClient. All given requirements
+ * have to be met for the capability to be available.
+ */
+export type SICapabilityRule = {
+    /**
+     * Minimal protocol version negotiated with the gateway.
+     */
+    minProtocolVersion?: number,
+
+    /**
+     * Minimal version of the gateway software, for example "1.4.0".
+     */
+    minGatewayVersion?: string,
+
+    /**
+     * Extension the gateway has to provide.
+     */
+    extension?: string
+}
+
+function compareVersions(a: string, b: string): number {
+    const parse = (version: string) => version.split(/[.-]/).map(it => parseInt(it, 10)).map(it => isNaN(it) ? 0 : it);
+    const left = parse(a);
+    const right = parse(b);
+    for (let i = 0; i < Math.max(left.length, right.length); ++i) {
+        const difference = (left[i] || 0) - (right[i] || 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+
+/**
+ * The SIGatewayCapabilities class holds the protocol version negotiated with a gateway along with the capabilities of the gateway. The capabilities are derived from the protocol version,
+ * the gateway version and the extensions provided by the gateway:
+ *
+ *  - "protocol:{version}" for each protocol version up to the negotiated one.
+ *  - "extension:{name}" for each extension provided by the gateway.
+ *  - Every capability configured using setCapabilityRule() whose requirements are met.
+ *
+ * This allows applications to adopt features of newer gateways while still supporting older installations.
+ */
+export class SIGatewayCapabilities {
+    /**
+     * Protocol version negotiated with the gateway.
+     */
+    public readonly protocolVersion: number;
+
+    /**
+     * Version of the gateway software.
+     */
+    public readonly gatewayVersion: string;
+
+    /**
+     * Extensions provided by the gateway.
+     */
+    public readonly extensions: ReadonlyArray<string>;
+
+    private capabilities: Set<string> = new Set<string>();
+
+    /**
+     * Derives the capabilities of a gateway.
+     *
+     * @param protocolVersion Protocol version negotiated with the gateway.
+     * @param gatewayVersion Version of the gateway software.
+     * @param extensions Extensions provided by the gateway.
+     * @param rules Additional capabilities and their requirements.
+     */
+    public constructor(protocolVersion: number, gatewayVersion: string, extensions: Array<string>, rules: Map<string, SICapabilityRule> = new Map<string, SICapabilityRule>()) {
+        this.protocolVersion = protocolVersion;
+        this.gatewayVersion = gatewayVersion;
+        this.extensions = extensions.filter(it => it !== "");
+
+        for (let version = 1; version <= protocolVersion; ++version) {
+            this.capabilities.add(`protocol:${version}`);
+        }
+        this.extensions.forEach(it => this.capabilities.add(`extension:${it}`));
+        rules.forEach((rule, capability) => {
+            if ((rule.minProtocolVersion === undefined || protocolVersion >= rule.minProtocolVersion) &&
+                (rule.minGatewayVersion === undefined || this.isGatewayVersionAtLeast(rule.minGatewayVersion)) &&
+                (rule.extension === undefined || this.extensions.includes(rule.extension))) {
+                this.capabilities.add(capability);
+            }
+        });
+    }
+
+    /**
+     * Returns true if the gateway has the given capability.
+     *
+     * @param capability Name of the capability.
+     * @return True if the capability is available.
+     */
+    public has(capability: string): boolean {
+        return this.capabilities.has(capability);
+    }
+
+    /**
+     * Returns true if the gateway software has at least the given version. Versions are compared numerically part by part.
+     *
+     * @param version Version to compare to, for example "1.4.0".
+     * @return True if the gateway version is equal or newer.
+     */
+    public isGatewayVersionAtLeast(version: string): boolean {
+        return compareVersions(this.gatewayVersion, version) >= 0;
+    }
+
+    /**
+     * Returns all capabilities of the gateway.
+     *
+     * @return Names of the available capabilities.
+     */
+    public toArray(): Array<string> {
+        return Array.from(this.capabilities);
+    }
+}
+
+/**
+ * The SITimerProvider interface abstracts the timer functions used by the clients. By default the global setTimeout() and clearTimeout() functions are used, a custom provider can be
+ * used to control time in automated tests.
+ */
+export interface SITimerProvider {
+    /**
+     * Schedules the callback to be called once after the given delay.
+     *
+     * @param callback Function to call.
+     * @param delay Delay in milliseconds.
+     * @return Handle that can be passed to clearTimeout().
+     */
+    setTimeout(callback: () => void, delay: number): any;
+
+    /**
+     * Cancels a callback scheduled using setTimeout().
+     *
+     * @param handle Handle returned by setTimeout().
+     */
+    clearTimeout(handle: any): void;
+}
+
+const defaultTimerProvider: SITimerProvider = {
+    setTimeout: (callback: () => void, delay: number) => setTimeout(callback, delay),
+    clearTimeout: (handle: any) => clearTimeout(handle)
+};
+
+/**
+ * The SIExtensionCallResult type represents the result of an extension command call. The type of the parameters depends on the transport: SIGatewayClient resolves to
+ * SIExtensionCallResult<Map<string,string>>, SIBluetoothGatewayClient to SIExtensionCallResult<Array<any>>.
+ */
+export type SIExtensionCallResult<P extends Map<string,string> | Array<any> = Map<string,string> | Array<any>> = {
+    /**
+     * Extension that did run the command.
+     */
+    extension: string,
+
+    /**
+     * The command.
+     */
+    command: string,
+
+    /**
+     * Status of the command run.
+     */
+    status: SIExtensionStatus,
+
+    /**
+     * Key/value pairs (WebSocket) or parameter list (Bluetooth) returned by the command, see extension documentation for details.
+     */
+    parameters: P,
+
+    /**
+     * Optional body (output) returned by the command, see extension documentation for details. Always empty for Bluetooth.
+     */
+    body: string
+}
+
+type SIQueuedCommand = {
+    command: string,
+    send: () => void
+}
+
+type SIPendingRequest = {
+    response: string | number,
+    key: string | undefined,
+    resolve: (result: any) => void,
+    reject: (reason: any) => void
+}
+
+/**
+ * Names of the events a client reports to its event listeners, derived from the methods of its callbacks interface: The event "propertyUpdated" for example is reported with the same
+ * arguments as the onPropertyUpdated() callback.
+ */
+export type SIEventName<C> = {[K in keyof C]-?: K extends `on${infer E}` ? Uncapitalize<E> : never}[keyof C];
+
+/**
+ * Arguments of the event E, these are the parameters of the corresponding callback method of the callbacks interface C.
+ */
+export type SIEventArgs<C, E extends SIEventName<C>> = NonNullable<C[`on${Capitalize<E>}` & keyof C]> extends (...args: infer A) => any ? A : never;
+
+/**
+ * Listener for the event E, called with the same arguments as the corresponding callback method of the callbacks interface C.
+ */
+export type SIEventListener<C, E extends SIEventName<C>> = (...args: SIEventArgs<C, E>) => void;
+
+class SIEventListeners {
+    private listeners: Map<string, Array<(...args: any) => void>> = new Map<string, Array<(...args: any) => void>>();
+
+    public add(event: string, listener: (...args: any) => void) {
+        this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+    }
+
+    public remove(event: string, listener: (...args: any) => void) {
+        const listeners = this.listeners.get(event) || [];
+        const index = listeners.indexOf(listener);
+        if (index >= 0) {
+            this.listeners.set(event, [...listeners.slice(0, index), ...listeners.slice(index + 1)]);
+        }
+    }
+
+    public emit(callbacks: any, event: string, args: any[]) {
+        // The callbacks object set using setCallback() is called first, followed by the listeners in the order they were added.
+        const callback = callbacks?.["on" + event.charAt(0).toUpperCase() + event.substring(1)];
+        if (typeof callback === "function") {
+            callback.apply(callbacks, args);
+        }
+        (this.listeners.get(event) || []).forEach(listener => listener(...args));
+    }
+}
+
+/**
+ * The SIPropertyUpdate type represents a value change of a subscribed property reported by the gateway.
+ */
+export type SIPropertyUpdate = {
+    /**
+     * The ID of the property that has changed in the form '{device access ID}.{device ID}.{property ID}'.
+     */
+    id: string,
+
+    /**
+     * The current value of the property.
+     */
+    value: any
+}
+
+/**
+ * Options for the async iterators returned by watchProperty() and deviceMessages().
+ */
+export type SIStreamOptions = {
+    /**
+     * Maximal number of items buffered while the consumer is busy, if the buffer is full the oldest item is dropped. Defaults to 100.
+     */
+    bufferSize: number
+}
+
+class SIAsyncQueue<T> implements AsyncIterableIterator<T> {
+    private buffer: Array<T> = [];
+    private waiting: Array<{resolve: (result: IteratorResult<T>) => void, reject: (reason: any) => void}> = [];
+    private ended: boolean = false;
+    private error: any = undefined;
+    private readonly bufferSize: number;
+    private readonly cleanup: () => void;
+
+    public constructor(bufferSize: number, cleanup: () => void) {
+        this.bufferSize = Math.max(1, bufferSize);
+        this.cleanup = cleanup;
+    }
+
+    public push(item: T) {
+        if (this.ended) return;
+        const waiting = this.waiting.shift();
+        if (waiting) {
+            waiting.resolve({value: item, done: false});
+            return;
+        }
+        this.buffer.push(item);
+        if (this.buffer.length > this.bufferSize) {
+            this.buffer.shift();
+        }
+    }
+
+    public end(error?: any) {
+        if (this.ended) return;
+        this.ended = true;
+        this.error = error;
+        this.cleanup();
+
+        // A consumer waiting for the next item gets the error, otherwise the error is reported by the next call to next().
+        const waiting = this.waiting.splice(0);
+        if (waiting.length > 0) {
+            this.error = undefined;
+            waiting.forEach(it => error !== undefined ? it.reject(error) : it.resolve({value: undefined, done: true}));
+        }
+    }
+
+    public next(): Promise<IteratorResult<T>> {
+        if (this.buffer.length > 0) {
+            return Promise.resolve({value: this.buffer.shift()!, done: false});
+        }
+        if (this.ended) {
+            // Report an error only once, afterwards the iterator is done.
+            const error = this.error;
+            this.error = undefined;
+            return error !== undefined ? Promise.reject(error) : Promise.resolve({value: undefined, done: true});
+        }
+        return new Promise<IteratorResult<T>>((resolve, reject) => this.waiting.push({resolve: resolve, reject: reject}));
+    }
+
+    public return(): Promise<IteratorResult<T>> {
+        this.buffer = [];
+        this.end();
+        return Promise.resolve({value: undefined, done: true});
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+        return this;
+    }
+}
+
+/**
+ * The SIDatalogReadProgress type reports the progress of a paginated datalog read, see readDatalogPaged().
+ */
+export type SIDatalogReadProgress = {
+    /**
+     * Number of pages read so far.
+     */
+    pages: number,
+
+    /**
+     * Number of entries read so far, duplicates at page boundaries are not counted.
+     */
+    count: number,
+
+    /**
+     * Timestamp of the most recent entry read so far, undefined if no entry has been read yet.
+     */
+    timestamp?: Date,
+
+    /**
+     * Estimated fraction of the time range read so far between 0 and 1, based on the timestamp of the most recent entry.
+     */
+    fraction: number
+}
+
+/**
+ * Options for the paginated datalog reads using readDatalogPaged().
+ */
+export type SIDatalogPagingOptions = {
+    /**
+     * Maximal number of entries requested at once, defaults to 1000. Only if more entries share the same timestamp, more entries are requested in order to get past that timestamp.
+     */
+    pageSize: number,
+
+    /**
+     * Optional function called after each page with the progress of the read.
+     */
+    onProgress?: (progress: SIDatalogReadProgress) => void,
+
+    /**
+     * Optional signal cancelling the read, once aborted no further page is requested and the iteration ends.
+     */
+    signal?: AbortSignal
+}
+
+class SIDatalogPager implements AsyncIterableIterator<SIDataLogEntry> {
+    private buffer: Array<SIDataLogEntry> = [];
+    private from: Date | undefined;
+    private readonly to: Date | undefined;
+    private start: number | undefined;
+    private boundaryTimestamp: number | undefined = undefined;
+    private boundaryCount: number = 0;
+    private pages: number = 0;
+    private count: number = 0;
+    private exhausted: boolean = false;
+    private closed: boolean = false;
+    private pending: Promise<IteratorResult<SIDataLogEntry>> = Promise.resolve({value: undefined, done: true});
+    private readonly pageSize: number;
+    private limit: number;
+    private readonly onProgress: ((progress: SIDatalogReadProgress) => void) | undefined;
+    private readonly signal: AbortSignal | undefined;
+    private readonly read: (dateFrom: Date | undefined, dateTo: Date | undefined, limit: number) => Promise<SIDatalogReadResult>;
+
+    public constructor(read: (dateFrom: Date | undefined, dateTo: Date | undefined, limit: number) => Promise<SIDatalogReadResult>, dateFrom: Date | undefined,
+                       dateTo: Date | undefined, options: Partial<SIDatalogPagingOptions>) {
+        this.read = read;
+        this.from = dateFrom;
+        this.to = dateTo;
+        this.start = dateFrom?.getTime();
+        this.pageSize = Math.max(1, options.pageSize ?? 1000);
+        this.limit = this.pageSize;
+        this.onProgress = options.onProgress;
+        this.signal = options.signal;
+        this.signal?.addEventListener("abort", this.close);
+    }
+
+    public next(): Promise<IteratorResult<SIDataLogEntry>> {
+        // Calls are serialized, so a page is never requested twice.
+        this.pending = this.pending.then(() => this.nextEntry(), () => this.nextEntry());
+        return this.pending;
+    }
+
+    public return(): Promise<IteratorResult<SIDataLogEntry>> {
+        this.close();
+        return Promise.resolve({value: undefined, done: true});
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterableIterator<SIDataLogEntry> {
+        return this;
+    }
+
+    private nextEntry(): Promise<IteratorResult<SIDataLogEntry>> {
+        if (this.closed || this.signal?.aborted) {
+            this.close();
+            return Promise.resolve({value: undefined, done: true});
+        }
+        if (this.buffer.length > 0) {
+            return Promise.resolve({value: this.buffer.shift()!, done: false});
+        }
+        if (this.exhausted) {
+            this.close();
+            return Promise.resolve({value: undefined, done: true});
+        }
+        return this.readPage().then(() => this.nextEntry());
+    }
+
+    private readPage(): Promise<void> {
+        return this.read(this.from, this.to, this.limit).then(result => {
+            if (this.closed) return;
+            if (result.status !== SIStatus.SUCCESS) {
+                throw new SIProtocolError(`datalog read failed, status=${result.status}`, {command: "READ DATALOG"});
+            }
+
+            // The next page starts at the timestamp of the last entry, so the entries already read at that timestamp are received again at the start of the page. Entries
+            // sharing a timestamp can not be told apart (they may even have the same value), so as many entries are skipped as have been read at that timestamp before.
+            let skip = 0;
+            while (skip < this.boundaryCount && skip < result.values.length && result.values[skip].timestamp.getTime() === this.boundaryTimestamp) {
+                skip += 1;
+            }
+            const entries = result.values.slice(skip);
+            if (result.values.length > 0) {
+                // As every page starts at the previous boundary, a page holds all entries read so far at its last timestamp, unless it is too short to hold them all.
+                const last = result.values[result.values.length - 1].timestamp.getTime();
+                const count = result.values.filter(entry => entry.timestamp.getTime() === last).length;
+                this.boundaryCount = last === this.boundaryTimestamp ? Math.max(this.boundaryCount, count) : count;
+                this.boundaryTimestamp = last;
+            }
+            if (this.start === undefined && entries.length > 0) {
+                this.start = entries[0].timestamp.getTime();
+            }
+
+            this.pages += 1;
+            this.count += entries.length;
+            this.buffer.push(...entries);
+            if (result.values.length < this.limit || this.boundaryTimestamp === undefined) {
+                this.exhausted = true;
+                this.signal?.removeEventListener("abort", this.close);
+            } else if (entries.length === 0) {
+                // A full page without any new entry consists of entries sharing a single timestamp only, read more at once in order to get past that timestamp.
+                this.limit *= 2;
+            } else {
+                this.from = new Date(this.boundaryTimestamp);
+                this.limit = this.pageSize;
+            }
+            this.onProgress?.(this.progress());
+        }).catch(error => {
+            this.close();
+            throw error;
+        });
+    }
+
+    private progress(): SIDatalogReadProgress {
+        let fraction = 0;
+        if (this.exhausted) {
+            fraction = 1;
+        } else if (this.start !== undefined && this.boundaryTimestamp !== undefined) {
+            const end = this.to?.getTime() ?? Date.now();
+            fraction = end > this.start ? Math.min(Math.max((this.boundaryTimestamp - this.start) / (end - this.start), 0), 1) : 1;
+        }
+        return {
+            pages: this.pages,
+            count: this.count,
+            timestamp: this.boundaryTimestamp !== undefined ? new Date(this.boundaryTimestamp) : undefined,
+            fraction: fraction
+        };
+    }
+
+    private close = () => {
+        this.closed = true;
+        this.buffer = [];
+        this.signal?.removeEventListener("abort", this.close);
+    }
+}
+
+/**
+ * Handle to a shared property subscription, see acquireSubscription() of the clients. The property stays subscribed as long as at least one handle has not been released.
+ */
+export interface SISubscriptionHandle {
+    /**
+     * The ID of the subscribed property in the form '{device access ID}.{device ID}.{property ID}'.
+     */
+    readonly propertyId: string;
+
+    /**
+     * Result of the subscription, shared by all holders of a handle to the same property. Rejected if the gateway responds with an error.
+     */
+    readonly result: Promise<SISubscriptionsResult>;
+
+    /**
+     * Releases the handle, the property is unsubscribed once the last handle to the property has been released. Calling release() more than once has no effect.
+     */
+    release(): void;
+}
+
+type SISharedSubscription = {
+    count: number,
+    result: Promise<SISubscriptionsResult>
+}
+
+class SISubscriptionRegistry {
+    private subscriptions: Map<string, SISharedSubscription> = new Map<string, SISharedSubscription>();
+    private readonly subscribe: (propertyIds: string[]) => Promise<SISubscriptionsResult[]>;
+    private readonly unsubscribe: (propertyId: string) => void;
+
+    public constructor(subscribe: (propertyIds: string[]) => Promise<SISubscriptionsResult[]>, unsubscribe: (propertyId: string) => void) {
+        this.subscribe = subscribe;
+        this.unsubscribe = unsubscribe;
+    }
+
+    public acquire(propertyIds: string[]): SISubscriptionHandle[] {
+        // Only properties not subscribed yet are sent to the gateway, all of them using a single request if possible.
+        const missing = propertyIds.filter((id, index) => !this.subscriptions.has(id) && propertyIds.indexOf(id) === index);
+        if (missing.length > 0) {
+            const results = this.subscribe(missing);
+            missing.forEach((id, index) => {
+                const subscription: SISharedSubscription = {
+                    count: 0,
+                    result: results.then(it => it.find(result => result.id === id) ?? it[index])
+                };
+                // Forget failed subscriptions, so that the next acquire() tries again.
+                subscription.result.then(result => {
+                    if (result.status !== SIStatus.SUCCESS) this.forget(id, subscription);
+                }, () => this.forget(id, subscription));
+                this.subscriptions.set(id, subscription);
+            });
+        }
+
+        return propertyIds.map(id => {
+            const subscription = this.subscriptions.get(id)!;
+            subscription.count += 1;
+            let released = false;
+            return {
+                propertyId: id,
+                result: subscription.result,
+                release: () => {
+                    if (released) return;
+                    released = true;
+                    this.release(id, subscription);
+                }
+            };
+        });
+    }
+
+    public clear() {
+        this.subscriptions.clear();
+    }
+
+    private release(propertyId: string, subscription: SISharedSubscription) {
+        if (this.subscriptions.get(propertyId) !== subscription) return;
+        subscription.count -= 1;
+        if (subscription.count > 0) return;
+
+        // Wait for the subscription to complete, the property might have been acquired again in the meantime.
+        subscription.result.then(result => {
+            if (subscription.count === 0 && this.forget(propertyId, subscription) && result.status === SIStatus.SUCCESS) {
+                this.unsubscribe(propertyId);
+            }
+        }, () => {});
+    }
+
+    private forget(propertyId: string, subscription: SISharedSubscription): boolean {
+        if (this.subscriptions.get(propertyId) !== subscription) return false;
+        this.subscriptions.delete(propertyId);
+        return true;
+    }
+}
+
+/**
+ * Operations of the gateway clients for which an individual request timeout can be configured using setRequestTimeout().
+ */
+export enum SIOperation {
+    /**
+     * Device enumeration using enumerate().
+     */
+    ENUMERATE,
+
+    /**
+     * Description requests using describe().
+     */
+    DESCRIBE,
+
+    /**
+     * Property searches using findProperties().
+     */
+    FIND_PROPERTIES,
+
+    /**
+     * Property reads using readProperty() or readProperties().
+     */
+    READ_PROPERTY,
+
+    /**
+     * Property writes using writeProperty().
+     */
+    WRITE_PROPERTY,
+
+    /**
+     * Property subscriptions using subscribeToProperty() or subscribeToProperties().
+     */
+    SUBSCRIBE_PROPERTY,
+
+    /**
+     * Property unsubscriptions using unsubscribeFromProperty() or unsubscribeFromProperties().
+     */
+    UNSUBSCRIBE_PROPERTY,
+
+    /**
+     * Data log reads using readDatalogProperties() or readDatalog().
+     */
+    READ_DATALOG,
+
+    /**
+     * Message reads using readMessages().
+     */
+    READ_MESSAGES,
+
+    /**
+     * Extension command calls using callExtension().
+     */
+    CALL_EXTENSION
+}
+
+type SITrackedRequest<F> = {
+    response: string | number,
+    key: string | undefined,
+    timeoutFrame?: () => F,
+    timer: any,
+    state: "pending" | "timeout" | "expired",
+    origin: SIRequestOrigin
+}
+
+/**
+ * Requests are sent by the application, or by the client itself to probe the connection or to restore the subscriptions after reconnect.
+ */
+type SIRequestOrigin = "application" | "probe" | "restore";
+
+class SIRequestTracker<F> {
+    private requests: Array<SITrackedRequest<F>> = [];
+    private timeouts: Map<SIOperation, number> = new Map<SIOperation, number>();
+    private defaultTimeout: number = 0;
+    private readonly timers: () => SITimerProvider;
+    private readonly timedOut: (frame: F) => void;
+
+    public constructor(timers: () => SITimerProvider, timedOut: (frame: F) => void) {
+        this.timers = timers;
+        this.timedOut = timedOut;
+    }
+
+    public setTimeout(timeout: number, operation?: SIOperation) {
+        if (operation === undefined) {
+            this.defaultTimeout = timeout;
+        } else {
+            this.timeouts.set(operation, timeout);
+        }
+    }
+
+    public track(operation: SIOperation, response: string | number, key: string | undefined, timeoutFrame: () => F) {
+        // Requests are tracked even without timeout, as ERROR frames are attributed to the oldest request sent.
+        const timeout = this.timeouts.get(operation) ?? this.defaultTimeout;
+        const request: SITrackedRequest<F> = {response: response, key: key, timeoutFrame: timeoutFrame, timer: undefined, state: "pending", origin: "application"};
+        if (timeout > 0) {
+            request.timer = this.timers().setTimeout(() => this.expire(request, timeout), timeout);
+        }
+        this.requests.push(request);
+    }
+
+    public trackInternal(origin: "probe" | "restore", response: string | number, key: string | undefined) {
+        // The heartbeat probes have a timeout of their own and the subscriptions restored after reconnect are not reported to the application, so both are tracked without timeout.
+        this.requests.push({response: response, key: key, timer: undefined, state: "pending", origin: origin});
+    }
+
+    public complete(response: string | number, key: string | undefined): boolean {
+        const request = this.match(response, key);
+        return request === undefined || this.settle(request);
+    }
+
+    public completeInternal(origin: "probe" | "restore", response: string | number, key: string | undefined): boolean {
+        const request = this.match(response, key);
+        return request !== undefined && request.origin === origin && this.settle(request);
+    }
+
+    public oldest(): {response: string | number, key: string | undefined, origin: SIRequestOrigin} | undefined {
+        const request = this.matchOldest();
+        return request !== undefined ? {response: request.response, key: request.key, origin: request.origin} : undefined;
+    }
+
+    public completeOldest(): boolean {
+        // ERROR frames do not reference the request, so they are attributed to the oldest request.
+        const request = this.matchOldest();
+        return request === undefined || this.settle(request);
+    }
+
+    public completeOldestInternal(origin: "probe" | "restore"): boolean {
+        const request = this.matchOldest();
+        return request !== undefined && request.origin === origin && this.settle(request);
+    }
+
+    public clear() {
+        this.requests.forEach(it => this.timers().clearTimeout(it.timer));
+        this.requests = [];
+    }
+
+    private match(response: string | number, key: string | undefined): SITrackedRequest<F> | undefined {
+        // Responses with the same type and key are returned in order, so the oldest request with the same type and key is completed. The frame reported in place of the
+        // response of a request that timed out is always attributed to that request. Pending requests are completed before expired ones, as a late response can not be told
+        // apart from the response to a retry: A late response completes the retry with slightly older data and the response to the retry is dropped instead, whereas the
+        // retry would never complete if a response that got lost was waited for.
+        const matching = this.requests.filter(it => it.response === response && it.key === key);
+        return matching.find(it => it.state === "timeout") ?? matching.find(it => it.state === "pending") ?? matching[0];
+    }
+
+    private matchOldest(): SITrackedRequest<F> | undefined {
+        // Same order as match(), an ERROR frame is only taken as late response to an expired request if no request is waiting for a response.
+        return this.requests.find(it => it.state === "timeout") ?? this.requests.find(it => it.state === "pending") ?? this.requests[0];
+    }
+
+    private settle(request: SITrackedRequest<F>): boolean {
+        switch (request.state) {
+            case "pending":
+                this.timers().clearTimeout(request.timer);
+                this.remove(request);
+                return true;
+
+            case "timeout":
+                // The frame reported in place of the missing response.
+                request.state = "expired";
+                return true;
+
+            case "expired":
+                // The response did arrive after the timeout and has been reported already.
+                this.timers().clearTimeout(request.timer);
+                this.remove(request);
+                return false;
+        }
+    }
+
+    private expire(request: SITrackedRequest<F>, timeout: number) {
+        request.state = "timeout";
+        if (request.timeoutFrame !== undefined) {
+            this.timedOut(request.timeoutFrame());
+        }
+
+        // Keep the request for a while, so that a late response is dropped instead of being taken as response to a newer request. The request is forgotten eventually, as
+        // a response that never arrives would otherwise cause the responses to all following requests with the same key to be dropped.
+        if (this.requests.includes(request)) {
+            request.state = "expired";
+            request.timer = this.timers().setTimeout(() => this.remove(request), 10 * timeout);
+        }
+    }
+
+    private remove(request: SITrackedRequest<F>) {
+        const index = this.requests.indexOf(request);
+        if (index >= 0) {
+            this.requests.splice(index, 1);
+        }
+    }
+}
+
+class SIHeartbeat {
+    private options: SIHeartbeatOptions | undefined = undefined;
+    private running: boolean = false;
+    private timer: any = undefined;
+    private pendingProbes: number = 0;
+    private readonly timers: () => SITimerProvider;
+    private readonly sendProbe: (propertyId: string) => void;
+    private readonly failed: () => void;
+
+    public constructor(timers: () => SITimerProvider, sendProbe: (propertyId: string) => void, failed: () => void) {
+        this.timers = timers;
+        this.sendProbe = sendProbe;
+        this.failed = failed;
+    }
+
+    public getOptions(): SIHeartbeatOptions | undefined {
+        return this.options;
+    }
+
+    public setOptions(options: SIHeartbeatOptions | undefined) {
+        this.options = options;
+        if (this.running) {
+            this.schedule();
+        }
+    }
+
+    public start() {
+        this.running = true;
+        this.pendingProbes = 0;
+        this.schedule();
+    }
+
+    public stop() {
+        this.running = false;
+        this.pendingProbes = 0;
+        this.timers().clearTimeout(this.timer);
+    }
+
+    public received(isProbeResponse: () => boolean): boolean {
+        // Any frame proves that the connection is alive.
+        if (!this.running) return false;
+        this.schedule();
+        if (this.pendingProbes > 0 && isProbeResponse()) {
+            this.pendingProbes -= 1;
+            return true;
+        }
+        return false;
+    }
+
+    private schedule() {
+        this.timers().clearTimeout(this.timer);
+        if (this.options !== undefined) {
+            this.timer = this.timers().setTimeout(this.onIdle, this.options.interval);
+        }
+    }
+
+    private onIdle = () => {
+        if (this.options === undefined || !this.options.probe) {
+            this.fail();
+            return;
+        }
+        this.pendingProbes += 1;
+        this.sendProbe(this.options.probePropertyId!);
+        this.timer = this.timers().setTimeout(this.fail, this.options.timeout);
+    }
+
+    private fail = () => {
+        this.stop();
+        this.failed();
+    }
+}
+
+/**
+ * Severity of a message reported to a SILogger.
+ */
+export enum SILogLevel {
+    /**
+     * Detailed information for debugging, including the frames exchanged with the gateway.
+     */
+    DEBUG,
+
+    /**
+     * Informational messages.
+     */
+    INFO,
+
+    /**
+     * Unexpected situations the client recovered from.
+     */
+    WARNING,
+
+    /**
+     * Errors.
+     */
+    ERROR
+}
+
+/**
+ * Category of a message reported to a SILogger.
+ */
+export enum SILogCategory {
+    /**
+     * Connection management: connecting, authorization, disconnects and reconnects.
+     */
+    CONNECTION,
+
+    /**
+     * Frames sent to the gateway.
+     */
+    TX,
+
+    /**
+     * Frames received from the gateway.
+     */
+    RX,
+
+    /**
+     * Protocol errors and invalid use of the client.
+     */
+    PROTOCOL
+}
+
+/**
+ * The SILogger interface is implemented by objects receiving the log messages of a client, see setLogger() of SIGatewayClient and SIBluetoothGatewayClient.
+ */
+export interface SILogger {
+    /**
+     * Called for every message passing the level and category filter of the client.
+     *
+     * @param level Severity of the message.
+     * @param category Category of the message.
+     * @param message The message.
+     */
+    log(level: SILogLevel, category: SILogCategory, message: string): void;
+}
+
+/**
+ * Logger writing the messages to the console, used by setDebugEnabled().
+ */
+export class SIConsoleLogger implements SILogger {
+    public log(level: SILogLevel, _: SILogCategory, message: string) {
+        switch (level) {
+            case SILogLevel.DEBUG:
+                console.debug(message);
+                break;
+
+            case SILogLevel.INFO:
+                console.info(message);
+                break;
+
+            case SILogLevel.WARNING:
+                console.warn(message);
+                break;
+
+            default:
+                console.error(message);
+                break;
+        }
+    }
+}
+
+/**
+ * The SILoggerOptions type controls which messages a client reports to its logger.
+ */
+export type SILoggerOptions = {
+    /**
+     * Minimal severity of the reported messages, defaults to SILogLevel.DEBUG.
+     */
+    level: SILogLevel,
+
+    /**
+     * Categories of the reported messages, defaults to all categories.
+     */
+    categories: Array<SILogCategory>,
+
+    /**
+     * True (default) to replace passwords in the logged connect parameters and AUTHORIZE frames by "***", so the logs can be shared safely.
+     */
+    redactCredentials: boolean
+}
+
+function loggerOptionsWithDefaults(options: Partial<SILoggerOptions>): SILoggerOptions {
+    return {
+        level: options.level ?? SILogLevel.DEBUG,
+        categories: options.categories ?? [SILogCategory.CONNECTION, SILogCategory.TX, SILogCategory.RX, SILogCategory.PROTOCOL],
+        redactCredentials: options.redactCredentials ?? true
+    };
+}
+
+class SILog {
+    private logger: SILogger | undefined = undefined;
+    private options: SILoggerOptions = loggerOptionsWithDefaults({});
+
+    public setLogger(logger: SILogger | undefined, options: Partial<SILoggerOptions>) {
+        this.logger = logger;
+        this.options = loggerOptionsWithDefaults(options);
+    }
+
+    public setDebugEnabled(enabled: boolean) {
+        if (enabled) {
+            if (this.logger instanceof SIConsoleLogger) return;
+            this.setLogger(new SIConsoleLogger(), {});
+            this.info(SILogCategory.CONNECTION, "Debug enabled.");
+        } else if (this.logger !== undefined) {
+            this.info(SILogCategory.CONNECTION, "Debug disabled.");
+            this.setLogger(undefined, {});
+        }
+    }
+
+    public isEnabled(level: SILogLevel, category: SILogCategory): boolean {
+        return this.logger !== undefined && level >= this.options.level && this.options.categories.includes(category);
+    }
+
+    public debug(category: SILogCategory, message: string | (() => string)) {
+        this.log(SILogLevel.DEBUG, category, message);
+    }
+
+    public info(category: SILogCategory, message: string | (() => string)) {
+        this.log(SILogLevel.INFO, category, message);
+    }
+
+    public warning(category: SILogCategory, message: string | (() => string)) {
+        this.log(SILogLevel.WARNING, category, message);
+    }
+
+    public error(category: SILogCategory, message: string | (() => string)) {
+        this.log(SILogLevel.ERROR, category, message);
+    }
+
+    // Passwords are only logged if redaction has been explicitly disabled.
+    public secret(value?: string): string {
+        if (value === undefined || value === "") {
+            return "(none)";
+        }
+        return this.options.redactCredentials ? "***" : value;
+    }
+
+    public redact<T>(frame: T, redact: (frame: T) => T): T {
+        return this.options.redactCredentials ? redact(frame) : frame;
+    }
+
+    private log(level: SILogLevel, category: SILogCategory, message: string | (() => string)) {
+        if (this.isEnabled(level, category)) {
+            this.logger!.log(level, category, typeof message === "function" ? message() : message);
+        }
+    }
+}
+
+/**
+ * The SITrafficRecord type represents a single frame exchanged between a client and the gateway, as captured by a SITrafficRecorder.
+ */
+export type SITrafficRecord = {
+    /**
+     * Time the frame was sent or received in milliseconds since the epoch.
+     */
+    timestamp: number,
+
+    /**
+     * Transport the frame was exchanged over.
+     */
+    transport: "websocket" | "bluetooth",
+
+    /**
+     * Direction of the frame, "tx" for frames sent by the client, "rx" for frames received from the gateway.
+     */
+    direction: "tx" | "rx",
+
+    /**
+     * The frame, text frames of the WebSocket protocol are stored as is, binary frames of the Bluetooth protocol are stored as hexadecimal string.
+     */
+    data: string
+}
+
+/**
+ * The SITrafficRecorder interface is implemented by objects capturing the traffic of a client, see setTrafficRecorder() of SIGatewayClient and SIBluetoothGatewayClient.
+ */
+export interface SITrafficRecorder {
+    /**
+     * Called for every frame sent or received by the client.
+     *
+     * @param record The frame along with its timestamp, transport and direction.
+     */
+    record(record: SITrafficRecord): void;
+}
+
+/**
+ * Traffic recorder writing the captured frames in the JSON Lines format, one JSON encoded SITrafficRecord per line. The recording can be replayed using the SITrafficReplay of the
+ * openstuder-mock module in order to reproduce a session without access to the installation.
+ *
+ * If no sink is given, the lines are kept in memory and can be retrieved using getRecording().
+ */
+export class SIJsonlTrafficRecorder implements SITrafficRecorder {
+    private lines: Array<string> = [];
+    private readonly sink: ((line: string) => void) | undefined;
+
+    /**
+     * Creates a new recorder.
+     *
+     * @param sink Optional function called with every line (without line terminator), for example to append the lines to a file.
+     */
+    public constructor(sink?: (line: string) => void) {
+        this.sink = sink;
+    }
+
+    public record(record: SITrafficRecord) {
+        const line = JSON.stringify(record);
+        if (this.sink !== undefined) {
+            this.sink(line);
+        } else {
+            this.lines.push(line);
+        }
+    }
+
+    /**
+     * Returns the lines recorded so far if the recorder has no sink.
+     *
+     * @return Recording in the JSON Lines format.
+     */
+    public getRecording(): string {
+        return this.lines.map(line => line + "\n").join("");
+    }
+
+    /**
+     * Discards the lines recorded so far.
+     */
+    public clear() {
+        this.lines = [];
+    }
+
+    /**
+     * Parses a recording in the JSON Lines format, empty lines are ignored.
+     *
+     * @param recording Recording as written by a SIJsonlTrafficRecorder.
+     * @return The records of the recording in order.
+     */
+    public static parse(recording: string): Array<SITrafficRecord> {
+        let records: Array<SITrafficRecord> = [];
+        recording.split("\n").forEach((line, index) => {
+            if (line.trim().length === 0) return;
+            let record: any;
+            try {
+                record = JSON.parse(line);
+            } catch (error) {
+                record = undefined;
+            }
+            if (typeof record?.timestamp !== "number" || (record.transport !== "websocket" && record.transport !== "bluetooth") ||
+                (record.direction !== "tx" && record.direction !== "rx") || typeof record.data !== "string") {
+                throw new SIProtocolError(`invalid traffic record on line ${index + 1}`);
+            }
+            records.push(record);
+        });
+        return records;
+    }
+}
+
+/**
+ * Source of the value of a property stored in the SIPropertyStore.
+ */
+export enum SIPropertySource {
+    /**
+     * The value was received as result of a property read.
+     */
+    READ,
+
+    /**
+     * The value was received as update of a subscribed property.
+     */
+    UPDATE
+}
+
+/**
+ * The SIPropertyState type represents the last known state of a property kept by the SIPropertyStore.
+ */
+export type SIPropertyState = {
+    /**
+     * The ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     */
+    id: string,
+
+    /**
+     * Last known value of the property.
+     */
+    value: any,
+
+    /**
+     * Status of the last read operation, SIStatus.SUCCESS for property updates.
+     */
+    status: SIStatus,
+
+    /**
+     * How the value was received.
+     */
+    source: SIPropertySource,
+
+    /**
+     * Time the value was received by the client.
+     */
+    timestamp: Date,
+
+    /**
+     * True if the value is older than the maximal age configured or the connection was lost since the value was received.
+     */
+    stale: boolean
+}
+
+/**
+ * Listener called by the SIPropertyStore whenever the state of a property changes. The state is undefined if the property has been removed from the store using clear().
+ */
+export type SIPropertyStoreListener = (state: SIPropertyState | undefined, previous: SIPropertyState | undefined) => void;
+
+/**
+ * The SIPropertyStore keeps the last known value of every property read or updated by a client. Use getPropertyStore() of the client to access its store.
+ */
+export interface SIPropertyStore {
+    /**
+     * Sets the age after which a value is considered stale. Values are marked stale using the timer provider of the client and the listeners are called for each value that got stale.
+     *
+     * @param maxAge Maximal age in milliseconds, undefined to only mark values stale when the connection is lost.
+     */
+    setMaxAge(maxAge: number | undefined): void;
+
+    /**
+     * Returns the last known state of the given property.
+     *
+     * @param propertyId The ID of the property in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return State of the property or undefined if the property was never read or updated.
+     */
+    get(propertyId: string): SIPropertyState | undefined;
+
+    /**
+     * Returns the last known state of all properties.
+     *
+     * @return Map of property IDs to the state of the respective property.
+     */
+    snapshot(): Map<string, SIPropertyState>;
+
+    /**
+     * Adds a listener called whenever the state of a property changes.
+     *
+     * @param listener Listener to add.
+     */
+    addChangeListener(listener: SIPropertyStoreListener): void;
+
+    /**
+     * Removes a listener added before using addChangeListener().
+     *
+     * @param listener Listener to remove.
+     */
+    removeChangeListener(listener: SIPropertyStoreListener): void;
+
+    /**
+     * Removes all properties from the store, the listeners are called for every property removed.
+     */
+    clear(): void;
+}
+
+// Only the clients update the store, so the methods to do so are not part of the SIPropertyStore interface.
+class SIClientPropertyStore implements SIPropertyStore {
+    private states: Map<string, SIPropertyState> = new Map<string, SIPropertyState>();
+    private expiries: Map<string, any> = new Map<string, any>();
+    private listeners: Array<SIPropertyStoreListener> = [];
+    private maxAge: number | undefined = undefined;
+    private readonly timers: () => SITimerProvider;
+
+    public constructor(timers: () => SITimerProvider) {
+        this.timers = timers;
+    }
+
+    public setMaxAge(maxAge: number | undefined) {
+        this.maxAge = maxAge;
+        this.states.forEach(state => this.scheduleExpiry(state));
+    }
+
+    public get(propertyId: string): SIPropertyState | undefined {
+        const state = this.states.get(propertyId);
+        return state !== undefined ? {...state} : undefined;
+    }
+
+    public snapshot(): Map<string, SIPropertyState> {
+        let snapshot = new Map<string, SIPropertyState>();
+        this.states.forEach((state, id) => snapshot.set(id, {...state}));
+        return snapshot;
+    }
+
+    public addChangeListener(listener: SIPropertyStoreListener) {
+        this.listeners = [...this.listeners, listener];
+    }
+
+    public removeChangeListener(listener: SIPropertyStoreListener) {
+        this.listeners = this.listeners.filter(it => it !== listener);
+    }
+
+    public clear() {
+        const removed = Array.from(this.states.values());
+        this.expiries.forEach(expiry => this.timers().clearTimeout(expiry));
+        this.expiries.clear();
+        this.states.clear();
+        removed.forEach(state => this.notify(undefined, state));
+    }
+
+    public record(propertyId: string, status: SIStatus, value: any, source: SIPropertySource) {
+        const previous = this.states.get(propertyId);
+        if (status !== SIStatus.SUCCESS) {
+            // Keep the last known value if a read fails, but it can not be considered up to date anymore.
+            this.update({id: propertyId, value: previous?.value, status: status, source: source, timestamp: previous?.timestamp ?? new Date(), stale: true}, previous);
+        } else {
+            this.update({id: propertyId, value: value, status: status, source: source, timestamp: new Date(), stale: false}, previous);
+        }
+    }
+
+    public markAllStale() {
+        this.states.forEach(state => {
+            if (!state.stale) {
+                this.update({...state, stale: true}, state);
+            }
+        });
+    }
+
+    private update(state: SIPropertyState, previous: SIPropertyState | undefined) {
+        this.states.set(state.id, state);
+        this.scheduleExpiry(state);
+        this.notify(state, previous);
+    }
+
+    private scheduleExpiry(state: SIPropertyState) {
+        this.timers().clearTimeout(this.expiries.get(state.id));
+        this.expiries.delete(state.id);
+        if (this.maxAge === undefined || state.stale) return;
+
+        // Mark the value stale once it reaches the maximal age, unless it has been replaced in the meantime.
+        const delay = Math.max(0, this.maxAge - (Date.now() - state.timestamp.getTime()));
+        this.expiries.set(state.id, this.timers().setTimeout(() => {
+            this.expiries.delete(state.id);
+            if (this.states.get(state.id) === state) {
+                this.update({...state, stale: true}, state);
+            }
+        }, delay));
+    }
+
+    private notify(state: SIPropertyState | undefined, previous: SIPropertyState | undefined) {
+        this.listeners.forEach(listener => listener(state !== undefined ? {...state} : undefined, previous !== undefined ? {...previous} : undefined));
+    }
+}
+
+/**
+ * @interface SIGenericGatewayClientCallbacks
+ * Events reported by both the WebSocket (SIGatewayClient) and the Bluetooth (SIBluetoothGatewayClient) client, listeners are added using the on() method of SIGenericGatewayClient. The
+ * events are reported with the same arguments as the corresponding methods of SIGatewayClientCallbacks and SIBluetoothGatewayClientCallbacks.
+ */
+export interface SIGenericGatewayClientCallbacks {
+    /**
+     * The connection to the gateway has been established and the user has been authorized.
+     *
+     * @param accessLevel Access level that was granted to the user during authorization.
+     * @param gatewayVersion Version of the OpenStuder software running on the gateway.
+     */
+    onConnected(accessLevel: SIAccessLevel, gatewayVersion: string): void;
+
+    /**
+     * The connection to the gateway has been closed or was lost.
+     */
+    onDisconnected(): void;
+
+    /**
+     * An error occurred, see SIProtocolError and its subclasses for details.
+     *
+     * @param reason Short description of the error.
+     * @param error The error itself.
+     */
+    onError(reason: string, error: SIProtocolError): void;
+
+    /**
+     * The gateway returned the status of a device enumeration.
+     *
+     * @param status Status of the enumeration.
+     * @param deviceCount Number of devices present.
+     */
+    onEnumerated(status: SIStatus, deviceCount: number): void;
+
+    /**
+     * The gateway returned a description.
+     *
+     * @param status Status of the operation.
+     * @param description Description, as JSON string over WebSocket and as decoded object over Bluetooth.
+     * @param id Subject of the description, either a device access, a device or a property.
+     */
+    onDescription(status: SIStatus, description: any, id?: string): void;
+
+    /**
+     * The gateway returned the list of properties matching a search.
+     *
+     * @param status Status of the find operation.
+     * @param id The searched ID (including wildcard character).
+     * @param count The number of properties found.
+     * @param virtual True if the results include virtual devices.
+     * @param functions The function filter applied.
+     * @param properties List of the property IDs.
+     */
+    onPropertiesFound(status: SIStatus, id: string, count: number, virtual: boolean, functions: Set<SIDeviceFunctions>, properties: string[]): void;
+
+    /**
+     * The gateway returned the value of a property.
+     *
+     * @param status Status of the read operation.
+     * @param propertyId ID of the property read.
+     * @param value The value read.
+     */
+    onPropertyRead(status: SIStatus, propertyId: string, value?: any): void;
+
+    /**
+     * The gateway returned the values of multiple properties.
+     *
+     * @param results List of all results of the operation.
+     */
+    onPropertiesRead(results: SIPropertyReadResult[]): void;
+
+    /**
+     * The gateway returned the status of a property write.
+     *
+     * @param status Status of the write operation.
+     * @param propertyId ID of the property written.
+     */
+    onPropertyWritten(status: SIStatus, propertyId: string): void;
+
+    /**
+     * The gateway returned the status of a property subscription.
+     *
+     * @param status The status of the subscription.
+     * @param propertyId ID of the property.
+     */
+    onPropertySubscribed(status: SIStatus, propertyId: string): void;
+
+    /**
+     * The gateway returned the status of the subscription to multiple properties.
+     *
+     * @param statuses The statuses of the individual subscriptions.
+     */
+    onPropertiesSubscribed(statuses: SISubscriptionsResult[]): void;
+
+    /**
+     * The gateway returned the status of a property unsubscription.
+     *
+     * @param status The status of the unsubscription.
+     * @param propertyId ID of the property.
+     */
+    onPropertyUnsubscribed(status: SIStatus, propertyId: string): void;
+
+    /**
+     * The gateway returned the status of the unsubscription from multiple properties.
+     *
+     * @param statuses The statuses of the individual unsubscriptions.
+     */
+    onPropertiesUnsubscribed(statuses: SISubscriptionsResult[]): void;
+
+    /**
+     * The value of a subscribed property has changed on the gateway.
+     *
+     * @param propertyId The ID of the property that has changed.
+     * @param value The current value of the property.
+     */
+    onPropertyUpdated(propertyId: string, value: any): void;
+
+    /**
+     * The gateway returned the list of properties with logged data.
+     *
+     * @param status Status of the operation.
+     * @param properties List of the IDs of the properties for whom data is available in the data log.
+     */
+    onDatalogPropertiesRead(status: SIStatus, properties: string[]): void;
+
+    /**
+     * The gateway returned the logged data of a property.
+     *
+     * @param status Status of the operation.
+     * @param propertyId ID of the property.
+     * @param count Number of entries.
+     * @param values Logged values.
+     */
+    onDatalogRead(status: SIStatus, propertyId: string, count: number, values: Array<SIDataLogEntry>): void;
+
+    /**
+     * A device connected to the gateway broadcast a message.
+     *
+     * @param message The device message received.
+     */
+    onDeviceMessage(message: SIDeviceMessage): void;
+
+    /**
+     * The connection was lost and the client waits for the next reconnection attempt.
+     *
+     * @param attempt Number of the upcoming reconnection attempt, starting at 1.
+     * @param delay Delay in milliseconds before the attempt is made.
+     */
+    onReconnecting?(attempt: number, delay: number): void;
+
+    /**
+     * The client has been reconnected and authorized again after a connection loss.
+     *
+     * @param accessLevel Access level that was granted to the user during authorization.
+     * @param gatewayVersion Version of the OpenStuder software running on the gateway.
+     */
+    onReconnected?(accessLevel: SIAccessLevel, gatewayVersion: string): void;
+}
+
+/**
+ * @interface SIGenericGatewayClient
+ * Interface implemented by both the WebSocket (SIGatewayClient) and the Bluetooth (SIBluetoothGatewayClient) client. Using this interface, application code can be written once and used over
+ * both transports. All results are reported using promises and the shared result types, the events reported by both clients are listed in SIGenericGatewayClientCallbacks.
+ */
+export interface SIGenericGatewayClient {
+    /**
+     * Enables or disables debug output.
+     *
+     * @param enabled True to enable debug output, false to disable.
+     */
+    setDebugEnabled(enabled: boolean): void;
+
+    /**
+     * Sets the logger receiving the log messages of the client.
+     *
+     * @param logger Logger to use, undefined to disable logging.
+     * @param options Optional filter and redaction configuration, see SILoggerOptions for defaults.
+     */
+    setLogger(logger: SILogger | undefined, options?: Partial<SILoggerOptions>): void;
+
+    /**
+     * Returns the current state of the client. See "SIConnectionState" for details.
+     * @return Current state of the client
+     */
+    getState(): SIConnectionState;
+
+    /**
+     * Return the access level the client has gained on the gateway connected. See "SIAccessLevel" for details.
+     * @return Access level granted to client
+     */
+    getAccessLevel(): SIAccessLevel;
+
+    /**
+     * Returns the version of the OpenStuder gateway software running on the host the client is connected to.
+     * @return Version of the gateway software
+     */
+    getGatewayVersion(): string;
+
+    /**
+     * Returns the list of available protocol extensions on the connected gateway.
+     * @return List of available protocol extensions.
+     */
+    getAvailableExtensions(): Array<string>;
+
+    /**
+     * Returns the protocol version negotiated with the gateway.
+     * @return Negotiated protocol version, 0 if the client was never authorized.
+     */
+    getProtocolVersion(): number;
+
+    /**
+     * Returns the capabilities of the connected gateway, derived from the negotiated protocol version, the gateway version and the available extensions.
+     * @return Capabilities of the gateway, undefined if the client was never authorized.
+     */
+    getCapabilities(): SIGatewayCapabilities | undefined;
+
+    /**
+     * Configures a capability derived from the protocol version, the gateway version and the available extensions.
+     *
+     * @param capability Name of the capability.
+     * @param rule Requirements for the capability, undefined to remove the capability.
+     */
+    setCapabilityRule(capability: string, rule: SICapabilityRule | undefined): void;
+
+    /**
+     * Instructs the gateway to scan every configured and functional device access driver for new devices and remove devices that do not respond anymore.
+     *
+     * @return Promise resolving to the result of the enumeration.
+     */
+    enumerateAsync(): Promise<SIEnumerateResult>;
 
-    static raise(message: string) {
-        throw new SIProtocolError(message);
-    }
-}
+    /**
+     * Retrieves information about the available devices and their properties from the connected gateway.
+     *
+     * @param deviceAccessId: Device access ID for which the description should be retrieved.
+     * @param deviceId Device ID for which the description should be retrieved. Note that device_access_id must be present too.
+     * @param propertyId Property ID for which the description should be retrieved. Note that device_access_id and device_id must be present too.
+     * @param flags Flags to control level of detail of the response.
+     * @return Promise resolving to the description.
+     */
+    describeAsync(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]): Promise<SIDescriptionResult>;
 
-/**
- * The SIDeviceMessage type represents a message a device connected to the OpenStuder gateway has broadcast.
- */
-export type SIDeviceMessage = {
     /**
-     * Timestamp when the device message was received by the gateway.
+     * Retrieves the list of existing properties that match the given property ID, the wildcard character "*" is supported for the device access ID and the device ID.
+     *
+     * @param propertyId: The search wildcard ID.
+     * @param virtual: Optional to filter for virtual devices (true) or non-virtual devices (false, default).
+     * @param functionMask: Optional to filter for device functions. See SIDeviceFunctions for details. Defaults to all functions (SIDeviceFunctions.ALL).
+     * @return Promise resolving to the properties found.
      */
-    timestamp: Date
+    findPropertiesAsync(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>): Promise<SIPropertiesFoundResult>;
 
     /**
-     * ID of the device access driver that received the message.
+     * Retrieves the actual value of a given property from the connected gateway.
+     *
+     * @param propertyId The ID of the property to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the property read result.
      */
-    accessId: string,
+    readPropertyAsync(propertyId: string): Promise<SIPropertyReadResult>;
 
     /**
-     * ID of the device that broadcast the message.
+     * Reads the actual value of multiple properties.
+     *
+     * @param propertyIds The IDs of the properties to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of property read results.
      */
-    deviceId: string,
+    readPropertiesAsync(propertyIds: string[]): Promise<SIPropertyReadResult[]>;
 
     /**
-     * Message ID.
+     * Changes the actual value of a given property.
+     *
+     * @param propertyId The ID of the property to write in the form '{device access ID}.{<device ID}.{<property ID}'.
+     * @param value Optional value to write.
+     * @param flags Write flags, See SIWriteFlags for details, if not provided the flags are not send by the client and the gateway uses the default flags.
+     * @return Promise resolving to the property write result.
      */
-    messageId: string,
+    writePropertyAsync(propertyId: string, value?: any, flags?: SIWriteFlags): Promise<SIPropertyWriteResult>;
 
     /**
-     * String representation of the message.
+     * Subscribes to a property on the connected gateway.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the subscription result.
      */
-    message: string
-}
+    subscribeToPropertyAsync(propertyId: string): Promise<SISubscriptionsResult>;
 
-/**
- * The SIDPropertyReadResult type represents the status of a property read result.
- */
-export type SIPropertyReadResult = {
     /**
-     * Status of the property read operation.
+     * Subscribes to multiple properties.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of subscription results.
      */
-    status: SIStatus,
+    subscribeToPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]>;
 
     /**
-     * ID of the property read.
+     * Unsubscribes from a property on the connected gateway.
+     *
+     * @param propertyId The ID of the property to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the unsubscription result.
      */
-    id: string,
+    unsubscribeFromPropertyAsync(propertyId: string): Promise<SISubscriptionsResult>;
 
     /**
-     * Value that was read from the property, optional.
+     * Unsubscribes from multiple properties.
+     *
+     * @param propertyIds The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of unsubscription results.
      */
-    value?: any
-}
+    unsubscribeFromPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]>;
 
-/**
- * The SIDSubscriptionsResult type represents the status of a property subscription/unsubscription.
- */
-export type SISubscriptionsResult = {
     /**
-     * Status of the property subscribe or unsubscribe operation.
+     * Retrieves the list of IDs of all properties for whom data is logged on the gateway.
+     *
+     * @param dateFrom Optional date and time of the start of the time window to be considered.
+     * @param dateTo Optional date and time of the end of the time window to be considered.
+     * @return Promise resolving to the list of properties with logged data.
      */
-    status: SIStatus,
+    readDatalogPropertiesAsync(dateFrom?: Date, dateTo?: Date): Promise<SIDatalogPropertiesResult>;
 
     /**
-     * ID of the property.
+     * Retrieves all or a subset of logged data of a given property from the gateway.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of results retrieved in total.
+     * @return Promise resolving to the logged data.
      */
-    id: string
-}
+    readDatalogAsync(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIDatalogReadResult>;
 
-/**
- * The SIExtensionStatus enum represents the status of an extension command call.
- */
-export enum SIExtensionStatus {
     /**
-     * Extension command was successfully executed.
+     * Reads the logged data of a property in pages of at most pageSize entries and returns an async iterator yielding the entries in chronological order. Entries received again at the
+     * page boundaries are skipped, leaving the loop or aborting the signal passed in the options cancels the read.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param options Optional page size, progress callback and cancellation signal, see SIDatalogPagingOptions for defaults.
+     * @return Async iterator yielding the logged values with their timestamps.
      */
-    SUCCESS = 0,
+    readDatalogPaged(propertyId: string, dateFrom?: Date, dateTo?: Date, options?: Partial<SIDatalogPagingOptions>): AsyncIterableIterator<SIDataLogEntry>;
 
     /**
-     * The extension does not exist or the currently logged user does not have the right to call the extension.
+     * Retrieves all or a subset of stored messages send by device on all buses in the past from the gateway.
+     *
+     * @param dateFrom Optional date and time from which the messages have to be retrieved, defaults to the oldest message saved.
+     * @param dateTo Optional date and time to which the messages have to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of messages retrieved in total.
+     * @return Promise resolving to the messages read.
      */
-    UNSUPPORTED_EXTENSION = - 1,
+    readMessagesAsync(dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIMessagesReadResult>;
 
     /**
-     * The command does not exist or the currently logged user does not have the right to call the command.
+     * Runs an extension command on the gateway.
+     *
+     * @param extension Extension to use.
+     * @param command Command to run on that extension.
+     * @param parameters Key/value pairs (WebSocket) or parameter list (Bluetooth) to pass to the command, see extension documentation for details.
+     * @return Promise resolving to the result of the extension command.
      */
-    UNSUPPORTED_COMMAND = - 2,
+    callExtensionAsync(extension: string, command: string, parameters?: Map<string,string> | Array<any>): Promise<SIExtensionCallResult>;
 
     /**
-     * A header value is missing or at least one header value is invalid (WebSocket only).
+     * Subscribes to the given property and returns an async iterator yielding all updates of the property. Ending the iteration unsubscribes from the property.
+     *
+     * @param propertyId The ID of the property to watch in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the property updates.
      */
-    INVALID_HEADERS = - 3,
+    watchProperty(propertyId: string, options?: Partial<SIStreamOptions>): AsyncIterableIterator<SIPropertyUpdate>;
 
     /**
-     * A parameter is missing or at least one parameter value is invalid (Bluetooth only).
+     * Returns an async iterator yielding all device messages broadcast by the gateway.
+     *
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the device messages.
      */
-    INVALID_PARAMETERS = - 3,
+    deviceMessages(options?: Partial<SIStreamOptions>): AsyncIterableIterator<SIDeviceMessage>;
 
     /**
-     * The body is missing, or it's value is invalid (WebSocket only).
+     * Disconnects the client from the gateway.
      */
-    INVALID_BODY = - 4,
+    disconnect(): void;
 
     /**
-     * General (unspecified) error.
+     * Returns the store holding the last known value of all properties read or updated by the client.
+     *
+     * @return Property store of the client.
      */
-    ERROR = - 5
-}
+    getPropertyStore(): SIPropertyStore;
 
-function extensionStatusFromString(str?: string): SIExtensionStatus {
-    switch (str) {
-        case "Success":
-            return SIExtensionStatus.SUCCESS;
-        case "UnsupportedExtension":
-            return SIExtensionStatus.UNSUPPORTED_EXTENSION;
-        case "UnsupportedCommand":
-            return SIExtensionStatus.UNSUPPORTED_COMMAND
-        case "InvalidHeaders":
-            return SIExtensionStatus.INVALID_HEADERS;
-        case "InvalidParameters":
-            return SIExtensionStatus.INVALID_PARAMETERS;
-        case "InvalidBody":
-            return SIExtensionStatus.INVALID_BODY
-        case "Error":
-            return SIExtensionStatus.ERROR;
-        default:
-            return SIExtensionStatus.ERROR;
-    }
+    /**
+     * Acquires a shared subscription to the given property. The property is subscribed on the gateway by the first holder and unsubscribed once all handles have been released.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handle to the shared subscription.
+     */
+    acquireSubscription(propertyId: string): SISubscriptionHandle;
+
+    /**
+     * Acquires shared subscriptions to all given properties, see acquireSubscription() for details.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handles to the shared subscriptions in the same order as the property IDs.
+     */
+    acquireSubscriptions(propertyIds: string[]): SISubscriptionHandle[];
+
+    /**
+     * Adds a listener for the given event, see SIGenericGatewayClientCallbacks for the events reported by both clients.
+     *
+     * @param event Name of the event, for example "propertyUpdated" for the event reported to onPropertyUpdated().
+     * @param listener Listener to call whenever the event occurs.
+     */
+    addEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+
+    /**
+     * Removes a listener added before using addEventListener() or on().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     */
+    removeEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+
+    /**
+     * Shorthand for addEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to call whenever the event occurs.
+     * @return The client itself to allow chaining.
+     */
+    on<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
+
+    /**
+     * Shorthand for removeEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     * @return The client itself to allow chaining.
+     */
+    off<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
 }
 
 /**************************************************************************************************************************************************************
  * WebSocket client implementation.
  */
 
+/**
+ * The SIWebSocket interface describes the subset of the standard WebSocket API used by SIGatewayClient. The browser WebSocket class as well as the WebSocket class of the "ws" package for
+ * Node.js implement this interface.
+ */
+export interface SIWebSocket {
+    onopen: ((event: any) => void) | null;
+    onmessage: ((event: any) => void) | null;
+    onerror: ((event: any) => void) | null;
+    onclose: ((event: any) => void) | null;
+
+    send(data: string): void;
+
+    close(): void;
+}
+
+/**
+ * Factory function used by SIGatewayClient to create the WebSocket connection to the given URL.
+ */
+export type SIWebSocketFactory = (url: string) => SIWebSocket;
+
+function defaultWebSocketFactory(url: string): SIWebSocket {
+    if (typeof WebSocket === "undefined") {
+        throw new SITransportError("no WebSocket implementation available, use setWebSocketFactory()");
+    }
+    return new WebSocket(url);
+}
+
 type SIDecodedWebSocketFrame = {
     command: string,
     body: string,
@@ -399,7 +2924,7 @@ type SIDecodedWebSocketFrame = {
 
 type SIAuthorizedWSFrameContent = {
     accessLevel: SIAccessLevel,
-    protocolVersion: string,
+    protocolVersion: number,
     gatewayVersion: string,
     extensions: Array<string>
 }
@@ -454,7 +2979,8 @@ type SIDataLogReadWSFrameContent = {
     status: SIStatus,
     id: string | undefined,
     count: number,
-    results: string
+    values: Array<SIDataLogEntry>,
+    properties: Array<string>
 }
 
 type SIMessagesReadWSFrameContent = {
@@ -473,77 +2999,76 @@ type SIExtensionCallResultWSContent = {
 
 class SIAbstractGatewayClient {
     protected static decodeFrame(frame: string): SIDecodedWebSocketFrame {
-        let command = "INVALID";
         let headers = new Map<string, string>();
 
-        const lines = frame.split("\n");
-        if (lines.length > 1) {
-            command = lines[0];
-        } else {
-            SIProtocolError.raise("Invalid frame");
+        const commandEnd = frame.indexOf("\n");
+        if (commandEnd < 0) {
+            SIProtocolError.raise("Invalid frame", {frame: frame});
         }
-
-        let line = 1;
-        while (line < lines.length) {
-            const components = lines[line].split(":");
-            // General case
-            if (components.length === 2) {
-                headers.set(components[0], components[1]);
-            }
-            // If our components has a timestamp, it will have several ':'
-            if (components.length > 2) {
-                let value = components[1];
-                for (let i = 2; i < components.length; i++) {
-                    value += ":" + components[i];
-                }
-                headers.set(components[0], value);
+        const command = frame.substring(0, commandEnd);
+
+        // The headers end with the first empty line.
+        let position = commandEnd + 1;
+        while (position < frame.length) {
+            let lineEnd = frame.indexOf("\n", position);
+            if (lineEnd < 0) {
+                lineEnd = frame.length;
             }
-            line += 1;
-            // We don't want to treat the body here, we need to break before
-            if (lines[line] === "") {
-                line += 1;
+            const line = frame.substring(position, lineEnd);
+            position = lineEnd + 1;
+            if (line === "") {
                 break;
             }
-        }
-        let body = lines[line];
-        line += 1;
-        while (line < lines.length) {
-            if (lines[line] !== "") {
-                body += "\n" + lines[line];
+
+            // Only the first ':' separates key and value, values like timestamps contain ':' themselves.
+            const separator = line.indexOf(":");
+            if (separator >= 0) {
+                headers.set(line.substring(0, separator), line.substring(separator + 1));
             }
-            line++;
         }
 
+        // The body is everything after the empty line, including empty lines and line breaks within.
+        const body = position < frame.length ? frame.substring(position) : "";
+
         return {body: body, headers: headers, command: command};
     }
 
     protected static encodeAuthorizeFrame(user?: string, password?: string): string {
         if (user !== "" || password !== "") {
-            return "AUTHORIZE\nuser:" + user + "\npassword:" + password + "\nprotocol_version:1\n\n";
+            return "AUTHORIZE\nuser:" + user + "\npassword:" + password + "\nprotocol_version:" + supportedProtocolVersions.join(",") + "\n\n";
         } else {
-            return 'AUTHORIZE\nprotocol_version:1\n\n';
+            return "AUTHORIZE\nprotocol_version:" + supportedProtocolVersions.join(",") + "\n\n";
+        }
+    }
+
+    protected static redactAuthorizeFrame(frame: string): string {
+        if (SIAbstractGatewayClient.peekFrameCommand(frame) !== "AUTHORIZE") {
+            return frame;
         }
+        return frame.replace(/^password:.*$/m, "password:***");
     }
 
     protected static decodeAuthorizedFrame(frame: string): SIAuthorizedWSFrameContent {
         const decodedFrame = this.decodeFrame(frame);
-        if (decodedFrame.command === "AUTHORIZED" && decodedFrame.headers.has("access_level") && decodedFrame.headers.has("protocol_version")) {
-            if (decodedFrame.headers.get("protocol_version") === "1") {
+        if (decodedFrame.command === "AUTHORIZED" && decodedFrame.headers.has("access_level")) {
+            // The gateway picks the highest of the advertised protocol versions it supports, gateways predating the version negotiation do not report it and implement version 1.
+            const protocolVersion = +(decodedFrame.headers.get("protocol_version") ?? 1);
+            if (supportedProtocolVersions.includes(protocolVersion)) {
                 return {
                     accessLevel: accessLevelFromString(decodedFrame.headers.get("access_level")!),
-                    protocolVersion: decodedFrame.headers.get("protocol_version")!,
+                    protocolVersion: protocolVersion,
                     gatewayVersion: decodedFrame.headers.get("gateway_version")!,
                     extensions: (decodedFrame.headers.get("extensions") || "").split(',')
                 };
             } else {
-                SIProtocolError.raise("protocol version 1 not supported by server");
+                SIProtocolVersionError.raise(`protocol version ${decodedFrame.headers.get("protocol_version")} selected by gateway not supported`, {frame: frame});
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIAuthorizationError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during authorization");
+            SIProtocolError.raise("unknown error during authorization", {frame: frame});
         }
-        return {accessLevel: SIAccessLevel.NONE, gatewayVersion: "", protocolVersion: "", extensions: []}
+        return {accessLevel: SIAccessLevel.NONE, gatewayVersion: "", protocolVersion: 0, extensions: []}
     }
 
     protected static encodeEnumerateFrame(): string {
@@ -558,44 +3083,21 @@ class SIAbstractGatewayClient {
                 deviceCount: +(decodedFrame.headers.get("device_count") || 0)
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property read");
+            SIProtocolError.raise("unknown error during property read", {frame: frame});
         }
         return {deviceCount: 0, status: SIStatus.ERROR};
     }
 
     protected static encodeDescribeFrame(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]): string {
         let frame = "DESCRIBE\n";
-        if (deviceAccessId) {
-            frame += "id:" + deviceAccessId;
-            if (deviceId) {
-                frame += "." + deviceId;
-                if (propertyId) {
-                    frame += "." + propertyId;
-                }
-            }
-            frame += "\n";
+        const id = describeId(deviceAccessId, deviceId, propertyId);
+        if (id !== undefined) {
+            frame += "id:" + id + "\n";
         }
-        if (flags?.length !== 0 && flags !== undefined) {
-            frame += "flags:";
-            flags.forEach(flag => {
-                if (flag === SIDescriptionFlags.INCLUDE_ACCESS_INFORMATION) {
-                    frame += "IncludeAccessInformation,";
-                }
-                if (flag === SIDescriptionFlags.INCLUDE_PROPERTY_INFORMATION) {
-                    frame += "IncludePropertyInformation,";
-                }
-                if (flag === SIDescriptionFlags.INCLUDE_DEVICE_INFORMATION) {
-                    frame += "IncludeDeviceInformation,";
-                }
-                if (flag === SIDescriptionFlags.INCLUDE_DRIVER_INFORMATION) {
-                    frame += "IncludeDriverInformation,";
-                }
-            });
-            //Suppress the last ',' or \n if no flag
-            frame = frame.substring(0, frame.length - 1);
-            frame += "\n";
+        if (flags !== undefined && descriptionFlagsToStrings(flags).length !== 0) {
+            frame += "flags:" + descriptionFlagsToStrings(flags).join(",") + "\n";
         }
         frame += "\n";
         return frame;
@@ -611,9 +3113,9 @@ class SIAbstractGatewayClient {
                 description: status === SIStatus.SUCCESS ? decodedFrame.body : undefined
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during description");
+            SIProtocolError.raise("unknown error during description", {frame: frame});
         }
         return {description: undefined, id: undefined, status: SIStatus.ERROR};
     }
@@ -623,18 +3125,8 @@ class SIAbstractGatewayClient {
         if (virtual !== null && virtual !== undefined) {
             frame += "virtual:" + (virtual ? "true\n" : "false\n");
         }
-        if (functionMask !== undefined && functionMask?.length !== 0) {
-            frame += "functions:";
-            functionMask.forEach(func => {
-                if (func === SIDeviceFunctions.INVERTER) frame += "inverter,";
-                if (func === SIDeviceFunctions.CHARGER) frame += "charger,";
-                if (func === SIDeviceFunctions.SOLAR) frame += "solar,";
-                if (func === SIDeviceFunctions.TRANSFER) frame += "transfer,";
-                if (func === SIDeviceFunctions.BATTERY) frame += "battery,";
-                if (func === SIDeviceFunctions.ALL) frame += "all,";
-            });
-            frame = frame.substring(0, frame.length - 1);
-            frame += "\n";
+        if (functionMask !== undefined && deviceFunctionsToStrings(functionMask).length !== 0) {
+            frame += "functions:" + deviceFunctionsToStrings(functionMask).join(",") + "\n";
         }
         frame += "\n";
         return frame;
@@ -653,9 +3145,9 @@ class SIAbstractGatewayClient {
                 properties: status === SIStatus.SUCCESS ? JSON.parse(decodedFrame.body) as Array<string> : undefined
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during find properties");
+            SIProtocolError.raise("unknown error during find properties", {frame: frame});
         }
         return {count: 0, functions: new Set([SIDeviceFunctions.ALL]), id: undefined, properties: undefined, status: SIStatus.ERROR, virtual: false};
     }
@@ -664,19 +3156,20 @@ class SIAbstractGatewayClient {
         return "READ PROPERTY\nid:" + propertyId + "\n\n";
     }
 
-    protected static decodePropertyReadFrame(frame: string): SIPropertyReadWSFrameContent {
+    protected static decodePropertyReadFrame(frame: string, propertyTypes: Map<string, string> = new Map<string, string>()): SIPropertyReadWSFrameContent {
         const decodedFrame: SIDecodedWebSocketFrame = this.decodeFrame(frame);
         if (decodedFrame.command === "PROPERTY READ" && decodedFrame.headers.has("status") && decodedFrame.headers.has("id")) {
             const status = statusFromString(decodedFrame.headers.get("status"));
+            const id = decodedFrame.headers.get("id")!;
             return {
                 status: status,
-                id: decodedFrame.headers.get("id")!,
-                value: status === SIStatus.SUCCESS ? decodedFrame.headers.get("value") || '' : undefined
+                id: id,
+                value: status === SIStatus.SUCCESS ? propertyValueFromString(decodedFrame.headers.get("value") || '', propertyTypes.get(id)) : undefined
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property read");
+            SIProtocolError.raise("unknown error during property read", {frame: frame});
         }
         return {id: "", status: SIStatus.ERROR, value: undefined};
     }
@@ -687,7 +3180,7 @@ class SIAbstractGatewayClient {
         return frame;
     }
 
-    protected static decodePropertiesReadFrame(frame: string): SIPropertyReadResult[] {
+    protected static decodePropertiesReadFrame(frame: string, propertyTypes: Map<string, string> = new Map<string, string>()): SIPropertyReadResult[] {
         let results: SIPropertyReadResult[] = [];
         const decodedFrame: SIDecodedWebSocketFrame = this.decodeFrame(frame);
         if (decodedFrame.command === "PROPERTIES READ" && decodedFrame.headers.has("status")) {
@@ -695,19 +3188,20 @@ class SIAbstractGatewayClient {
             if (status === SIStatus.SUCCESS) {
                 const jsonBody = JSON.parse(decodedFrame.body);
                 for (let i = 0; i < jsonBody.length; i++) {
+                    const value = jsonBody[i].value;
                     results.push({
                         status: statusFromString(jsonBody[i].status),
                         id: jsonBody[i].id,
-                        value: jsonBody[i].value
+                        value: typeof value === "string" ? propertyValueFromString(value, propertyTypes.get(jsonBody[i].id)) : value
                     });
                 }
             } else {
-                SIProtocolError.raise("error during property read, status=" + decodedFrame.headers.get("status"));
+                SIProtocolError.raise("error during property read, status=" + decodedFrame.headers.get("status"), {frame: frame});
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property read");
+            SIProtocolError.raise("unknown error during property read", {frame: frame});
         }
         return results;
     }
@@ -736,9 +3230,9 @@ class SIAbstractGatewayClient {
                 id: decodedFrame.headers.get("id")!
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property write");
+            SIProtocolError.raise("unknown error during property write", {frame: frame});
         }
         return {id: "", status: SIStatus.ERROR};
     }
@@ -755,9 +3249,9 @@ class SIAbstractGatewayClient {
                 id: decodedFrame.headers.get("id")!
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property subscribe");
+            SIProtocolError.raise("unknown error during property subscribe", {frame: frame});
         }
         return {id: "", status: SIStatus.ERROR};
     }
@@ -782,12 +3276,12 @@ class SIAbstractGatewayClient {
                     });
                 }
             } else {
-                SIProtocolError.raise("error during properties subscribe, status=" + decodedFrame.headers.get("status"));
+                SIProtocolError.raise("error during properties subscribe, status=" + decodedFrame.headers.get("status"), {frame: frame});
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise("" + decodedFrame.headers.get("reason"));
+            SIGatewayError.raise("" + decodedFrame.headers.get("reason"), {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during properties subscribe");
+            SIProtocolError.raise("unknown error during properties subscribe", {frame: frame});
         }
         return results;
     }
@@ -804,9 +3298,9 @@ class SIAbstractGatewayClient {
                 id: decodedFrame.headers.get("id")!
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during property unsubscribe");
+            SIProtocolError.raise("unknown error during property unsubscribe", {frame: frame});
         }
         return {id: "", status: SIStatus.ERROR};
     }
@@ -831,27 +3325,28 @@ class SIAbstractGatewayClient {
                     });
                 }
             } else {
-                SIProtocolError.raise("error during properties unsubscribe, status=" + decodedFrame.headers.get("status"));
+                SIProtocolError.raise("error during properties unsubscribe, status=" + decodedFrame.headers.get("status"), {frame: frame});
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error during properties unsubscribe");
+            SIProtocolError.raise("unknown error during properties unsubscribe", {frame: frame});
         }
         return result;
     }
 
-    protected static decodePropertyUpdateFrame(frame: string): SIPropertyUpdateWSFrameContent {
+    protected static decodePropertyUpdateFrame(frame: string, propertyTypes: Map<string, string> = new Map<string, string>()): SIPropertyUpdateWSFrameContent {
         const decodedFrame: SIDecodedWebSocketFrame = this.decodeFrame(frame);
         if (decodedFrame.command === "PROPERTY UPDATE" && decodedFrame.headers.has("value") && decodedFrame.headers.has("id")) {
+            const id = decodedFrame.headers.get("id")!;
             return {
-                id: decodedFrame.headers.get("id")!,
-                value: decodedFrame.headers.get("value")
+                id: id,
+                value: propertyValueFromString(decodedFrame.headers.get("value")!, propertyTypes.get(id))
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error receiving property update");
+            SIProtocolError.raise("unknown error receiving property update", {frame: frame});
         }
         return {id: "", value: undefined};
     }
@@ -870,21 +3365,25 @@ class SIAbstractGatewayClient {
         return frame;
     }
 
-    protected static decodeDatalogReadFrame(frame: string): SIDataLogReadWSFrameContent {
+    protected static decodeDatalogReadFrame(frame: string, malformedLineHandling: SIMalformedDatalogLineHandling = SIMalformedDatalogLineHandling.SKIP,
+                                            propertyTypes: Map<string, string> = new Map<string, string>()): SIDataLogReadWSFrameContent {
         const decodedFrame: SIDecodedWebSocketFrame = this.decodeFrame(frame);
         if (decodedFrame.command === "DATALOG READ" && decodedFrame.headers.has("status") && decodedFrame.headers.has("count")) {
+            const id = decodedFrame.headers.get("id");
+            const lines = (decodedFrame.body || "").split("\n").filter(line => line.length > 0);
             return {
                 status: statusFromString(decodedFrame.headers.get("status")),
-                id: decodedFrame.headers.get("id"),
+                id: id,
                 count: +(decodedFrame.headers.get("count") || 0),
-                results: decodedFrame.body
+                values: id ? this.decodeDatalogEntries(lines, malformedLineHandling, propertyTypes.get(id)) : [],
+                properties: id ? [] : lines
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error receiving datalog read");
+            SIProtocolError.raise("unknown error receiving datalog read", {frame: frame});
         }
-        return {count: 0, id: "", results: "", status: SIStatus.ERROR};
+        return {count: 0, id: "", values: [], properties: [], status: SIStatus.ERROR};
     }
 
     protected static encodeReadMessagesFrame(dateFrom?: Date, dateTo?: Date, limit?: number): string {
@@ -927,9 +3426,9 @@ class SIAbstractGatewayClient {
                 };
             }
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error receiving messages");
+            SIProtocolError.raise("unknown error receiving messages", {frame: frame});
         }
         return {count: 0, messages: [], status: SIStatus.ERROR};
     }
@@ -946,9 +3445,9 @@ class SIAbstractGatewayClient {
                 message: decodedFrame.headers.get("message")!
             };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error receiving device message");
+            SIProtocolError.raise("unknown error receiving device message", {frame: frame});
         }
         return {accessId: "", deviceId: "", message: "", messageId: "", timestamp: new Date(0)};
     }
@@ -979,13 +3478,33 @@ class SIAbstractGatewayClient {
                     body: decodedFrame.body
                 };
         } else if (decodedFrame.command === "ERROR" && decodedFrame.headers.has("reason")) {
-            SIProtocolError.raise(decodedFrame.headers.get("reason")!);
+            SIGatewayError.raise(decodedFrame.headers.get("reason")!, {frame: frame});
         } else {
-            SIProtocolError.raise("unknown error receiving extension called");
+            SIProtocolError.raise("unknown error receiving extension called", {frame: frame});
         }
         return {body: "", command: "", extension: "", headers: new Map<string,string>(), status: SIExtensionStatus.ERROR};
     }
 
+    protected static decodeDatalogEntries(lines: Array<string>, malformedLineHandling: SIMalformedDatalogLineHandling, type?: string): SIDataLogEntry[] {
+        let entries: SIDataLogEntry[] = [];
+        lines.forEach(line => {
+            // Each line contains the timestamp in ISO 8601 extended format and the value separated by a comma.
+            const separator = line.indexOf(",");
+            const timestamp = new Date(separator > 0 ? line.substring(0, separator) : NaN);
+            if (isNaN(timestamp.getTime()) || separator === line.length - 1) {
+                if (malformedLineHandling === SIMalformedDatalogLineHandling.FAIL) {
+                    SIProtocolError.raise("malformed datalog line: " + line);
+                }
+                return;
+            }
+            entries.push({
+                timestamp: timestamp,
+                value: propertyValueFromString(line.substring(separator + 1), type)
+            });
+        });
+        return entries;
+    }
+
     protected static getTimestampHeaderIfPresent(key: string, timestamp?: Date): string {
         if (timestamp) {
             return key + ':' + timestamp.toISOString() + '\n';
@@ -994,9 +3513,29 @@ class SIAbstractGatewayClient {
         }
     }
 
+    protected static encodeTimeoutFrame(command: string, headers: Array<[string, any]>, body: string = ""): string {
+        let frame = command + "\n";
+        headers.filter(([, value]) => value !== undefined).forEach(([key, value]) => frame += `${key}:${value}\n`);
+        frame += "\n" + body;
+        return frame;
+    }
+
     protected static peekFrameCommand(frame: string): string {
         return (frame.split("\n"))[0];
     }
+
+    protected static peekFrameKey(frame: string): string | undefined {
+        // Responses are referenced by the property ID or, for extension calls, by extension and command.
+        try {
+            const headers = SIAbstractGatewayClient.decodeFrame(frame).headers;
+            if (SIAbstractGatewayClient.peekFrameCommand(frame) === "EXTENSION CALLED") {
+                return `${headers.get("extension")}.${headers.get("command")}`;
+            }
+            return headers.get("id");
+        } catch (error) {
+            return undefined;
+        }
+    }
 }
 
 /**
@@ -1031,8 +3570,9 @@ export interface SIGatewayClientCallbacks {
      * Called on severe errors.
      *
      * @param reason Exception that caused the erroneous behavior
+     * @param error The error, its class (for example SIAuthorizationError or SITransportError) identifies the kind of error and it holds the offending frame or command if known.
      */
-    onError(reason: string): void;
+    onError(reason: string, error: SIProtocolError): void;
 
     /**
      * Called when the gateway returned the description requested using the method describe().
@@ -1131,10 +3671,9 @@ export interface SIGatewayClientCallbacks {
      * @param status Status of the operation.
      * @param propertyId ID of the property.
      * @param count Number of entries.
-     * @param values Properties data in CSV format whereas the first column is the date and time in ISO 8601 extended
-     * format and the second column contains the actual values.
+     * @param values The values with their timestamps.
      */
-    onDatalogRead(status: SIStatus, propertyId: string, count: number, values: string): void;
+    onDatalogRead(status: SIStatus, propertyId: string, count: number, values: Array<SIDataLogEntry>): void;
 
     /**
      * This callback is called whenever the gateway send a device message indication.
@@ -1162,6 +3701,23 @@ export interface SIGatewayClientCallbacks {
      * @param body Optional body (output) returned by the command, see extension documentation for details.
      */
     onExtensionCalled(extension: string, command: string, status: SIExtensionStatus, parameters: Map<string,string>, body: string): void;
+
+    /**
+     * Called when the connection to the gateway was lost and automatic reconnection is enabled, just before the client waits for the next reconnection attempt.
+     *
+     * @param attempt Number of the upcoming reconnection attempt, starting at 1.
+     * @param delay Delay in milliseconds before the attempt is made.
+     */
+    onReconnecting?(attempt: number, delay: number): void;
+
+    /**
+     * Called once the client has been reconnected and authorized again after a connection loss. The property subscriptions active before the connection loss are being restored at that
+     * time, the callback does not wait for the gateway to confirm them. Subscriptions that can not be restored are dropped and reported as warning in the log.
+     *
+     * @param accessLevel Access level that was granted to the user during authorization.
+     * @param gatewayVersion Version of the OpenStuder software running on the gateway.
+     */
+    onReconnected?(accessLevel: SIAccessLevel, gatewayVersion: string): void;
 }
 
 /**
@@ -1170,20 +3726,52 @@ export interface SIGatewayClientCallbacks {
  * version. The advantages are that long operations do not block the main thread as all results are reported
  * using callbacks, device message indications are supported and subscriptions to property changes are possible.
  */
-export class SIGatewayClient extends SIAbstractGatewayClient {
+export class SIGatewayClient extends SIAbstractGatewayClient implements SIGenericGatewayClient {
     private state: SIConnectionState;
     private accessLevel: SIAccessLevel;
     private gatewayVersion: string;
     private availableExtensions: Array<string>;
-    private ws: WebSocket | null;
-    private connectionTimeout: number = -1;
-
+    private capabilityRules: Map<string, SICapabilityRule> = new Map<string, SICapabilityRule>();
+    private capabilities: SIGatewayCapabilities | undefined = undefined;
+    private ws: SIWebSocket | null;
+    private webSocketFactory: SIWebSocketFactory = defaultWebSocketFactory;
+    private timers: SITimerProvider = defaultTimerProvider;
+    private connectionTimeout: any = undefined;
+
+    private url: string = '';
     private user?: string;
     private password?: string;
+    private connectTimeoutDuration: number = 5000;
+
+    private reconnectOptions: SIReconnectOptions | undefined;
+    private reconnectAttempt: number = 0;
+    private reconnectTimeout: any = undefined;
+    private closeRequested: boolean = false;
+    private activeSubscriptions: Set<string> = new Set<string>();
 
     private callbacks: SIGatewayClientCallbacks | undefined;
+    private listeners: SIEventListeners = new SIEventListeners();
+    private propertyStore: SIClientPropertyStore = new SIClientPropertyStore(() => this.timers);
+    private sharedSubscriptions: SISubscriptionRegistry = new SISubscriptionRegistry(propertyIds => propertyIds.length === 1 ?
+        this.subscribeToPropertyAsync(propertyIds[0]).then(it => [it]) : this.subscribeToPropertiesAsync(propertyIds), propertyId => {
+        if (this.state === SIConnectionState.CONNECTED) {
+            this.unsubscribeFromPropertyAsync(propertyId).catch(() => {});
+        }
+    });
+    private pendingRequests: Array<SIPendingRequest> = [];
+    private commandQueueing: boolean = false;
+    private queuedCommands: Array<SIQueuedCommand> = [];
+    private requests: SIRequestTracker<string> = new SIRequestTracker<string>(() => this.timers, frame => this.onMessage({data: frame}));
+    private heartbeat: SIHeartbeat = new SIHeartbeat(() => this.timers, propertyId => {
+        this.requests.trackInternal("probe", "PROPERTY READ", propertyId);
+        this.send(SIGatewayClient.encodeReadPropertyFrame(propertyId));
+    }, () => this.onHeartbeatFailed());
+    private recorder: SITrafficRecorder | undefined = undefined;
+    private recordCredentials: boolean = false;
+    private propertyTypes: Map<string, string> = new Map<string, string>();
+    private malformedDatalogLineHandling: SIMalformedDatalogLineHandling = SIMalformedDatalogLineHandling.SKIP;
 
-    private debug: boolean = false;
+    private log: SILog = new SILog();
 
     public constructor() {
         super();
@@ -1193,18 +3781,121 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
         this.gatewayVersion = '';
         this.availableExtensions = [];
 
-        this.user = undefined;
-        this.password = undefined;
+        this.user = undefined;
+        this.password = undefined;
+    }
+
+    public setDebugEnabled(enabled: boolean) {
+        this.log.setDebugEnabled(enabled);
+    }
+
+    /**
+     * Sets the logger receiving the log messages of the client. Replaces the console output enabled by setDebugEnabled().
+     *
+     * By default passwords are redacted from the logged connect parameters and AUTHORIZE frames, see SILoggerOptions.
+     *
+     * @param logger Logger to use, undefined to disable logging.
+     * @param options Optional filter and redaction configuration, see SILoggerOptions for defaults.
+     */
+    public setLogger(logger: SILogger | undefined, options: Partial<SILoggerOptions> = {}) {
+        this.log.setLogger(logger, options);
+    }
+
+    /**
+     * Configures the factory used to create the WebSocket connection. This allows to use the client in environments without a global WebSocket class like Node.js, for example by passing
+     * (url) => new WebSocket(url) using the WebSocket class of the "ws" package. If no factory is set, the global WebSocket class is used if available.
+     *
+     * @param factory Factory to create WebSocket instances, undefined to use the global WebSocket class.
+     */
+    public setWebSocketFactory(factory: SIWebSocketFactory | undefined) {
+        this.webSocketFactory = factory || defaultWebSocketFactory;
+    }
+
+    /**
+     * Configures how malformed lines in the data log returned by the gateway are handled. By default, malformed lines are skipped. If set to SIMalformedDatalogLineHandling.FAIL, a malformed
+     * line causes the datalog read operation to be reported using the onError() callback instead of onDatalogRead().
+     *
+     * @param handling How to handle malformed lines.
+     */
+    public setMalformedDatalogLineHandling(handling: SIMalformedDatalogLineHandling) {
+        this.malformedDatalogLineHandling = handling;
+    }
+
+    /**
+     * Configures the timer functions used for the connection timeout, the request timeouts and the reconnection delays. If no provider is set, the global setTimeout() and clearTimeout()
+     * functions are used.
+     *
+     * @param timers Timer provider to use, undefined to use the global timer functions.
+     */
+    public setTimerProvider(timers: SITimerProvider | undefined) {
+        this.timers = timers || defaultTimerProvider;
+    }
+
+    /**
+     * Configures the time the client waits for the response to a request. If the gateway does not respond in time, the request is reported using the normal callback with the status
+     * SIStatus.TIMEOUT (SIExtensionStatus.ERROR for extension calls) and a response arriving later is dropped, unless a retry of the same request is waiting for its response, which then
+     * completes the retry. Request timeouts are disabled by default.
+     *
+     * @param timeout Timeout in milliseconds, 0 to disable the timeout.
+     * @param operation Operation to configure the timeout for, if not provided the default timeout used for all operations without a specific timeout is configured.
+     */
+    public setRequestTimeout(timeout: number, operation?: SIOperation) {
+        this.requests.setTimeout(timeout, operation);
+    }
+
+    /**
+     * Enables or disables the queueing of commands issued before the client is connected. If enabled, commands like readProperty() or subscribeToProperty() called while the client is
+     * connecting or authorizing are queued and sent in order once the client has been authorized by the gateway, instead of raising an SIProtocolError. If the authorization fails or the
+     * connection is lost, each queued command is reported as failed using the onError() callback and the promises of the queued asynchronous commands are rejected.
+     *
+     * Queueing is disabled by default.
+     *
+     * @param enabled True to queue commands issued while connecting, false to reject them.
+     */
+    public setCommandQueueing(enabled: boolean) {
+        this.commandQueueing = enabled;
+    }
+
+    /**
+     * Enables or disables the automatic reconnection. If enabled, the client tries to re-establish a lost connection using an exponential backoff, authorizes again using the same user and
+     * password and restores all property subscriptions that were active. The attempts are reported using the optional onReconnecting() and onReconnected() callbacks.
+     *
+     * Note that the client only reconnects if the connection was successfully established once, an initial connect failure is reported as before.
+     *
+     * @param enabled True to enable automatic reconnection, false to disable it.
+     * @param options Optional backoff configuration, see SIReconnectOptions for defaults.
+     */
+    public setAutoReconnect(enabled: boolean, options: Partial<SIReconnectOptions> = {}) {
+        this.reconnectOptions = enabled ? reconnectOptionsWithDefaults(options) : undefined;
     }
 
-    public setDebugEnabled(enabled: boolean) {
-        if (this.debug !== enabled) {
-            if (enabled)
-                console.info("Debug enabled.");
-            else
-                console.info("Debug disabled.");
-        }
-        this.debug = enabled;
+    /**
+     * Enables or disables the liveness check of the connection. If enabled, the client sends a lightweight probe to the gateway once no frame has been received for the configured interval.
+     * If the gateway does not respond in time, the error "heartbeat timeout" is reported using the onError() callback and the connection is closed and handled like any other connection
+     * loss, so the client reconnects if automatic reconnection is enabled. This detects half-open connections and gateways that stopped responding.
+     *
+     * The probes read the property given by the probePropertyId option, which is required unless probes are disabled. The responses to the probes are not reported using the callbacks,
+     * responses to reads of the same property by the application are reported as usual.
+     *
+     * @param enabled True to enable the liveness check, false to disable it.
+     * @param options Optional configuration, see SIHeartbeatOptions for defaults.
+     */
+    public setHeartbeat(enabled: boolean, options: Partial<SIHeartbeatOptions> = {}) {
+        this.heartbeat.setOptions(enabled ? heartbeatOptionsWithDefaults(options) : undefined);
+    }
+
+    /**
+     * Sets the recorder capturing all frames sent to and received from the gateway, for example a SIJsonlTrafficRecorder. Recordings can be replayed using the SITrafficReplay of the
+     * openstuder-mock module in order to reproduce a session deterministically.
+     *
+     * By default the password of the AUTHORIZE frame is replaced by "***" in the recording, the frame is only recorded as sent if recordCredentials is explicitly enabled.
+     *
+     * @param recorder Recorder to use, undefined to stop recording.
+     * @param recordCredentials True to record the password passed to connect() in plaintext.
+     */
+    public setTrafficRecorder(recorder: SITrafficRecorder | undefined, recordCredentials: boolean = false) {
+        this.recorder = recorder;
+        this.recordCredentials = recordCredentials;
     }
 
     /**
@@ -1216,6 +3907,68 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
         this.callbacks = siGatewayCallback;
     }
 
+    /**
+     * Returns the store holding the last known value of all properties read or updated by the client. Values are marked stale if the connection is lost.
+     *
+     * @return Property store of the client.
+     */
+    public getPropertyStore(): SIPropertyStore {
+        return this.propertyStore;
+    }
+
+    /**
+     * Adds a listener for the given event. In contrast to setCallback(), any number of listeners can be added and only the events of interest need to be handled. Listeners are called after
+     * the callbacks object set using setCallback(), with the same arguments as the corresponding callback method, see SIGatewayClientCallbacks for details.
+     *
+     * @param event Name of the event, for example "propertyUpdated" for the event reported to onPropertyUpdated().
+     * @param listener Listener to call whenever the event occurs.
+     */
+    public addEventListener<E extends SIEventName<SIGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGatewayClientCallbacks, E>): void;
+    public addEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+    public addEventListener(event: string, listener: any): void {
+        this.listeners.add(event, listener);
+    }
+
+    /**
+     * Removes a listener added before using addEventListener() or on().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     */
+    public removeEventListener<E extends SIEventName<SIGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGatewayClientCallbacks, E>): void;
+    public removeEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+    public removeEventListener(event: string, listener: any): void {
+        this.listeners.remove(event, listener);
+    }
+
+    /**
+     * Shorthand for addEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to call whenever the event occurs.
+     * @return The client itself to allow chaining.
+     */
+    public on<E extends SIEventName<SIGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGatewayClientCallbacks, E>): this;
+    public on<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
+    public on(event: string, listener: any): this {
+        this.listeners.add(event, listener);
+        return this;
+    }
+
+    /**
+     * Shorthand for removeEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     * @return The client itself to allow chaining.
+     */
+    public off<E extends SIEventName<SIGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGatewayClientCallbacks, E>): this;
+    public off<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
+    public off(event: string, listener: any): this {
+        this.listeners.remove(event, listener);
+        return this;
+    }
+
     /**
      * Establishes the WebSocket connection to the OpenStuder gateway and executes the user authorization process once the connection has been established.
      * The status of the connection attempt is reported either by the on_connected() callback on success or the on_error() callback if the connection could not be established or the authorization
@@ -1235,24 +3988,21 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
             host = `ws://${host}`
         }
 
-        if (this.debug) {
-            console.debug(`Connecting to ${host}:${port}, user=${user || '(none)'}, password=${password || '(none)'}, connectionTimeout=${connectionTimeout}.`);
-        }
+        this.log.debug(SILogCategory.CONNECTION, `Connecting to ${host}:${port}, user=${user || '(none)'}, password=${this.log.secret(password)}, connectionTimeout=${connectionTimeout}.`);
 
         // Save parameter for later use.
+        this.url = host + ':' + port;
         this.user = user || "";
         this.password = password || "";
+        this.connectTimeoutDuration = connectionTimeout;
 
-        // Connect to WebSocket server.
-        this.state = SIConnectionState.CONNECTING;
-        this.ws = new WebSocket(host + ':' + port);
-        this.ws.onopen = this.onOpen;
-        this.ws.onmessage = this.onMessage;
-        this.ws.onerror = this.onError;
-        this.ws.onclose = this.onClose;
+        // Property types and subscriptions of a previous connection might not be valid for this gateway.
+        this.propertyTypes.clear();
+        this.activeSubscriptions.clear();
+        this.reconnectAttempt = 0;
+        this.closeRequested = false;
 
-        // Start connection timeout.
-        this.connectionTimeout = window.setTimeout(this.onConnectTimeout, connectionTimeout);
+        this.open();
     }
 
     /**
@@ -1287,6 +4037,45 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
         return this.availableExtensions;
     }
 
+    /**
+     * Returns the protocol version negotiated with the gateway. The client advertises all protocol versions it supports during authorization and the gateway picks the highest version it
+     * supports itself.
+     * @return Negotiated protocol version, 0 if the client was never authorized.
+     */
+    public getProtocolVersion(): number {
+        return this.capabilities?.protocolVersion ?? 0;
+    }
+
+    /**
+     * Returns the capabilities of the connected gateway, derived from the negotiated protocol version, the gateway version and the available extensions. See SIGatewayCapabilities for
+     * details.
+     * @return Capabilities of the gateway, undefined if the client was never authorized.
+     */
+    public getCapabilities(): SIGatewayCapabilities | undefined {
+        return this.capabilities;
+    }
+
+    /**
+     * Configures a capability derived from the protocol version, the gateway version and the available extensions, for example to use a feature only if the gateway is recent enough:
+     *
+     *     client.setCapabilityRule("fast-datalog", {minGatewayVersion: "1.4.0"});
+     *     ...
+     *     if (client.getCapabilities()?.has("fast-datalog")) { ... }
+     *
+     * @param capability Name of the capability.
+     * @param rule Requirements for the capability, undefined to remove the capability.
+     */
+    public setCapabilityRule(capability: string, rule: SICapabilityRule | undefined) {
+        if (rule !== undefined) {
+            this.capabilityRules.set(capability, rule);
+        } else {
+            this.capabilityRules.delete(capability);
+        }
+        if (this.capabilities !== undefined) {
+            this.capabilities = new SIGatewayCapabilities(this.capabilities.protocolVersion, this.gatewayVersion, this.availableExtensions, this.capabilityRules);
+        }
+    }
+
     /**
      * Instructs the gateway to scan every configured and functional device access driver for new devices and remove devices that do not respond anymore.
      * The status of the operation and the number of devices present are reported using the onEnumerated() method of the SIGatewayClientCallbacks interface.
@@ -1294,10 +4083,11 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public enumerate() {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("ENUMERATE", () => this.enumerate())) return;
 
         // Encode and send ENUMERATE message to gateway.
+        this.requests.track(SIOperation.ENUMERATE, "ENUMERATED", undefined, () => SIGatewayClient.encodeTimeoutFrame("ENUMERATED", [["status", "Timeout"], ["device_count", 0]]));
         this.send(SIGatewayClient.encodeEnumerateFrame());
     }
 
@@ -1307,7 +4097,9 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
      *
      * The flags control the level of detail in the gateway's response.
      *
-     * The description is reported using the onDescription() method of the SIGatewayClientCallbacks interface.
+     * The description is reported using the onDescription() method of the SIGatewayClientCallbacks interface. The property types contained in the description are remembered by the
+     * client and used to decode the values of subsequent property reads and updates.
+     * Use parseDescription() to convert the reported description into a typed object model.
      *
      * @param deviceAccessId: Device access ID for which the description should be retrieved.
      * @param deviceId Device ID for which the description should be retrieved. Note that device_access_id must be present too.
@@ -1316,10 +4108,12 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public describe(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("DESCRIBE", () => this.describe(deviceAccessId, deviceId, propertyId, flags))) return;
 
         // Encode and send DESCRIBE message to gateway.
+        const id = describeId(deviceAccessId, deviceId, propertyId);
+        this.requests.track(SIOperation.DESCRIBE, "DESCRIPTION", id, () => SIGatewayClient.encodeTimeoutFrame("DESCRIPTION", [["status", "Timeout"], ["id", id]]));
         this.send(SIGatewayClient.encodeDescribeFrame(deviceAccessId, deviceId, propertyId, flags));
     }
 
@@ -1337,10 +4131,13 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public findProperties(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("FIND PROPERTIES", () => this.findProperties(propertyId, virtual, functionMask))) return;
 
         // Encode and send FIND PROPERTIES message to gateway.
+        this.requests.track(SIOperation.FIND_PROPERTIES, "PROPERTIES FOUND", propertyId, () => SIGatewayClient.encodeTimeoutFrame("PROPERTIES FOUND", [
+            ["status", "Timeout"], ["id", propertyId], ["count", 0], ["virtual", virtual ? "true" : "false"], ["functions", functionMask ? deviceFunctionsToStrings(functionMask).join(",") : undefined]
+        ]));
         this.send(SIGatewayClient.encodeFindPropertiesFrame(propertyId, virtual, functionMask));
     }
 
@@ -1352,250 +4149,716 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public readProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ PROPERTY", () => this.readProperty(propertyId))) return;
 
         // Encode and send READ PROPERTY message to gateway.
+        this.requests.track(SIOperation.READ_PROPERTY, "PROPERTY READ", propertyId, () => SIGatewayClient.encodeTimeoutFrame("PROPERTY READ", [["status", "Timeout"], ["id", propertyId]]));
         this.send(SIGatewayClient.encodeReadPropertyFrame(propertyId));
     }
 
     /**
-     * This method is used to retrieve the actual value of multiple property at the same time from the connected gateway. The properties are identified by the propertyIds parameter.
-     * The status of the multiple read operations and the actual value of the properties are reported using the onPropertiesRead() method of the SIGatewayClientCallbacks interface.
+     * This method is used to retrieve the actual value of multiple property at the same time from the connected gateway. The properties are identified by the propertyIds parameter.
+     * The status of the multiple read operations and the actual value of the properties are reported using the onPropertiesRead() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyIds The IDs of the properties to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public readProperties(propertyIds: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ PROPERTIES", () => this.readProperties(propertyIds))) return;
+
+        // Encode and send READ PROPERTIES message to gateway.
+        this.requests.track(SIOperation.READ_PROPERTY, "PROPERTIES READ", undefined, () => SIGatewayClient.encodeTimeoutFrame("PROPERTIES READ", [["status", "Success"]],
+            JSON.stringify(propertyIds.map(id => ({status: "Timeout", id: id})))));
+        this.send(SIGatewayClient.encodeReadPropertiesFrame(propertyIds));
+    }
+
+    /**
+     * The writeProperty() method is used to change the actual value of a given property. The property is identified by the propertyId parameter and the new value is passed by the optional value
+     * parameter.
+     *
+     * This value parameter is optional as it is possible to write to properties with the data type "Signal" where there is no actual value written, the write operation rather triggers an action
+     * on the device.
+     *
+     * The status of the write operation is reported using the onPropertyWritten() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyId The ID of the property to write in the form '{device access ID}.{<device ID}.{<property ID}'.
+     * @param value Optional value to write.
+     * @param flags Write flags, See SIWriteFlags for details, if not provided the flags are not send by the client and the gateway uses the default flags.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public writeProperty(propertyId: string, value?: any, flags?: SIWriteFlags) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("WRITE PROPERTY", () => this.writeProperty(propertyId, value, flags))) return;
+
+        // Encode and send WRITE PROPERTY message to gateway.
+        this.requests.track(SIOperation.WRITE_PROPERTY, "PROPERTY WRITTEN", propertyId, () => SIGatewayClient.encodeTimeoutFrame("PROPERTY WRITTEN", [["status", "Timeout"], ["id", propertyId]]));
+        this.send(SIGatewayClient.encodeWritePropertyFrame(propertyId, value, flags));
+    }
+
+    /**
+     * This method can be used to subscribe to a property on the connected gateway. The property is identified by the propertyId parameter.
+     *
+     * The status of the subscribe request is reported using the onPropertySubscribed() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public subscribeToProperty(propertyId: string) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("SUBSCRIBE PROPERTY", () => this.subscribeToProperty(propertyId))) return;
+
+        // Encode and send SUBSCRIBE PROPERTY message to gateway.
+        this.requests.track(SIOperation.SUBSCRIBE_PROPERTY, "PROPERTY SUBSCRIBED", propertyId, () => SIGatewayClient.encodeTimeoutFrame("PROPERTY SUBSCRIBED", [["status", "Timeout"], ["id", propertyId]]));
+        this.send(SIGatewayClient.encodeSubscribePropertyFrame(propertyId));
+    }
+
+    /**
+     * This method can be used to subscribe to multiple properties on the connected gateway. The properties are identified by the propertyIds parameter.
+     *
+     * The status of the subscribe request is reported using the onPropertiesSubscribed() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public subscribeToProperties(propertyIds: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("SUBSCRIBE PROPERTIES", () => this.subscribeToProperties(propertyIds))) return;
+
+        // Encode and send SUBSCRIBE PROPERTIES message to gateway.
+        this.requests.track(SIOperation.SUBSCRIBE_PROPERTY, "PROPERTIES SUBSCRIBED", undefined, () => SIGatewayClient.encodeTimeoutFrame("PROPERTIES SUBSCRIBED", [["status", "Success"]],
+            JSON.stringify(propertyIds.map(id => ({status: "Timeout", id: id})))));
+        this.send(SIGatewayClient.encodeSubscribePropertiesFrame(propertyIds));
+
+    }
+
+    /**
+     * This method can be used to unsubscribe from a property on the connected gateway. The property is identified by the propertyId parameter.
+     *
+     * The status of the unsubscribe request is reported using the onPropertyUnsubscribed() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyId The ID of the property to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public unsubscribeFromProperty(propertyId: string) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("UNSUBSCRIBE PROPERTY", () => this.unsubscribeFromProperty(propertyId))) return;
+
+        // Encode and send UNSUBSCRIBE PROPERTY message to gateway.
+        this.requests.track(SIOperation.UNSUBSCRIBE_PROPERTY, "PROPERTY UNSUBSCRIBED", propertyId, () => SIGatewayClient.encodeTimeoutFrame("PROPERTY UNSUBSCRIBED", [["status", "Timeout"], ["id", propertyId]]));
+        this.send(SIGatewayClient.encodeUnsubscribePropertyFrame(propertyId));
+    }
+
+    /**
+     * This method can be used to unsubscribe from multiple properties on the connected gateway. The properties are identified by the propertyIds parameter.
+     *
+     * The status of the unsubscribe request is reported using the onPropertiesUnsubscribed() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyId The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public unsubscribeFromProperties(propertyId: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("UNSUBSCRIBE PROPERTIES", () => this.unsubscribeFromProperties(propertyId))) return;
+
+        // Encode and send UNSUBSCRIBE PROPERTY message to gateway.
+        this.requests.track(SIOperation.UNSUBSCRIBE_PROPERTY, "PROPERTIES UNSUBSCRIBED", undefined, () => SIGatewayClient.encodeTimeoutFrame("PROPERTIES UNSUBSCRIBED", [["status", "Success"]],
+            JSON.stringify(propertyId.map(id => ({status: "Timeout", id: id})))));
+        this.send(SIGatewayClient.encodeUnsubscribePropertiesFrame(propertyId));
+    }
+
+    /**
+     * This method is used to retrieve the list of IDs of all properties for whom data is logged on the gateway. If a time window is given using from and to, only data in this time windows is
+     * considered.
+     *
+     * The status of the operation is the list of properties for whom logged data is available are reported using the onDatalogPropertiesRead() method of the SIGatewayClientCallbacks interface.
+
+     * @param dateFrom Optional date and time of the start of the time window to be considered.
+     * @param dateTo Optional date and time of the end of the time window to be considered.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public readDatalogProperties(dateFrom?: Date, dateTo?: Date) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ DATALOG", () => this.readDatalogProperties(dateFrom, dateTo))) return;
+
+        // Encode and send READ DATALOG message to gateway.
+        this.requests.track(SIOperation.READ_DATALOG, "DATALOG READ", undefined, () => SIGatewayClient.encodeTimeoutFrame("DATALOG READ", [["status", "Timeout"], ["count", 0]]));
+        this.send(SIGatewayClient.encodeReadDatalogFrame(undefined, dateFrom, dateTo, undefined))
+    }
+
+    /**
+     * This method is used to retrieve all or a subset of logged data of a given property from the gateway.
+     *
+     * The status of this operation and the respective values are reported using the onDatalogRead() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of results retrieved in total.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public readDatalog(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ DATALOG", () => this.readDatalog(propertyId, dateFrom, dateTo, limit))) return;
+
+        // Encode and send READ DATALOG message to gateway.
+        this.requests.track(SIOperation.READ_DATALOG, "DATALOG READ", propertyId, () => SIGatewayClient.encodeTimeoutFrame("DATALOG READ", [["status", "Timeout"], ["id", propertyId], ["count", 0]]));
+        this.send(SIGatewayClient.encodeReadDatalogFrame(propertyId, dateFrom, dateTo, limit));
+    }
+
+    /**
+     * The readMessages() method can be used to retrieve all or a subset of stored messages send by device on all buses in the past from the gateway.
+     *
+     * The status of this operation and the retrieved messages are reported using the onMessagesRead() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param dateFrom Optional date and time from which the messages have to be retrieved, defaults to the oldest message saved.
+     * @param dateTo Optional date and time to which the messages have to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of messages retrieved in total.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public readMessages(dateFrom?: Date, dateTo?: Date, limit?: number) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ MESSAGES", () => this.readMessages(dateFrom, dateTo, limit))) return;
+
+        // Encode and send READ MESSAGES message to gateway.
+        this.requests.track(SIOperation.READ_MESSAGES, "MESSAGES READ", undefined, () => SIGatewayClient.encodeTimeoutFrame("MESSAGES READ", [["status", "Timeout"], ["count", 0]]));
+        this.send(SIGatewayClient.encodeReadMessagesFrame(dateFrom, dateTo, limit));
+    }
+
+    /**
+     * Runs an extension command on the gateway and returns the result of that operation. The function
+     * availableExtensions() can be user to get the list of extensions that are available on the connected gateway.
+     *
+     * The status of this operation and the command results are reported using the onExtensionCalled() method of the SIGatewayClientCallbacks interface.
+     *
+     * @param extension Extension to use.
+     * @param command Command to run on that extension.
+     * @param parameters Parameters (key/value) to pass to the command, see extension documentation for details.
+     * @param body Body to pass to the command, see extension documentation for details.
+     */
+    public callExtension(extension: string, command: string, parameters: Map<string,string> = new Map<string,string>(), body: string | undefined = undefined) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("CALL EXTENSION", () => this.callExtension(extension, command, parameters, body))) return;
+
+        // Encode and send LIST EXTENSIONS message to gateway.
+        this.requests.track(SIOperation.CALL_EXTENSION, "EXTENSION CALLED", `${extension}.${command}`, () => SIGatewayClient.encodeTimeoutFrame("EXTENSION CALLED", [
+            ["extension", extension], ["command", command], ["status", "Error"]
+        ]));
+        this.send(SIGatewayClient.encodeCallExtensionFrame(extension, command, parameters, body));
+    }
+
+    /**
+     * Same as enumerate(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onEnumerated() callback is called too.
+     *
+     * @return Promise resolving to the result of the enumeration.
+     */
+    public enumerateAsync(): Promise<SIEnumerateResult> {
+        return this.request("ENUMERATED", undefined, () => this.enumerate());
+    }
+
+    /**
+     * Same as describe(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDescription() callback is called too.
+     *
+     * @param deviceAccessId: Device access ID for which the description should be retrieved.
+     * @param deviceId Device ID for which the description should be retrieved. Note that device_access_id must be present too.
+     * @param propertyId Property ID for which the description should be retrieved. Note that device_access_id and device_id must be present too.
+     * @param flags Flags to control level of detail of the response.
+     * @return Promise resolving to the description.
+     */
+    public describeAsync(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]): Promise<SIDescriptionResult> {
+        return this.request("DESCRIPTION", describeId(deviceAccessId, deviceId, propertyId), () => this.describe(deviceAccessId, deviceId, propertyId, flags));
+    }
+
+    /**
+     * Same as findProperties(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesFound() callback is called too.
+     *
+     * @param propertyId: The search wildcard ID.
+     * @param virtual: Optional to filter for virtual devices (true) or non-virtual devices (false, default).
+     * @param functionMask: Optional to filter for device functions. See SIDeviceFunctions for details. Defaults to all functions (SIDeviceFunctions.ALL).
+     * @return Promise resolving to the properties found.
+     */
+    public findPropertiesAsync(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>): Promise<SIPropertiesFoundResult> {
+        return this.request("PROPERTIES FOUND", propertyId, () => this.findProperties(propertyId, virtual, functionMask));
+    }
+
+    /**
+     * Same as readProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyRead() callback is called too.
+     *
+     * @param propertyId The ID of the property to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the property read result.
+     */
+    public readPropertyAsync(propertyId: string): Promise<SIPropertyReadResult> {
+        return this.request("PROPERTY READ", propertyId, () => this.readProperty(propertyId));
+    }
+
+    /**
+     * Same as readProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesRead() callback is called too.
      *
      * @param propertyIds The IDs of the properties to read in the form '{device access ID}.{device ID}.{property ID}'.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the list of property read results.
      */
-    public readProperties(propertyIds: string[]) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send READ PROPERTIES message to gateway.
-        this.send(SIGatewayClient.encodeReadPropertiesFrame(propertyIds));
+    public readPropertiesAsync(propertyIds: string[]): Promise<SIPropertyReadResult[]> {
+        return this.request("PROPERTIES READ", undefined, () => this.readProperties(propertyIds));
     }
 
     /**
-     * The writeProperty() method is used to change the actual value of a given property. The property is identified by the propertyId parameter and the new value is passed by the optional value
-     * parameter.
-     *
-     * This value parameter is optional as it is possible to write to properties with the data type "Signal" where there is no actual value written, the write operation rather triggers an action
-     * on the device.
-     *
-     * The status of the write operation is reported using the onPropertyWritten() method of the SIGatewayClientCallbacks interface.
+     * Same as writeProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyWritten() callback is called too.
      *
      * @param propertyId The ID of the property to write in the form '{device access ID}.{<device ID}.{<property ID}'.
      * @param value Optional value to write.
      * @param flags Write flags, See SIWriteFlags for details, if not provided the flags are not send by the client and the gateway uses the default flags.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the property write result.
      */
-    public writeProperty(propertyId: string, value?: any, flags?: SIWriteFlags) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send WRITE PROPERTY message to gateway.
-        this.send(SIGatewayClient.encodeWritePropertyFrame(propertyId, value, flags));
+    public writePropertyAsync(propertyId: string, value?: any, flags?: SIWriteFlags): Promise<SIPropertyWriteResult> {
+        return this.request("PROPERTY WRITTEN", propertyId, () => this.writeProperty(propertyId, value, flags));
     }
 
     /**
-     * This method can be used to subscribe to a property on the connected gateway. The property is identified by the propertyId parameter.
-     *
-     * The status of the subscribe request is reported using the onPropertySubscribed() method of the SIGatewayClientCallbacks interface.
+     * Same as subscribeToProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertySubscribed() callback is called too.
      *
      * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the subscription result.
      */
-    public subscribeToProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send SUBSCRIBE PROPERTY message to gateway.
-        this.send(SIGatewayClient.encodeSubscribePropertyFrame(propertyId));
+    public subscribeToPropertyAsync(propertyId: string): Promise<SISubscriptionsResult> {
+        return this.request("PROPERTY SUBSCRIBED", propertyId, () => this.subscribeToProperty(propertyId));
     }
 
     /**
-     * This method can be used to subscribe to multiple properties on the connected gateway. The properties are identified by the propertyIds parameter.
-     *
-     * The status of the subscribe request is reported using the onPropertiesSubscribed() method of the SIGatewayClientCallbacks interface.
+     * Same as subscribeToProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesSubscribed() callback is called too.
      *
      * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the list of subscription results.
      */
-    public subscribeToProperties(propertyIds: string[]) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send SUBSCRIBE PROPERTIES message to gateway.
-        this.send(SIGatewayClient.encodeSubscribePropertiesFrame(propertyIds));
-
+    public subscribeToPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]> {
+        return this.request("PROPERTIES SUBSCRIBED", undefined, () => this.subscribeToProperties(propertyIds));
     }
 
     /**
-     * This method can be used to unsubscribe from a property on the connected gateway. The property is identified by the propertyId parameter.
-     *
-     * The status of the unsubscribe request is reported using the onPropertyUnsubscribed() method of the SIGatewayClientCallbacks interface.
+     * Same as unsubscribeFromProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyUnsubscribed() callback is called too.
      *
      * @param propertyId The ID of the property to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the unsubscription result.
      */
-    public unsubscribeFromProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send UNSUBSCRIBE PROPERTY message to gateway.
-        this.send(SIGatewayClient.encodeUnsubscribePropertyFrame(propertyId));
+    public unsubscribeFromPropertyAsync(propertyId: string): Promise<SISubscriptionsResult> {
+        return this.request("PROPERTY UNSUBSCRIBED", propertyId, () => this.unsubscribeFromProperty(propertyId));
     }
 
     /**
-     * This method can be used to unsubscribe from multiple properties on the connected gateway. The properties are identified by the propertyIds parameter.
-     *
-     * The status of the unsubscribe request is reported using the onPropertiesUnsubscribed() method of the SIGatewayClientCallbacks interface.
+     * Same as unsubscribeFromProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesUnsubscribed() callback is called too.
      *
-     * @param propertyId The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @param propertyIds The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of unsubscription results.
      */
-    public unsubscribeFromProperties(propertyId: string[]) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send UNSUBSCRIBE PROPERTY message to gateway.
-        this.send(SIGatewayClient.encodeUnsubscribePropertiesFrame(propertyId));
+    public unsubscribeFromPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]> {
+        return this.request("PROPERTIES UNSUBSCRIBED", undefined, () => this.unsubscribeFromProperties(propertyIds));
     }
 
     /**
-     * This method is used to retrieve the list of IDs of all properties for whom data is logged on the gateway. If a time window is given using from and to, only data in this time windows is
-     * considered.
+     * Same as readDatalogProperties(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDatalogPropertiesRead() callback is called too.
      *
-     * The status of the operation is the list of properties for whom logged data is available are reported using the onDatalogPropertiesRead() method of the SIGatewayClientCallbacks interface.
-
      * @param dateFrom Optional date and time of the start of the time window to be considered.
      * @param dateTo Optional date and time of the end of the time window to be considered.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the list of properties with logged data.
      */
-    public readDatalogProperties(dateFrom?: Date, dateTo?: Date) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send READ DATALOG message to gateway.
-        this.send(SIGatewayClient.encodeReadDatalogFrame(undefined, dateFrom, dateTo, undefined))
+    public readDatalogPropertiesAsync(dateFrom?: Date, dateTo?: Date): Promise<SIDatalogPropertiesResult> {
+        return this.request("DATALOG READ", undefined, () => this.readDatalogProperties(dateFrom, dateTo));
     }
 
     /**
-     * This method is used to retrieve all or a subset of logged data of a given property from the gateway.
-     *
-     * The status of this operation and the respective values are reported using the onDatalogRead() method of the SIGatewayClientCallbacks interface.
+     * Same as readDatalog(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDatalogRead() callback is called too.
      *
      * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
      * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
      * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
      * @param limit Using this optional parameter you can limit the number of results retrieved in total.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the logged data.
      */
-    public readDatalog(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send READ DATALOG message to gateway.
-        this.send(SIGatewayClient.encodeReadDatalogFrame(propertyId, dateFrom, dateTo, limit));
+    public readDatalogAsync(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIDatalogReadResult> {
+        return this.request("DATALOG READ", propertyId, () => this.readDatalog(propertyId, dateFrom, dateTo, limit));
     }
 
     /**
-     * The readMessages() method can be used to retrieve all or a subset of stored messages send by device on all buses in the past from the gateway.
+     * Reads the logged data of a property in pages and returns an async iterator yielding the entries in chronological order:
      *
-     * The status of this operation and the retrieved messages are reported using the onMessagesRead() method of the SIGatewayClientCallbacks interface.
+     *     for await (const entry of client.readDatalogPaged("xcom.11.3000", from, to, {onProgress: progress => bar.update(progress.fraction)})) {
+     *         console.log(entry.timestamp, entry.value);
+     *     }
+     *
+     * Instead of reading the whole time range at once, successive data log reads of at most pageSize entries each are sent, every read starting at the timestamp of the last entry read
+     * before. Entries received again at the page boundaries are skipped, as many entries as have been read at the boundary timestamp before, which requires the gateway to return
+     * entries sharing a timestamp in the same order on every read. The next page is only requested once all entries of the previous one have been consumed, leaving the loop or
+     * aborting the signal passed in the options cancels the read. The iteration fails if a read fails. Note that the onDatalogRead() callback is called for each page.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param options Optional page size, progress callback and cancellation signal, see SIDatalogPagingOptions for defaults.
+     * @return Async iterator yielding the logged values with their timestamps.
+     */
+    public readDatalogPaged(propertyId: string, dateFrom?: Date, dateTo?: Date, options: Partial<SIDatalogPagingOptions> = {}): AsyncIterableIterator<SIDataLogEntry> {
+        return new SIDatalogPager((from, to, limit) => this.readDatalogAsync(propertyId, from, to, limit), dateFrom, dateTo, options);
+    }
+
+    /**
+     * Same as readMessages(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onMessageRead() callback is called too.
      *
      * @param dateFrom Optional date and time from which the messages have to be retrieved, defaults to the oldest message saved.
      * @param dateTo Optional date and time to which the messages have to be retrieved, defaults to the current time on the gateway.
      * @param limit Using this optional parameter you can limit the number of messages retrieved in total.
-     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @return Promise resolving to the messages read.
      */
-    public readMessages(dateFrom?: Date, dateTo?: Date, limit?: number) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
-
-        // Encode and send READ MESSAGES message to gateway.
-        this.send(SIGatewayClient.encodeReadMessagesFrame(dateFrom, dateTo, limit));
+    public readMessagesAsync(dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIMessagesReadResult> {
+        return this.request("MESSAGES READ", undefined, () => this.readMessages(dateFrom, dateTo, limit));
     }
 
     /**
-     * Runs an extension command on the gateway and returns the result of that operation. The function
-     * availableExtensions() can be user to get the list of extensions that are available on the connected gateway.
-     *
-     * The status of this operation and the command results are reported using the onExtensionCalled() method of the SIGatewayClientCallbacks interface.
+     * Same as callExtension(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onExtensionCalled() callback is called too.
      *
      * @param extension Extension to use.
      * @param command Command to run on that extension.
      * @param parameters Parameters (key/value) to pass to the command, see extension documentation for details.
      * @param body Body to pass to the command, see extension documentation for details.
+     * @return Promise resolving to the result of the extension command.
      */
-    public callExtension(extension: string, command: string, parameters: Map<string,string> = new Map<string,string>(), body: string | undefined = undefined) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+    public callExtensionAsync(extension: string, command: string, parameters: Map<string,string> = new Map<string,string>(), body: string | undefined = undefined): Promise<SIExtensionCallResult<Map<string,string>>> {
+        return this.request("EXTENSION CALLED", `${extension}.${command}`, () => this.callExtension(extension, command, parameters, body));
+    }
 
-        // Encode and send LIST EXTENSIONS message to gateway.
-        this.send(SIGatewayClient.encodeCallExtensionFrame(extension, command, parameters, body));
+    /**
+     * Acquires a shared subscription to the given property. In contrast to subscribeToProperty(), the subscription is reference counted: The property is subscribed on the gateway when the
+     * first handle is acquired and only unsubscribed once all handles have been released, so independent parts of an application can subscribe to the same property. The result of the
+     * subscription, including failures, is reported to every holder through the result promise of the handle.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handle to the shared subscription.
+     */
+    public acquireSubscription(propertyId: string): SISubscriptionHandle {
+        return this.sharedSubscriptions.acquire([propertyId])[0];
     }
 
     /**
-     * Disconnects the client from the gateway.
+     * Acquires shared subscriptions to all given properties, see acquireSubscription() for details. Properties not subscribed yet are subscribed using a single request.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handles to the shared subscriptions in the same order as the property IDs.
+     */
+    public acquireSubscriptions(propertyIds: string[]): SISubscriptionHandle[] {
+        return this.sharedSubscriptions.acquire(propertyIds);
+    }
+
+    /**
+     * Subscribes to the given property and returns an async iterator yielding all updates of the property:
+     *
+     *     for await (const update of client.watchProperty("xcom.11.3000")) {
+     *         console.log(update.value);
+     *     }
+     *
+     * The property is subscribed using acquireSubscription(), leaving the loop releases the subscription. The iteration ends when the client is disconnected and fails
+     * if the property can not be subscribed. Updates not consumed yet are buffered, if the buffer is full the oldest update is dropped.
+     *
+     * @param propertyId The ID of the property to watch in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the property updates.
+     */
+    public watchProperty(propertyId: string, options: Partial<SIStreamOptions> = {}): AsyncIterableIterator<SIPropertyUpdate> {
+        const onUpdate = (id: string, value: any) => {
+            if (id === propertyId) {
+                queue.push({id: id, value: value});
+            }
+        };
+        const onDisconnected = () => queue.end();
+        const subscription = this.acquireSubscription(propertyId);
+        const queue = new SIAsyncQueue<SIPropertyUpdate>(options.bufferSize ?? 100, () => {
+            this.off("propertyUpdated", onUpdate);
+            this.off("disconnected", onDisconnected);
+            subscription.release();
+        });
+
+        this.on("propertyUpdated", onUpdate);
+        this.on("disconnected", onDisconnected);
+        subscription.result.then(result => {
+            if (result.status !== SIStatus.SUCCESS) {
+                queue.end(new SIProtocolError(`unable to subscribe to ${propertyId}, status=${result.status}`));
+            }
+        }).catch(error => queue.end(error));
+
+        return queue;
+    }
+
+    /**
+     * Returns an async iterator yielding all device messages broadcast by the gateway:
+     *
+     *     for await (const message of client.deviceMessages()) {
+     *         console.log(message.message);
+     *     }
+     *
+     * The iteration ends when the client is disconnected. Messages not consumed yet are buffered, if the buffer is full the oldest message is dropped.
+     *
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the device messages.
+     */
+    public deviceMessages(options: Partial<SIStreamOptions> = {}): AsyncIterableIterator<SIDeviceMessage> {
+        const onMessage = (message: SIDeviceMessage) => queue.push(message);
+        const onDisconnected = () => queue.end();
+        const queue = new SIAsyncQueue<SIDeviceMessage>(options.bufferSize ?? 100, () => {
+            this.off("deviceMessage", onMessage);
+            this.off("disconnected", onDisconnected);
+        });
+
+        this.on("deviceMessage", onMessage);
+        this.on("disconnected", onDisconnected);
+        return queue;
+    }
+
+    /**
+     * Disconnects the client from the gateway. If the client is currently trying to reconnect, the reconnection is aborted.
      */
     public disconnect() {
+        // Abort a running reconnection.
+        if (this.reconnectAttempt > 0 && this.state !== SIConnectionState.CONNECTED) {
+            this.closeRequested = true;
+            this.timers.clearTimeout(this.reconnectTimeout);
+            if (this.ws) {
+                this.ws.close();
+            } else {
+                this.onClose();
+            }
+            return;
+        }
+
         // Ensure that the client is in the CONNECTED state.
         this.ensureInState(SIConnectionState.CONNECTED);
 
-        if (this.debug) {
-            console.debug("Closing WebSocket connection.");
-        }
+        this.log.debug(SILogCategory.CONNECTION, "Closing WebSocket connection.");
 
         // Close the WebSocket.
+        this.closeRequested = true;
         this.ws?.close();
     }
 
+    private open = () => {
+        // Connect to WebSocket server.
+        try {
+            this.ws = this.webSocketFactory(this.url);
+        } catch (error: any) {
+            this.state = SIConnectionState.DISCONNECTED;
+            throw error;
+        }
+        this.state = SIConnectionState.CONNECTING;
+        this.ws.onopen = this.onOpen;
+        this.ws.onmessage = this.onReceive;
+        this.ws.onerror = this.onError;
+        this.ws.onclose = this.onClose;
+
+        // Start connection timeout.
+        this.connectionTimeout = this.timers.setTimeout(this.onConnectTimeout, this.connectTimeoutDuration);
+    };
+
+    private reopen = () => {
+        // Creating the WebSocket can fail right away, which is handled like any other failed reconnection attempt.
+        try {
+            this.open();
+        } catch (error: any) {
+            this.log.error(SILogCategory.CONNECTION, `Reconnection failed: ${error}`);
+
+            this.emitError(error instanceof SIProtocolError ? error : new SITransportError(error?.message || String(error), {cause: error}));
+            this.onClose();
+        }
+    };
+
+    private restoreSubscriptions() {
+        if (this.activeSubscriptions.size > 0) {
+            this.log.debug(SILogCategory.CONNECTION, `Restoring ${this.activeSubscriptions.size} property subscriptions.`);
+
+            this.requests.trackInternal("restore", "PROPERTIES SUBSCRIBED", undefined);
+            this.send(SIGatewayClient.encodeSubscribePropertiesFrame(Array.from(this.activeSubscriptions)));
+        }
+    }
+
+    private onSubscriptionsRestored(frame: string) {
+        let results: SISubscriptionsResult[];
+        try {
+            results = SIGatewayClient.decodePropertiesSubscribedFrame(frame);
+        } catch (error: any) {
+            this.emitError(error instanceof SIProtocolError ? error : new SIProtocolError(error.toString(), {frame: frame, cause: error}));
+            this.onSubscriptionsRestoreFailed(error.message);
+            return;
+        }
+
+        // Forget the properties that could not be subscribed again.
+        results.filter(it => it.status !== SIStatus.SUCCESS).forEach(it => {
+            this.log.warning(SILogCategory.PROTOCOL, `Unable to restore subscription to ${it.id}, status=${it.status}`);
+            this.activeSubscriptions.delete(it.id);
+        });
+    }
+
+    private onSubscriptionsRestoreFailed(reason: string) {
+        // None of the properties has been subscribed again, the responses to subscriptions requested by the application after reconnect follow the failed restore.
+        this.log.warning(SILogCategory.PROTOCOL, `Unable to restore subscriptions: ${reason}`);
+        this.activeSubscriptions.clear();
+    }
+
+    private updateActiveSubscriptions(results: SISubscriptionsResult[], subscribed: boolean) {
+        results.filter(it => it.status === SIStatus.SUCCESS).forEach(it => {
+            if (subscribed) {
+                this.activeSubscriptions.add(it.id);
+            } else {
+                this.activeSubscriptions.delete(it.id);
+            }
+        });
+    }
+
+    private isQueueing(): boolean {
+        return this.commandQueueing && (this.state === SIConnectionState.CONNECTING || this.state === SIConnectionState.AUTHORIZING);
+    }
+
+    private queueUntilConnected(command: string, send: () => void): boolean {
+        if (this.isQueueing()) {
+            this.log.debug(SILogCategory.CONNECTION, `Queueing ${command} until connected.`);
+            this.queuedCommands.push({command: command, send: send});
+            return true;
+        }
+        this.ensureInState(SIConnectionState.CONNECTED);
+        return false;
+    }
+
+    private flushQueuedCommands() {
+        const queuedCommands = this.queuedCommands;
+        this.queuedCommands = [];
+        queuedCommands.forEach(it => {
+            try {
+                it.send();
+            } catch (error: any) {
+                this.emitError(new SIProtocolError(`${it.command} failed: ${error.message || error.toString()}`, {command: it.command, cause: error}));
+            }
+        });
+    }
+
+    private failQueuedCommands(type: new (message: string, details?: SIErrorDetails) => SIProtocolError, reason: string) {
+        const queuedCommands = this.queuedCommands;
+        this.queuedCommands = [];
+        queuedCommands.forEach(it => this.emitError(new type(`${it.command} failed: ${reason}`, {command: it.command})));
+    }
+
     private ensureInState(state: SIConnectionState) {
         if (state !== this.state) {
-            if (this.debug) {
-                console.error(`Invalid client state! required=${state}, effective=${this.state}`);
-            }
+            this.log.error(SILogCategory.PROTOCOL, `Invalid client state! required=${state}, effective=${this.state}`);
 
-            throw new SIProtocolError("invalid client state");
+            throw new SIInvalidStateError("invalid client state");
         }
     }
 
     private send(frame: string) {
-        if (this.debug) {
-            console.debug("WebSocket TX:\n\n" + frame);
+        this.log.debug(SILogCategory.TX, () => "WebSocket TX:\n\n" + this.log.redact(frame, SIGatewayClient.redactAuthorizeFrame));
+
+        if (this.ws) {
+            this.record("tx", frame);
+            this.ws.send(frame);
+        }
+    }
+
+    private record(direction: "tx" | "rx", frame: string) {
+        if (this.recorder !== undefined) {
+            const data = direction === "tx" && !this.recordCredentials ? SIGatewayClient.redactAuthorizeFrame(frame) : frame;
+            this.recorder.record({timestamp: Date.now(), transport: "websocket", direction: direction, data: data});
+        }
+    }
+
+    private learnPropertyTypes(description: string, id?: string) {
+        collectPropertyTypes(this.parseDescription(description), id ? id.split(".") : [], this.propertyTypes);
+    }
+
+    private parseDescription(description?: string): any {
+        if (description === undefined) return undefined;
+        try {
+            return JSON.parse(description);
+        } catch (error: any) {
+            this.log.warning(SILogCategory.PROTOCOL, `Unable to parse description: ${error.toString()}`);
+            return description;
+        }
+    }
+
+    private emit<E extends SIEventName<SIGatewayClientCallbacks>>(event: E, ...args: SIEventArgs<SIGatewayClientCallbacks, E>) {
+        this.listeners.emit(this.callbacks, event, args);
+    }
+
+    private emitError(error: SIProtocolError) {
+        this.emit("error", error.message, error);
+    }
+
+    private request<T>(response: string, key: string | undefined, send: () => void): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            // Send the request first, if this fails (invalid state) the promise gets rejected.
+            send();
+            this.pendingRequests.push({response: response, key: key, resolve: resolve, reject: reject});
+        });
+    }
+
+    private resolvePendingRequest(response: string, key: string | undefined, result: any) {
+        // Responses with the same type and key are returned in order, so the oldest request with the same type and key is resolved.
+        const index = this.pendingRequests.findIndex(it => it.response === response && it.key === key);
+        if (index >= 0) {
+            this.pendingRequests.splice(index, 1)[0].resolve(result);
+        }
+    }
+
+    private rejectPendingRequest(response: string, key: string | undefined, reason: any) {
+        const index = this.pendingRequests.findIndex(it => it.response === response && it.key === key);
+        if (index >= 0) {
+            this.pendingRequests.splice(index, 1)[0].reject(reason);
         }
+    }
 
-        this.ws?.send(frame);
+    private rejectAllPendingRequests(reason: any) {
+        const pendingRequests = this.pendingRequests;
+        this.pendingRequests = [];
+        pendingRequests.forEach(it => it.reject(reason));
     }
 
     private onConnectTimeout = () => {
         if (this.state === SIConnectionState.CONNECTING) {
-            if (this.debug) {
-                console.error(`WebSocket connection timeout!`);
-            }
+            this.log.error(SILogCategory.CONNECTION, `WebSocket connection timeout!`);
 
             this.ws?.close();
-            this.callbacks?.onError("connect timeout");
+            this.emitError(new SITimeoutError("connect timeout"));
         }
     };
 
     private onOpen = () => {
-        if (this.debug) {
-            console.debug(`WebSocket connection established.`);
-        }
+        this.log.debug(SILogCategory.CONNECTION, `WebSocket connection established.`);
 
-        clearTimeout(this.connectionTimeout);
+        this.timers.clearTimeout(this.connectionTimeout);
         this.state = SIConnectionState.AUTHORIZING;
-        let frame = SIGatewayClient.encodeAuthorizeFrame(this.user, this.password);
-        if (this.ws) {
-            this.ws.send(frame);
-        }
+        this.send(SIGatewayClient.encodeAuthorizeFrame(this.user, this.password));
     };
 
-    private onMessage = (event: MessageEvent) => {
-        if (this.debug) {
-            console.debug("WebSocket RX:\n\n" + event.data);
+    private onReceive = (event: { data: any }) => {
+        this.record("rx", event.data);
+
+        // Any frame proves that the connection is alive, the responses to the heartbeat probes are not reported.
+        if (this.state === SIConnectionState.CONNECTED && this.heartbeat.received(() => this.isHeartbeatResponse(event.data))) {
+            return;
         }
+        this.onMessage(event);
+    };
+
+    private onMessage = (event: { data: any }) => {
+        this.log.debug(SILogCategory.RX, () => "WebSocket RX:\n\n" + event.data);
 
         // Determine the actual command.
         let command: string = SIGatewayClient.peekFrameCommand(event.data);
@@ -1607,13 +4870,21 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
                 this.accessLevel = decoded.accessLevel;
                 this.gatewayVersion = decoded.gatewayVersion;
                 this.availableExtensions = decoded.extensions;
+                this.capabilities = new SIGatewayCapabilities(decoded.protocolVersion, decoded.gatewayVersion, decoded.extensions, this.capabilityRules);
 
                 // Change state to CONNECTED.
                 this.state = SIConnectionState.CONNECTED;
-
-                // Call callback if present.
-                if (this.callbacks) {
-                    this.callbacks.onConnected(this.accessLevel, this.gatewayVersion);
+                this.heartbeat.start();
+
+                if (this.reconnectAttempt > 0) {
+                    // Reconnected after connection loss, restore subscriptions and call callback if present.
+                    this.reconnectAttempt = 0;
+                    this.restoreSubscriptions();
+                    this.flushQueuedCommands();
+                    this.emit("reconnected", this.accessLevel, this.gatewayVersion);
+                } else {
+                    this.flushQueuedCommands();
+                    this.emit("connected", this.accessLevel, this.gatewayVersion);
                 }
             }
 
@@ -1621,179 +4892,254 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
             else if (this.state === SIConnectionState.CONNECTED) {
                 switch (command) {
                     case "ERROR": {
+                        // ERROR frames do not reference the request, so they are attributed to the oldest request sent.
+                        const request = this.requests.oldest();
+                        if (!this.requests.completeOldest()) break;
                         const reason = SIGatewayClient.decodeFrame(event.data).headers.get("reason") || 'unknown reason';
-                        if (this.debug) {
-                            console.error(`Protocol error: ${reason}`);
-                        }
-                        if (this.callbacks) {
-                            this.callbacks.onError(reason);
+                        this.log.error(SILogCategory.PROTOCOL, `Protocol error: ${reason}`);
+                        const error = new SIGatewayError(reason, {frame: event.data});
+                        this.emitError(error);
+                        if (request?.origin === "restore") {
+                            this.onSubscriptionsRestoreFailed(reason);
+                        } else if (request !== undefined) {
+                            this.rejectPendingRequest(request.response as string, request.key, error);
                         }
                         break;
                     }
 
                     case "ENUMERATED": {
                         const decoded = SIGatewayClient.decodeEnumerateFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onEnumerated(decoded.status, decoded.deviceCount);
-                        }
+                        if (!this.requests.complete(command, undefined)) break;
+                        this.emit("enumerated", decoded.status, decoded.deviceCount);
+                        this.resolvePendingRequest(command, undefined, decoded);
                         break;
                     }
 
 
                     case "DESCRIPTION": {
                         const decoded = SIGatewayClient.decodeDescriptionFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onDescription(decoded.status, decoded.description || '', decoded.id);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        if (decoded.status === SIStatus.SUCCESS && decoded.description) {
+                            this.learnPropertyTypes(decoded.description, decoded.id);
                         }
+                        this.emit("description", decoded.status, decoded.description || '', decoded.id);
+                        this.resolvePendingRequest(command, decoded.id, {...decoded, description: this.parseDescription(decoded.description)});
                         break;
                     }
 
                     case "PROPERTIES FOUND": {
                         const decoded = SIGatewayClient.decodePropertiesFoundFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertiesFound(decoded.status, decoded.id || '', decoded.count, decoded.virtual, decoded.functions, decoded.properties || []);
-                        }
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.emit("propertiesFound", decoded.status, decoded.id || '', decoded.count, decoded.virtual, decoded.functions, decoded.properties || []);
+                        this.resolvePendingRequest(command, decoded.id, {...decoded, id: decoded.id || '', properties: decoded.properties || []});
                         break;
                     }
 
                     case "PROPERTY READ": {
-                        const decoded = SIGatewayClient.decodePropertyReadFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertyRead(decoded.status, decoded.id, decoded.value);
-                        }
+                        const decoded = SIGatewayClient.decodePropertyReadFrame(event.data, this.propertyTypes);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.propertyStore.record(decoded.id, decoded.status, decoded.value, SIPropertySource.READ);
+                        this.emit("propertyRead", decoded.status, decoded.id, decoded.value);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case "PROPERTIES READ":
-                        let receivedPropertyResult = SIGatewayClient.decodePropertiesReadFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertiesRead(receivedPropertyResult);
-                        }
+                        let receivedPropertyResult = SIGatewayClient.decodePropertiesReadFrame(event.data, this.propertyTypes);
+                        if (!this.requests.complete(command, undefined)) break;
+                        receivedPropertyResult.forEach(it => this.propertyStore.record(it.id, it.status, it.value, SIPropertySource.READ));
+                        this.emit("propertiesRead", receivedPropertyResult);
+                        this.resolvePendingRequest(command, undefined, receivedPropertyResult);
                         break;
 
                     case "PROPERTY WRITTEN": {
                         const decoded = SIGatewayClient.decodePropertyWrittenFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertyWritten(decoded.status, decoded.id);
-                        }
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.emit("propertyWritten", decoded.status, decoded.id);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case "PROPERTY SUBSCRIBED": {
                         const decoded = SIGatewayClient.decodePropertySubscribedFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertySubscribed(decoded.status, decoded.id);
-                        }
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.updateActiveSubscriptions([decoded], true);
+                        this.emit("propertySubscribed", decoded.status, decoded.id);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case "PROPERTIES SUBSCRIBED":
-                        let receivedSubscriptionResult: SISubscriptionsResult[] = SIGatewayClient.decodePropertiesSubscribedFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertiesSubscribed(receivedSubscriptionResult);
+                        if (this.requests.completeInternal("restore", command, undefined)) {
+                            // Response to the subscriptions restored after reconnect.
+                            this.onSubscriptionsRestored(event.data);
+                            break;
                         }
+                        let receivedSubscriptionResult: SISubscriptionsResult[] = SIGatewayClient.decodePropertiesSubscribedFrame(event.data);
+                        if (!this.requests.complete(command, undefined)) break;
+                        this.updateActiveSubscriptions(receivedSubscriptionResult, true);
+                        this.emit("propertiesSubscribed", receivedSubscriptionResult);
+                        this.resolvePendingRequest(command, undefined, receivedSubscriptionResult);
                         break;
 
                     case "PROPERTY UNSUBSCRIBED": {
                         const decoded = SIGatewayClient.decodePropertyUnsubscribedFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertyUnsubscribed(decoded.status, decoded.id);
-                        }
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.updateActiveSubscriptions([decoded], false);
+                        this.emit("propertyUnsubscribed", decoded.status, decoded.id);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case "PROPERTIES UNSUBSCRIBED":
                         let receivedUnsubscriptionResult: SISubscriptionsResult[] = SIGatewayClient.decodePropertiesUnsubscribedFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onPropertiesUnsubscribed(receivedUnsubscriptionResult);
-                        }
+                        if (!this.requests.complete(command, undefined)) break;
+                        this.updateActiveSubscriptions(receivedUnsubscriptionResult, false);
+                        this.emit("propertiesUnsubscribed", receivedUnsubscriptionResult);
+                        this.resolvePendingRequest(command, undefined, receivedUnsubscriptionResult);
                         break;
 
                     case "PROPERTY UPDATE": {
-                        const decoded = SIGatewayClient.decodePropertyUpdateFrame(event.data);
-                        if (this.callbacks && decoded.id !== '') {
-                            this.callbacks.onPropertyUpdated(decoded.id, decoded.value);
+                        const decoded = SIGatewayClient.decodePropertyUpdateFrame(event.data, this.propertyTypes);
+                        if (decoded.id !== '') {
+                            this.propertyStore.record(decoded.id, SIStatus.SUCCESS, decoded.value, SIPropertySource.UPDATE);
+                            this.emit("propertyUpdated", decoded.id, decoded.value);
                         }
                         break;
                     }
 
                     case "DATALOG READ": {
-                        const decoded = SIGatewayClient.decodeDatalogReadFrame(event.data);
-                        if (this.callbacks) {
-                            if (decoded.id) {
-                                this.callbacks.onDatalogRead(decoded.status, decoded.id, decoded.count, decoded.results);
-                            } else {
-                                let properties = decoded.results.split("\n").filter((it) => it.length > 0);
-                                this.callbacks.onDatalogPropertiesRead(decoded.status, properties);
-                            }
+                        const decoded = SIGatewayClient.decodeDatalogReadFrame(event.data, this.malformedDatalogLineHandling, this.propertyTypes);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        if (decoded.id) {
+                            this.emit("datalogRead", decoded.status, decoded.id, decoded.count, decoded.values);
+                            this.resolvePendingRequest(command, decoded.id, {status: decoded.status, id: decoded.id, count: decoded.count, values: decoded.values});
+                        } else {
+                            this.emit("datalogPropertiesRead", decoded.status, decoded.properties);
+                            this.resolvePendingRequest(command, undefined, {status: decoded.status, properties: decoded.properties});
                         }
                         break;
                     }
 
                     case "DEVICE MESSAGE": {
                         const decoded = SIGatewayClient.decodeDeviceMessageFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onDeviceMessage(decoded);
-                        }
+                        this.emit("deviceMessage", decoded);
                         break;
                     }
 
                     case "MESSAGES READ": {
                         const decoded = SIGatewayClient.decodeMessagesReadFrame(event.data);
-                        if (this.callbacks && decoded.status !== undefined && decoded.count !== undefined && decoded.messages !== undefined) {
-                            this.callbacks.onMessageRead(decoded.status, decoded.count, decoded.messages);
+                        if (!this.requests.complete(command, undefined)) break;
+                        if (decoded.status !== undefined && decoded.count !== undefined && decoded.messages !== undefined) {
+                            this.emit("messageRead", decoded.status, decoded.count, decoded.messages);
                         }
+                        this.resolvePendingRequest(command, undefined, decoded);
                         break;
                     }
 
                     case "EXTENSION CALLED": {
                         const decoded = SIGatewayClient.decodeExtensionsCalledFrame(event.data);
-                        if (this.callbacks) {
-                            this.callbacks.onExtensionCalled(decoded.extension, decoded.command, decoded.status, decoded.headers, decoded.body);
-                        }
+                        if (!this.requests.complete(command, `${decoded.extension}.${decoded.command}`)) break;
+                        this.emit("extensionCalled", decoded.extension, decoded.command, decoded.status, decoded.headers, decoded.body);
+                        this.resolvePendingRequest(command, `${decoded.extension}.${decoded.command}`, {
+                            extension: decoded.extension,
+                            command: decoded.command,
+                            status: decoded.status,
+                            parameters: decoded.headers,
+                            body: decoded.body
+                        });
                         break;
                     }
 
                     default:
-                        SIProtocolError.raise("unsupported frame command :" + command);
+                        SIProtocolError.raise("unsupported frame command :" + command, {frame: event.data});
                 }
             }
         } catch (error: any) {
             if (error instanceof SIProtocolError) {
-                if (this.debug) {
-                    console.error(`Protocol error: ${error.message}`);
-                }
+                this.log.error(SILogCategory.PROTOCOL, `Protocol error: ${error.message}`);
 
-                this.callbacks?.onError(error.message);
+                this.emitError(error);
             } else {
-                if (this.debug) {
-                    console.error(`Error: ${error.toString()}`);
-                }
+                this.log.error(SILogCategory.PROTOCOL, `Error: ${error.toString()}`);
 
-                this.callbacks?.onError(error.toString());
+                this.emitError(new SIProtocolError(error.toString(), {frame: event.data, cause: error}));
             }
-            if (this.state === SIConnectionState.AUTHORIZING) {
-                if (this.debug) {
-                    console.error(`Authorizing failed, closing connection.`);
+            if (this.state === SIConnectionState.CONNECTED) {
+                const key = SIGatewayClient.peekFrameKey(event.data);
+                if (this.requests.complete(command, key)) {
+                    this.rejectPendingRequest(command, key, error);
                 }
+            }
+            if (this.state === SIConnectionState.AUTHORIZING) {
+                this.log.error(SILogCategory.CONNECTION, `Authorizing failed, closing connection.`);
+                this.failQueuedCommands(SIAuthorizationError, "authorization failed");
+                this.closeRequested = true;
                 this.ws?.close();
                 this.state = SIConnectionState.DISCONNECTED;
             }
         }
     };
 
-    private onError = (event: Event) => {
-        if (this.debug) {
-            console.error(`Websocket error: ${'' + event}`);
+    private isHeartbeatResponse(frame: string): boolean {
+        // The probes are tracked like the requests of the application, so the response to a probe is told apart from the response to a read of the same property.
+        try {
+            const command = SIGatewayClient.peekFrameCommand(frame);
+            if (command === "ERROR") {
+                return this.requests.completeOldestInternal("probe");
+            }
+            return this.requests.completeInternal("probe", command, SIGatewayClient.peekFrameKey(frame));
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private onHeartbeatFailed() {
+        this.log.error(SILogCategory.CONNECTION, `Heartbeat timeout, closing connection.`);
+
+        this.emitError(new SITimeoutError("heartbeat timeout"));
+
+        // A half-open connection might never report to be closed, so detach from the WebSocket and handle the connection loss right away.
+        const ws = this.ws;
+        if (ws) {
+            ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+            ws.close();
         }
+        this.onClose();
+    }
 
-        this.callbacks?.onError(`WebSocket error`);
+    private onError = (event: any) => {
+        this.log.error(SILogCategory.CONNECTION, `Websocket error: ${'' + event}`);
+
+        this.emitError(new SITransportError("WebSocket error", {cause: event}));
     };
 
     private onClose = () => {
-        if (this.debug) {
-            console.debug(`WebSocket connection closed.`);
+        this.log.debug(SILogCategory.CONNECTION, `WebSocket connection closed.`);
+
+        this.timers.clearTimeout(this.connectionTimeout);
+        this.ws = null;
+        this.requests.clear();
+        this.heartbeat.stop();
+        this.propertyStore.markAllStale();
+
+        // Try to reconnect if the connection was lost and not closed on purpose.
+        const wasEstablished = this.state === SIConnectionState.CONNECTED || this.reconnectAttempt > 0;
+        if (this.reconnectOptions && wasEstablished && !this.closeRequested &&
+            (this.reconnectOptions.maxAttempts === 0 || this.reconnectAttempt < this.reconnectOptions.maxAttempts)) {
+            this.reconnectAttempt += 1;
+            const delay = reconnectDelay(this.reconnectOptions, this.reconnectAttempt);
+            this.log.debug(SILogCategory.CONNECTION, `Reconnecting in ${delay}ms, attempt=${this.reconnectAttempt}.`);
+
+            this.state = SIConnectionState.CONNECTING;
+            this.accessLevel = SIAccessLevel.NONE;
+            this.failQueuedCommands(SITransportError, "disconnected");
+            this.rejectAllPendingRequests(new SITransportError("disconnected"));
+            this.emit("reconnecting", this.reconnectAttempt, delay);
+            this.reconnectTimeout = this.timers.setTimeout(this.reopen, delay);
+            return;
         }
+        this.reconnectAttempt = 0;
 
         // Change state to DISCONNECTED.
         this.state = SIConnectionState.DISCONNECTED;
@@ -1801,8 +5147,13 @@ export class SIGatewayClient extends SIAbstractGatewayClient {
         // Change access level to NONE.
         this.accessLevel = SIAccessLevel.NONE;
 
+        // Fail all queued commands and reject all requests still waiting for a response, the gateway has forgotten all subscriptions.
+        this.failQueuedCommands(SITransportError, "disconnected");
+        this.rejectAllPendingRequests(new SITransportError("disconnected"));
+        this.sharedSubscriptions.clear();
+
         // Call callback.
-        this.callbacks?.onDisconnected();
+        this.emit("disconnected");
     };
 }
 
@@ -1834,6 +5185,15 @@ type SIDescribeBTFrameContent = {
     description: Map<string,string> | Array<string> | null
 }
 
+type SIPropertiesFoundBTFrameContent = {
+    status: SIStatus,
+    id: string,
+    count: number,
+    virtual: boolean,
+    functions: Set<SIDeviceFunctions>,
+    properties: Array<string>
+}
+
 type SIPropertyReadBTFrameContent = {
     status: SIStatus,
     id: string,
@@ -1880,11 +5240,6 @@ type SIExtensionCalledBTFrameContent = {
     parameters: Array<any>
 }
 
-export type SIDataLogEntry = {
-    timestamp: Date,
-    value: any
-}
-
 class SIAbstractBluetoothGatewayClient {
     protected static decodeFrame(frame: Uint8Array): SIDecodedBluetoothFrame {
         try {
@@ -1894,7 +5249,7 @@ class SIAbstractBluetoothGatewayClient {
                     sequence: decoded.slice(1)
                 }
         } catch (error: any) {
-            throw new SIProtocolError("invalid frame");
+            throw new SIProtocolError("invalid frame", {frame: frame});
         }
     }
 
@@ -1903,16 +5258,31 @@ class SIAbstractBluetoothGatewayClient {
             CBOR_encode(0x01),
             CBOR_encode(user),
             CBOR_encode(password),
-            CBOR_encode(1)
+            // Installed gateways expect a single integer, the list is only sent once the client supports multiple protocol versions.
+            CBOR_encode(supportedProtocolVersions.length === 1 ? supportedProtocolVersions[0] : supportedProtocolVersions)
         );
     }
 
+    protected static redactAuthorizeFrame(frame: Uint8Array): Uint8Array {
+        let decoded: SIDecodedBluetoothFrame;
+        try {
+            decoded = SIAbstractBluetoothGatewayClient.decodeFrame(frame);
+        } catch (error) {
+            return frame;
+        }
+        if (decoded.command !== 0x01 || typeof decoded.sequence[1] !== "string" || decoded.sequence[1] === "") {
+            return frame;
+        }
+        return SIAbstractBluetoothGatewayClient.encodeAuthorizeFrame(decoded.sequence[0], "***");
+    }
+
     protected static decodeAuthorizedFrame(frame: Uint8Array): SIAuthorizedBTFrameContent {
         const decoded = this.decodeFrame(frame);
         if (decoded.command === 0x81 && decoded.sequence.length >= 3 &&
             typeof decoded.sequence[0] === "number" && typeof decoded.sequence[1] === "number" &&
             typeof decoded.sequence[2] === "string") {
-            if (decoded.sequence[1] === 1) {
+            // The gateway picks the highest of the advertised protocol versions it supports.
+            if (supportedProtocolVersions.includes(decoded.sequence[1])) {
                 let extensions = [];
                 if (decoded.sequence.length === 4) {
                     extensions = decoded.sequence[3].split(',');
@@ -1924,12 +5294,12 @@ class SIAbstractBluetoothGatewayClient {
                     extensions: extensions
                 }
             } else {
-                throw new SIProtocolError("protocol version 1 not supported by server")
+                throw new SIProtocolVersionError(`protocol version ${decoded.sequence[1]} selected by gateway not supported`, {frame: frame});
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIAuthorizationError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during authorization");
+            throw new SIProtocolError("unknown error during authorization", {frame: frame});
         }
     }
 
@@ -1948,22 +5318,17 @@ class SIAbstractBluetoothGatewayClient {
                 deviceCount: decoded.sequence[1]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during device enumeration");
+            throw new SIProtocolError("unknown error during device enumeration", {frame: frame});
         }
     }
 
-    protected static encodeDescribeFrame(deviceAccessId?: string, deviceId?: string, propertyId?: number): Uint8Array {
-        let id = null
-        if (deviceAccessId !== null && deviceAccessId !== undefined) {
-            id = deviceAccessId;
-            if (deviceId !== null && deviceId !== undefined) {
-                id += "." + deviceId;
-                if (propertyId !== null && propertyId !== undefined) {
-                    id += "." + propertyId
-                }
-            }
+    protected static encodeDescribeFrame(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]): Uint8Array {
+        const id = describeId(deviceAccessId, deviceId, propertyId) ?? null;
+        // The flags are only sent if present, so requests without flags stay compatible with gateways not supporting them.
+        if (flags !== undefined && descriptionFlagsToStrings(flags).length !== 0) {
+            return this.join(CBOR_encode(0x03), CBOR_encode(id), CBOR_encode(descriptionFlagsToStrings(flags)));
         }
         return this.join(CBOR_encode(0x03), CBOR_encode(id))
     }
@@ -1978,9 +5343,38 @@ class SIAbstractBluetoothGatewayClient {
                 description: decoded.sequence[2]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
+        } else {
+            throw new SIProtocolError("unknown error during description", {frame: frame});
+        }
+    }
+
+    protected static encodeFindPropertiesFrame(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>): Uint8Array {
+        return this.join(
+            CBOR_encode(0x0A),
+            CBOR_encode(propertyId),
+            CBOR_encode(virtual !== undefined && virtual !== null ? virtual : null),
+            CBOR_encode(functionMask !== undefined && functionMask.length !== 0 ? deviceFunctionsToStrings(functionMask) : null)
+        );
+    }
+
+    protected static decodePropertiesFoundFrame(frame: Uint8Array): SIPropertiesFoundBTFrameContent {
+        const decoded = this.decodeFrame(frame);
+        if (decoded.command === 0x8A && decoded.sequence.length === 6 &&
+            typeof decoded.sequence[0] === "number" && typeof decoded.sequence[1] === "string" && typeof decoded.sequence[2] === "number" &&
+            typeof decoded.sequence[3] === "boolean" && (decoded.sequence[4] == null || Array.isArray(decoded.sequence[4])) && Array.isArray(decoded.sequence[5])) {
+            return {
+                status: decoded.sequence[0],
+                id: decoded.sequence[1],
+                count: decoded.sequence[2],
+                virtual: decoded.sequence[3],
+                functions: deviceFunctionsFromString(decoded.sequence[4] != null ? decoded.sequence[4].join(",") : undefined),
+                properties: decoded.sequence[5]
+            }
+        } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during description");
+            throw new SIProtocolError("unknown error during find properties", {frame: frame});
         }
     }
 
@@ -2001,9 +5395,9 @@ class SIAbstractBluetoothGatewayClient {
                 value: decoded.sequence[2]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during property read");
+            throw new SIProtocolError("unknown error during property read", {frame: frame});
         }
     }
 
@@ -2025,9 +5419,9 @@ class SIAbstractBluetoothGatewayClient {
                 id: decoded.sequence[1]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during property write");
+            throw new SIProtocolError("unknown error during property write", {frame: frame});
         }
     }
 
@@ -2047,9 +5441,9 @@ class SIAbstractBluetoothGatewayClient {
                 id: decoded.sequence[1]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during property subscribe");
+            throw new SIProtocolError("unknown error during property subscribe", {frame: frame});
         }
     }
 
@@ -2070,9 +5464,9 @@ class SIAbstractBluetoothGatewayClient {
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 &&
             typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during property subscribe");
+            throw new SIProtocolError("unknown error during property subscribe", {frame: frame});
         }
     }
 
@@ -2085,9 +5479,9 @@ class SIAbstractBluetoothGatewayClient {
                 value: decoded.sequence[1]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error receiving property update");
+            throw new SIProtocolError("unknown error receiving property update", {frame: frame});
         }
     }
 
@@ -2113,9 +5507,9 @@ class SIAbstractBluetoothGatewayClient {
                 results: decoded.sequence[3]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error receiving datalog read");
+            throw new SIProtocolError("unknown error receiving datalog read", {frame: frame});
         }
     }
 
@@ -2138,6 +5532,7 @@ class SIAbstractBluetoothGatewayClient {
             if (array.length === 5 * count) {
                 let messages = new Array<SIDeviceMessage>();
                 for (let i = 0; i < count; ++i) {
+                    // Message timestamps are sent in seconds since epoch, unlike datalog timestamps which are in milliseconds.
                     messages.push({
                         timestamp: new Date(array[5 * i] * 1000),
                         accessId: array[5 * i + 1],
@@ -2160,9 +5555,9 @@ class SIAbstractBluetoothGatewayClient {
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 &&
             typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error during messages read");
+            throw new SIProtocolError("unknown error during messages read", {frame: frame});
         }
     }
 
@@ -2172,6 +5567,7 @@ class SIAbstractBluetoothGatewayClient {
             typeof decoded.sequence[0] === "number" && typeof decoded.sequence[1] === "string" &&
             typeof decoded.sequence[2] === "string" && typeof decoded.sequence[3] === "number" &&
             typeof decoded.sequence[4] === "string") {
+            // Message timestamps are sent in seconds since epoch.
             return {
                 timestamp: new Date(decoded.sequence[0] * 1000),
                 accessId: decoded.sequence[1],
@@ -2180,9 +5576,9 @@ class SIAbstractBluetoothGatewayClient {
                 message: decoded.sequence[4]
             }
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error receiving property update");
+            throw new SIProtocolError("unknown error receiving property update", {frame: frame});
         }
     }
 
@@ -2206,16 +5602,33 @@ class SIAbstractBluetoothGatewayClient {
                 parameters: decoded.sequence.slice(3)
             };
         } else if (decoded.command === 0xFF && decoded.sequence.length === 1 && typeof decoded.sequence[0] === "string") {
-            throw new SIProtocolError(decoded.sequence[0]);
+            throw new SIGatewayError(decoded.sequence[0], {frame: frame});
         } else {
-            throw new SIProtocolError("unknown error receiving extension called message");
+            throw new SIProtocolError("unknown error receiving extension called message", {frame: frame});
         }
     }
 
+    protected static encodeTimeoutFrame(command: number, ...sequence: Array<any>): Uint8Array {
+        return this.join(CBOR_encode(command), ...sequence.map(it => CBOR_encode(it)));
+    }
+
     protected static peekFrameCommand(frame: Uint8Array): number {
         return (CBOR_decodeMultiple(frame) as Array<any>)[0] as number;
     }
 
+    protected static peekFrameKey(frame: Uint8Array): string | undefined {
+        // Responses are referenced by the property ID following the status or, for extension calls, by extension and command.
+        try {
+            const decoded = SIAbstractBluetoothGatewayClient.decodeFrame(frame);
+            if (decoded.command === 0x8B) {
+                return `${decoded.sequence[0]}.${decoded.sequence[1]}`;
+            }
+            return typeof decoded.sequence[1] === "string" ? decoded.sequence[1] : undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
     protected static join(...arrays: Array<ArrayBuffer>): Uint8Array {
         const length = arrays.reduce((sum, array) => sum + array.byteLength, 0)
         let joined = new Uint8Array(length);
@@ -2252,8 +5665,9 @@ export interface SIBluetoothGatewayClientCallbacks {
      * Called on severe errors.
      *
      * @param reason Exception that caused the erroneous behavior
+     * @param error The error, its class (for example SIAuthorizationError or SITransportError) identifies the kind of error and it holds the offending frame or command if known.
      */
-    onError(reason: string): void;
+    onError(reason: string, error: SIProtocolError): void;
 
     /**
      * Called when the enumeration operation started using enumerate() has completed on the gateway.
@@ -2272,6 +5686,18 @@ export interface SIBluetoothGatewayClientCallbacks {
      */
     onDescription(status: SIStatus, description: any, id?: string): void;
 
+    /**
+     * Called when the gateway returned the list of found properties requested using the findProperties() method.
+     *
+     * @param status The status of the find operation.
+     * @param id The searched ID (including wildcard character).
+     * @param count The number of properties found.
+     * @param virtual True if list contains only virtual devices, false if it contains only real devices.
+     * @param functions Function list mask.
+     * @param properties List of the property IDs.
+     */
+    onPropertiesFound?(status: SIStatus, id: string, count: number, virtual: boolean, functions: Set<SIDeviceFunctions>, properties: string[]): void;
+
     /**
      * Called when the property read operation started using read_property() has completed on the gateway.
      *
@@ -2281,6 +5707,13 @@ export interface SIBluetoothGatewayClientCallbacks {
      */
     onPropertyRead(status: SIStatus, propertyId: string, value?: any): void;
 
+    /**
+     * Called when the multiple properties read operation started using readProperties() has completed on the gateway.
+     *
+     * @param results List of all results of the operation.
+     */
+    onPropertiesRead?(results: SIPropertyReadResult[]): void;
+
     /**
      * Called when the property write operation started using write_property() has completed on the gateway.
      *
@@ -2297,6 +5730,13 @@ export interface SIBluetoothGatewayClientCallbacks {
      */
     onPropertySubscribed(status: SIStatus, propertyId: string): void;
 
+    /**
+     * Called when the gateway returned the status of the properties subscription requested using the subscribeToProperties() method.
+     *
+     * @param statuses The statuses of the individual subscriptions
+     */
+    onPropertiesSubscribed?(statuses: SISubscriptionsResult[]): void;
+
     /**
      * Called when the gateway returned the status of the property unsubscription requested
      * using the property_unsubscribe() method.
@@ -2305,6 +5745,13 @@ export interface SIBluetoothGatewayClientCallbacks {
      */
     onPropertyUnsubscribed(status: SIStatus, propertyId: string): void;
 
+    /**
+     * Called when the gateway returned the status of the properties unsubscription requested using the unsubscribeFromProperties() method.
+     *
+     * @param statuses The statuses of the individual subscriptions
+     */
+    onPropertiesUnsubscribed?(statuses: SISubscriptionsResult[]): void;
+
     /**
      * This callback is called whenever the gateway send a property update.
      *
@@ -2356,9 +5803,26 @@ export interface SIBluetoothGatewayClientCallbacks {
      * @param parameters Parameters returned by the command, see extension documentation for details.
      */
     onExtensionCalled(extension: string, command: string, status: SIExtensionStatus, parameters: Array<any>): void;
+
+    /**
+     * Called when the Bluetooth connection to the gateway was lost and automatic reconnection is enabled, just before the client waits for the next reconnection attempt.
+     *
+     * @param attempt Number of the upcoming reconnection attempt, starting at 1.
+     * @param delay Delay in milliseconds before the attempt is made.
+     */
+    onReconnecting?(attempt: number, delay: number): void;
+
+    /**
+     * Called once the client has been reconnected and authorized again after a connection loss. The property subscriptions active before the connection loss are being restored at that
+     * time, the callback does not wait for the gateway to confirm them. Subscriptions that can not be restored are dropped and reported as warning in the log.
+     *
+     * @param accessLevel Access level that was granted to the user during authorization.
+     * @param gatewayVersion Version of the OpenStuder software running on the gateway.
+     */
+    onReconnected?(accessLevel: SIAccessLevel, gatewayVersion: string): void;
 }
 
-export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
+export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient implements SIGenericGatewayClient {
     public static isBluetoothSupported(): Promise<Boolean> {
         if (navigator.bluetooth === undefined) {
             return new Promise<Boolean>((r) => r(false));
@@ -2370,15 +5834,46 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
     private accessLevel: SIAccessLevel;
     private gatewayVersion: string;
     private availableExtensions: Array<string> = [];
+    private capabilityRules: Map<string, SICapabilityRule> = new Map<string, SICapabilityRule>([["findProperties", {}]]);
+    private capabilities: SIGatewayCapabilities | undefined = undefined;
 
     private device: BluetoothDevice | null;
     private service: BluetoothRemoteGATTService | null;
     private tx: BluetoothRemoteGATTCharacteristic | null;
     private frame: Uint8Array;
 
+    private user?: string;
+    private password?: string;
+
+    private reconnectOptions: SIReconnectOptions | undefined;
+    private reconnectAttempt: number = 0;
+    private reconnectTimeout: any = undefined;
+    private closeRequested: boolean = false;
+    private activeSubscriptions: Set<string> = new Set<string>();
+    private batchedResponses: Array<{response: number, id: string}> = [];
+
     private callbacks: SIBluetoothGatewayClientCallbacks | undefined;
+    private listeners: SIEventListeners = new SIEventListeners();
+    private propertyStore: SIClientPropertyStore = new SIClientPropertyStore(() => this.timers);
+    private sharedSubscriptions: SISubscriptionRegistry = new SISubscriptionRegistry(propertyIds => propertyIds.length === 1 ?
+        this.subscribeToPropertyAsync(propertyIds[0]).then(it => [it]) : this.subscribeToPropertiesAsync(propertyIds), propertyId => {
+        if (this.state === SIConnectionState.CONNECTED) {
+            this.unsubscribeFromPropertyAsync(propertyId).catch(() => {});
+        }
+    });
+    private pendingRequests: Array<SIPendingRequest> = [];
+    private commandQueueing: boolean = false;
+    private queuedCommands: Array<SIQueuedCommand> = [];
+    private timers: SITimerProvider = defaultTimerProvider;
+    private requests: SIRequestTracker<Uint8Array> = new SIRequestTracker<Uint8Array>(() => this.timers, frame => this.onFrame(frame));
+    private heartbeat: SIHeartbeat = new SIHeartbeat(() => this.timers, propertyId => {
+        this.requests.trackInternal("probe", 0x84, propertyId);
+        this.txSend(SIBluetoothGatewayClient.encodeReadPropertyFrame(propertyId));
+    }, () => this.onHeartbeatFailed());
+    private recorder: SITrafficRecorder | undefined = undefined;
+    private recordCredentials: boolean = false;
 
-    private debug: boolean = false;
+    private log: SILog = new SILog();
 
     public constructor() {
         super();
@@ -2392,13 +5887,94 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
     }
 
     public setDebugEnabled(enabled: boolean) {
-        if (this.debug !== enabled) {
-            if (enabled)
-                console.info("Debug enabled.");
-            else
-                console.info("Debug disabled.");
-        }
-        this.debug = enabled;
+        this.log.setDebugEnabled(enabled);
+    }
+
+    /**
+     * Sets the logger receiving the log messages of the client. Replaces the console output enabled by setDebugEnabled().
+     *
+     * By default passwords are redacted from the logged connect parameters and AUTHORIZE frames, see SILoggerOptions.
+     *
+     * @param logger Logger to use, undefined to disable logging.
+     * @param options Optional filter and redaction configuration, see SILoggerOptions for defaults.
+     */
+    public setLogger(logger: SILogger | undefined, options: Partial<SILoggerOptions> = {}) {
+        this.log.setLogger(logger, options);
+    }
+
+    /**
+     * Configures the timer functions used for the request timeouts and the reconnection delays. If no provider is set, the global setTimeout() and clearTimeout() functions are used.
+     *
+     * @param timers Timer provider to use, undefined to use the global timer functions.
+     */
+    public setTimerProvider(timers: SITimerProvider | undefined) {
+        this.timers = timers || defaultTimerProvider;
+    }
+
+    /**
+     * Configures the time the client waits for the response to a request. If the gateway does not respond in time, the request is reported using the normal callback with the status
+     * SIStatus.TIMEOUT (SIExtensionStatus.ERROR for extension calls) and a response arriving later is dropped, unless a retry of the same request is waiting for its response, which then
+     * completes the retry. Request timeouts are disabled by default.
+     *
+     * @param timeout Timeout in milliseconds, 0 to disable the timeout.
+     * @param operation Operation to configure the timeout for, if not provided the default timeout used for all operations without a specific timeout is configured.
+     */
+    public setRequestTimeout(timeout: number, operation?: SIOperation) {
+        this.requests.setTimeout(timeout, operation);
+    }
+
+    /**
+     * Enables or disables the queueing of commands issued before the client is connected. If enabled, commands like readProperty() or subscribeToProperty() called while the client is
+     * connecting or authorizing are queued and sent in order once the client has been authorized by the gateway, instead of raising an SIProtocolError. If the authorization fails or the
+     * connection is lost, each queued command is reported as failed using the onError() callback and the promises of the queued asynchronous commands are rejected.
+     *
+     * Queueing is disabled by default.
+     *
+     * @param enabled True to queue commands issued while connecting, false to reject them.
+     */
+    public setCommandQueueing(enabled: boolean) {
+        this.commandQueueing = enabled;
+    }
+
+    /**
+     * Enables or disables the automatic reconnection. If enabled, the client keeps the Bluetooth device after a connection loss and tries to re-establish the GATT connection using an exponential
+     * backoff, authorizes again using the same user and password and restores all property subscriptions that were active. The attempts are reported using the optional onReconnecting() and
+     * onReconnected() callbacks.
+     *
+     * @param enabled True to enable automatic reconnection, false to disable it.
+     * @param options Optional backoff configuration, see SIReconnectOptions for defaults.
+     */
+    public setAutoReconnect(enabled: boolean, options: Partial<SIReconnectOptions> = {}) {
+        this.reconnectOptions = enabled ? reconnectOptionsWithDefaults(options) : undefined;
+    }
+
+    /**
+     * Enables or disables the liveness check of the connection. If enabled, the client sends a lightweight probe to the gateway once no frame has been received for the configured interval.
+     * If the gateway does not respond in time, the error "heartbeat timeout" is reported using the onError() callback and the GATT connection is closed and handled like any other
+     * connection loss, so the client reconnects if automatic reconnection is enabled.
+     *
+     * The probes read the property given by the probePropertyId option, which is required unless probes are disabled. The responses to the probes are not reported using the callbacks,
+     * responses to reads of the same property by the application are reported as usual.
+     *
+     * @param enabled True to enable the liveness check, false to disable it.
+     * @param options Optional configuration, see SIHeartbeatOptions for defaults.
+     */
+    public setHeartbeat(enabled: boolean, options: Partial<SIHeartbeatOptions> = {}) {
+        this.heartbeat.setOptions(enabled ? heartbeatOptionsWithDefaults(options) : undefined);
+    }
+
+    /**
+     * Sets the recorder capturing all frames sent to and received from the gateway, for example a SIJsonlTrafficRecorder. Recordings can be replayed using the SITrafficReplay of the
+     * openstuder-mock module in order to reproduce a session deterministically.
+     *
+     * By default the password of the AUTHORIZE frame is replaced by "***" in the recording, the frame is only recorded as sent if recordCredentials is explicitly enabled.
+     *
+     * @param recorder Recorder to use, undefined to stop recording.
+     * @param recordCredentials True to record the password passed to connect() in plaintext.
+     */
+    public setTrafficRecorder(recorder: SITrafficRecorder | undefined, recordCredentials: boolean = false) {
+        this.recorder = recorder;
+        this.recordCredentials = recordCredentials;
     }
 
     /**
@@ -2410,6 +5986,68 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
         this.callbacks = callbacks;
     }
 
+    /**
+     * Returns the store holding the last known value of all properties read or updated by the client. Values are marked stale if the connection is lost.
+     *
+     * @return Property store of the client.
+     */
+    public getPropertyStore(): SIPropertyStore {
+        return this.propertyStore;
+    }
+
+    /**
+     * Adds a listener for the given event. In contrast to setCallback(), any number of listeners can be added and only the events of interest need to be handled. Listeners are called after
+     * the callbacks object set using setCallback(), with the same arguments as the corresponding callback method, see SIBluetoothGatewayClientCallbacks for details.
+     *
+     * @param event Name of the event, for example "propertyUpdated" for the event reported to onPropertyUpdated().
+     * @param listener Listener to call whenever the event occurs.
+     */
+    public addEventListener<E extends SIEventName<SIBluetoothGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIBluetoothGatewayClientCallbacks, E>): void;
+    public addEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+    public addEventListener(event: string, listener: any): void {
+        this.listeners.add(event, listener);
+    }
+
+    /**
+     * Removes a listener added before using addEventListener() or on().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     */
+    public removeEventListener<E extends SIEventName<SIBluetoothGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIBluetoothGatewayClientCallbacks, E>): void;
+    public removeEventListener<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): void;
+    public removeEventListener(event: string, listener: any): void {
+        this.listeners.remove(event, listener);
+    }
+
+    /**
+     * Shorthand for addEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to call whenever the event occurs.
+     * @return The client itself to allow chaining.
+     */
+    public on<E extends SIEventName<SIBluetoothGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIBluetoothGatewayClientCallbacks, E>): this;
+    public on<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
+    public on(event: string, listener: any): this {
+        this.listeners.add(event, listener);
+        return this;
+    }
+
+    /**
+     * Shorthand for removeEventListener().
+     *
+     * @param event Name of the event.
+     * @param listener Listener to remove.
+     * @return The client itself to allow chaining.
+     */
+    public off<E extends SIEventName<SIBluetoothGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIBluetoothGatewayClientCallbacks, E>): this;
+    public off<E extends SIEventName<SIGenericGatewayClientCallbacks>>(event: E, listener: SIEventListener<SIGenericGatewayClientCallbacks, E>): this;
+    public off(event: string, listener: any): this {
+        this.listeners.remove(event, listener);
+        return this;
+    }
+
     /**
      * Discovers OpenStuder Bluetooth devices and establishes the connection to the user-selected gateway and executes the user authorization process once the connection has been established.
      * The status of the connection attempt is reported either by the on_connected() callback on success or the on_error() callback if the connection could not be established or the authorization
@@ -2421,42 +6059,79 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
     public connect(user?: string, password?: string) {
         this.ensureInState(SIConnectionState.DISCONNECTED);
 
-        if (this.debug) {
-            console.debug(`Connecting to Bluetooth device, user=${user || '(none)'}, password=${password}`);
-        }
+        this.log.debug(SILogCategory.CONNECTION, `Connecting to Bluetooth device, user=${user || '(none)'}, password=${this.log.secret(password)}`);
+
+        // Save parameter for later use.
+        this.user = user;
+        this.password = password;
+        this.activeSubscriptions.clear();
+        this.reconnectAttempt = 0;
+        this.closeRequested = false;
 
+        // The client is connecting while the user selects the device, so that commands can be queued right after calling connect().
+        this.state = SIConnectionState.CONNECTING;
         navigator.bluetooth.requestDevice({filters: [{services: ["f3c2d800-8421-44b1-9655-0951992f313b"]}]}).then(device => {
-            this.state = SIConnectionState.CONNECTING;
+            // The client might have been disconnected while the user selected the device.
+            if (this.closeRequested) return;
             this.device = device;
             device.addEventListener('gattserverdisconnected', this.onDeviceDisconnected);
-            return device.gatt!.connect();
-        }).then(gatt => {
+            this.connectGatt();
+        }).catch(error => {
+            this.log.error(SILogCategory.CONNECTION, `Bluetooth error: ${error}`);
+
+            this.emitError(new SITransportError(error?.message || String(error), {cause: error}));
+            this.onDeviceDisconnected();
+        });
+    }
+
+    private connectGatt = () => {
+        // The client might have been disconnected while waiting for the reconnection delay.
+        const device = this.device;
+        if (this.closeRequested || !device?.gatt) return;
+
+        device.gatt.connect().then(gatt => {
+            this.abortIfCloseRequested();
             return gatt.getPrimaryService("f3c2d800-8421-44b1-9655-0951992f313b");
         }).then(service => {
+            this.abortIfCloseRequested();
             this.service = service;
             return this.service.getCharacteristic("f3c2d802-8421-44b1-9655-0951992f313b");
         }).then(tx => {
+            this.abortIfCloseRequested();
             this.tx = tx;
         }).then(_ => {
             return this.service!.getCharacteristic("f3c2d801-8421-44b1-9655-0951992f313b");
         }).then(rx => {
+            this.abortIfCloseRequested();
             rx.addEventListener('characteristicvaluechanged', this.onCharacteristicChanged);
             return rx.startNotifications();
         }).then(_ => {
-            if (this.debug) {
-                console.debug(`Bluetooth connection established.`);
-            }
+            this.abortIfCloseRequested();
+            this.log.debug(SILogCategory.CONNECTION, `Bluetooth connection established.`);
 
             this.state = SIConnectionState.AUTHORIZING;
-            this.txSend(SIBluetoothGatewayClient.encodeAuthorizeFrame(user, password));
+            this.txSend(SIBluetoothGatewayClient.encodeAuthorizeFrame(this.user, this.password));
         }).catch(error => {
-            if (this.debug) {
-                console.error(`Bluetooth error: ${error}`);
+            if (this.closeRequested) {
+                // Disconnected while connecting, disconnect() did already report the disconnection.
+                device.removeEventListener('gattserverdisconnected', this.onDeviceDisconnected);
+                if (device.gatt?.connected) {
+                    device.gatt.disconnect();
+                }
+                return;
             }
 
-            this.callbacks?.onError(error);
+            this.log.error(SILogCategory.CONNECTION, `Bluetooth error: ${error}`);
+
+            this.emitError(new SITransportError(error?.message || String(error), {cause: error}));
             this.onDeviceDisconnected();
         });
+    };
+
+    private abortIfCloseRequested() {
+        if (this.closeRequested) {
+            throw new SITransportError("disconnected");
+        }
     }
 
     /**
@@ -2491,6 +6166,45 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
         return this.availableExtensions;
     }
 
+    /**
+     * Returns the protocol version negotiated with the gateway. The client advertises all protocol versions it supports during authorization and the gateway picks the highest version it
+     * supports itself.
+     * @return Negotiated protocol version, 0 if the client was never authorized.
+     */
+    public getProtocolVersion(): number {
+        return this.capabilities?.protocolVersion ?? 0;
+    }
+
+    /**
+     * Returns the capabilities of the connected gateway, derived from the negotiated protocol version, the gateway version and the available extensions. See SIGatewayCapabilities for
+     * details.
+     * @return Capabilities of the gateway, undefined if the client was never authorized.
+     */
+    public getCapabilities(): SIGatewayCapabilities | undefined {
+        return this.capabilities;
+    }
+
+    /**
+     * Configures a capability derived from the protocol version, the gateway version and the available extensions, for example to use a feature only if the gateway is recent enough:
+     *
+     *     client.setCapabilityRule("fast-datalog", {minGatewayVersion: "1.4.0"});
+     *     ...
+     *     if (client.getCapabilities()?.has("fast-datalog")) { ... }
+     *
+     * @param capability Name of the capability.
+     * @param rule Requirements for the capability, undefined to remove the capability.
+     */
+    public setCapabilityRule(capability: string, rule: SICapabilityRule | undefined) {
+        if (rule !== undefined) {
+            this.capabilityRules.set(capability, rule);
+        } else {
+            this.capabilityRules.delete(capability);
+        }
+        if (this.capabilities !== undefined) {
+            this.capabilities = new SIGatewayCapabilities(this.capabilities.protocolVersion, this.gatewayVersion, this.availableExtensions, this.capabilityRules);
+        }
+    }
+
     /**
      * Instructs the gateway to scan every configured and functional device access driver for new devices and remove devices that do not respond anymore.
      * The status of the operation and the number of devices present are reported using the onEnumerated() method of the SIBluetoothGatewayClientCallbacks interface.
@@ -2498,10 +6212,11 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public enumerate() {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("ENUMERATE", () => this.enumerate())) return;
 
         // Encode and send ENUMERATE message to gateway.
+        this.requests.track(SIOperation.ENUMERATE, 0x82, undefined, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x82, SIStatus.TIMEOUT, 0));
         this.txSend(SIBluetoothGatewayClient.encodeEnumerateFrame());
     }
 
@@ -2509,19 +6224,55 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * This method can be used to retrieve information about the available devices and their properties from the connected gateway. Using the optional deviceAccessId, deviceId and propertyId
      * parameters, the method can either request information about the whole topology, a particular device access instance, a device or a property.
      *
-     * The description is reported using the onDescription() method of the SIBluetoothGatewayClientCallbacks interface.
+     * The description is reported using the onDescription() method of the SIBluetoothGatewayClientCallbacks interface. Use parseDescription() to convert the reported description into a typed
+     * object model.
      *
      * @param deviceAccessId: Device access ID for which the description should be retrieved.
      * @param deviceId Device ID for which the description should be retrieved. Note that device_access_id must be present too.
      * @param propertyId Property ID for which the description should be retrieved. Note that device_access_id and device_id must be present too.
+     * @param flags Flags to control level of detail of the response.
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
-    public describe(deviceAccessId?: string, deviceId?: string, propertyId?: number) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+    public describe(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("DESCRIBE", () => this.describe(deviceAccessId, deviceId, propertyId, flags))) return;
 
         // Encode and send DESCRIBE message to gateway.
-        this.txSend(SIBluetoothGatewayClient.encodeDescribeFrame(deviceAccessId, deviceId, propertyId));
+        const id = describeId(deviceAccessId, deviceId, propertyId);
+        this.requests.track(SIOperation.DESCRIBE, 0x83, id, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x83, SIStatus.TIMEOUT, id ?? null, null));
+        this.txSend(SIBluetoothGatewayClient.encodeDescribeFrame(deviceAccessId, deviceId, propertyId, flags));
+    }
+
+    /**
+     * This method is used to retrieve a list of existing properties that match the given property ID in the form "<device access ID>.<device ID>.<property ID>". The wildcard character "*" is
+     * supported for <device access ID> and <device ID> fields.
+     *
+     * For example "*.inv.3136" represents all properties with ID 3136 on the device with ID "inv" connected through any device access, "demo.*.3136" represents all properties with ID 3136 on any
+     * device that disposes that property connected through the device access "demo" and finally "*.*.3136" represents all properties with ID 3136 on any device that disposes that property connected
+     * through any device access.
+     *
+     * The properties found are reported using the onPropertiesFound() method of the SIBluetoothGatewayClientCallbacks interface.
+     *
+     * Gateways that do not implement FIND PROPERTIES over Bluetooth respond with an error. The command is only sent if the gateway has the capability "findProperties", which is available
+     * by default. Applications knowing the minimal gateway version of their installations can configure it using setCapabilityRule("findProperties", {minGatewayVersion: ...}).
+     *
+     * @param propertyId: The search wildcard ID.
+     * @param virtual: Optional to filter for virtual devices (true) or non-virtual devices (false, default).
+     * @param functionMask: Optional to filter for device functions. See SIDeviceFunctions for details. Defaults to all functions (SIDeviceFunctions.ALL).
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     * @raises SIInvalidStateError: If the gateway does not have the capability "findProperties".
+     */
+    public findProperties(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("FIND PROPERTIES", () => this.findProperties(propertyId, virtual, functionMask))) return;
+        if (!this.capabilities?.has("findProperties")) {
+            throw new SIInvalidStateError("find properties not supported by gateway", {command: "FIND PROPERTIES"});
+        }
+
+        // Encode and send FIND PROPERTIES message to gateway.
+        this.requests.track(SIOperation.FIND_PROPERTIES, 0x8A, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x8A, SIStatus.TIMEOUT, propertyId, 0, virtual === true,
+            functionMask ? deviceFunctionsToStrings(functionMask) : null, []));
+        this.txSend(SIBluetoothGatewayClient.encodeFindPropertiesFrame(propertyId, virtual, functionMask));
     }
 
     /**
@@ -2532,13 +6283,31 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public readProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ PROPERTY", () => this.readProperty(propertyId))) return;
 
         // Encode and send READ PROPERTY message to gateway.
+        this.requests.track(SIOperation.READ_PROPERTY, 0x84, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x84, SIStatus.TIMEOUT, propertyId, null));
         this.txSend(SIBluetoothGatewayClient.encodeReadPropertyFrame(propertyId));
     }
 
+    /**
+     * This method is used to retrieve the actual value of multiple property at the same time from the connected gateway. The properties are identified by the propertyIds parameter.
+     * The Bluetooth protocol has no command to read multiple properties, so the individual read requests are sent all at once without waiting for the responses in between. The status of the
+     * multiple read operations and the actual value of the properties are reported using the onPropertiesRead() method of the SIBluetoothGatewayClientCallbacks interface once all responses
+     * have been received, onPropertyRead() is not called for the individual properties.
+     *
+     * @param propertyIds The IDs of the properties to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public readProperties(propertyIds: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ PROPERTIES", () => this.readProperties(propertyIds))) return;
+
+        // Send the individual requests, errors are reported using the onError() callback.
+        this.readPropertiesAsync(propertyIds).catch(() => {});
+    }
+
     /**
      * The writeProperty() method is used to change the actual value of a given property. The property is identified by the propertyId parameter and the new value is passed by the optional value
      * parameter.
@@ -2554,10 +6323,11 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public writeProperty(propertyId: string, value?: any, flags?: SIWriteFlags) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("WRITE PROPERTY", () => this.writeProperty(propertyId, value, flags))) return;
 
         // Encode and send WRITE PROPERTY message to gateway.
+        this.requests.track(SIOperation.WRITE_PROPERTY, 0x85, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x85, SIStatus.TIMEOUT, propertyId));
         this.txSend(SIBluetoothGatewayClient.encodeWritePropertyFrame(propertyId, value, flags));
     }
 
@@ -2569,12 +6339,31 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
-    public subscribeToProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+    public subscribeToProperty(propertyId: string) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("SUBSCRIBE PROPERTY", () => this.subscribeToProperty(propertyId))) return;
+
+        // Encode and send SUBSCRIBE PROPERTY message to gateway.
+        this.requests.track(SIOperation.SUBSCRIBE_PROPERTY, 0x86, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x86, SIStatus.TIMEOUT, propertyId));
+        this.txSend(SIBluetoothGatewayClient.encodeSubscribePropertyFrame(propertyId));
+    }
+
+    /**
+     * This method can be used to subscribe to multiple properties on the connected gateway. The properties are identified by the propertyIds parameter. The individual subscribe requests are
+     * sent all at once without waiting for the responses in between.
+     *
+     * The status of the subscribe request is reported using the onPropertiesSubscribed() method of the SIBluetoothGatewayClientCallbacks interface once all responses have been received,
+     * onPropertySubscribed() is not called for the individual properties.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public subscribeToProperties(propertyIds: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("SUBSCRIBE PROPERTIES", () => this.subscribeToProperties(propertyIds))) return;
 
-        // Encode and send SUBSCRIBE PROPERTY message to gateway.
-        this.txSend(SIBluetoothGatewayClient.encodeSubscribePropertyFrame(propertyId));
+        // Send the individual requests, errors are reported using the onError() callback.
+        this.subscribeToPropertiesAsync(propertyIds).catch(() => {});
     }
 
     /**
@@ -2586,13 +6375,32 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public unsubscribeFromProperty(propertyId: string) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("UNSUBSCRIBE PROPERTY", () => this.unsubscribeFromProperty(propertyId))) return;
 
         // Encode and send UNSUBSCRIBE PROPERTY message to gateway.
+        this.requests.track(SIOperation.UNSUBSCRIBE_PROPERTY, 0x87, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x87, SIStatus.TIMEOUT, propertyId));
         this.txSend(SIBluetoothGatewayClient.encodeUnsubscribePropertyFrame(propertyId));
     }
 
+    /**
+     * This method can be used to unsubscribe from multiple properties on the connected gateway. The properties are identified by the propertyIds parameter. The individual unsubscribe
+     * requests are sent all at once without waiting for the responses in between.
+     *
+     * The status of the unsubscribe request is reported using the onPropertiesUnsubscribed() method of the SIBluetoothGatewayClientCallbacks interface once all responses have been received,
+     * onPropertyUnsubscribed() is not called for the individual properties.
+     *
+     * @param propertyIds The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @raises SIProtocolError: On a connection, protocol of framing error.
+     */
+    public unsubscribeFromProperties(propertyIds: string[]) {
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("UNSUBSCRIBE PROPERTIES", () => this.unsubscribeFromProperties(propertyIds))) return;
+
+        // Send the individual requests, errors are reported using the onError() callback.
+        this.unsubscribeFromPropertiesAsync(propertyIds).catch(() => {});
+    }
+
     /**
      * This method is used to retrieve the list of IDs of all properties for whom data is logged on the gateway. If a time window is given using from and to, only data in this time windows is
      * considered.
@@ -2605,10 +6413,11 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public readDatalogProperties(dateFrom?: Date, dateTo?: Date) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ DATALOG", () => this.readDatalogProperties(dateFrom, dateTo))) return;
 
         // Encode and send READ DATALOG message to gateway.
+        this.requests.track(SIOperation.READ_DATALOG, 0x88, undefined, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x88, SIStatus.TIMEOUT, null, 0, []));
         this.txSend(SIBluetoothGatewayClient.encodeReadDatalogFrame(undefined, dateFrom, dateTo, undefined))
     }
 
@@ -2624,10 +6433,11 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public readDatalog(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ DATALOG", () => this.readDatalog(propertyId, dateFrom, dateTo, limit))) return;
 
         // Encode and send READ DATALOG message to gateway.
+        this.requests.track(SIOperation.READ_DATALOG, 0x88, propertyId, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x88, SIStatus.TIMEOUT, propertyId, 0, []));
         this.txSend(SIBluetoothGatewayClient.encodeReadDatalogFrame(propertyId, dateFrom, dateTo, limit));
     }
 
@@ -2642,10 +6452,11 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @raises SIProtocolError: On a connection, protocol of framing error.
      */
     public readMessages(dateFrom?: Date, dateTo?: Date, limit?: number) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("READ MESSAGES", () => this.readMessages(dateFrom, dateTo, limit))) return;
 
         // Encode and send READ MESSAGES message to gateway.
+        this.requests.track(SIOperation.READ_MESSAGES, 0x89, undefined, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x89, SIStatus.TIMEOUT, 0, []));
         this.txSend(SIBluetoothGatewayClient.encodeReadMessagesFrame(dateFrom, dateTo, limit));
     }
 
@@ -2660,42 +6471,372 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
      * @param parameters Parameters list to pass to the command, see extension documentation for details.
      */
     public callExtension(extension: string, command: string, parameters: Array<any> = []) {
-        // Ensure that the client is in the CONNECTED state.
-        this.ensureInState(SIConnectionState.CONNECTED);
+        // Ensure that the client is in the CONNECTED state, queue the command if enabled and the client is still connecting.
+        if (this.queueUntilConnected("CALL EXTENSION", () => this.callExtension(extension, command, parameters))) return;
 
         // Encode and send CALL EXTENSION message to gateway.
+        this.requests.track(SIOperation.CALL_EXTENSION, 0x8B, `${extension}.${command}`, () => SIBluetoothGatewayClient.encodeTimeoutFrame(0x8B, extension, command, SIExtensionStatus.ERROR));
         this.txSend(SIBluetoothGatewayClient.encodeCallExtensionFrame(extension, command, parameters));
     }
 
     /**
-     * Disconnects the client from the gateway.
+     * Same as enumerate(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onEnumerated() callback is called too.
+     *
+     * @return Promise resolving to the result of the enumeration.
+     */
+    public enumerateAsync(): Promise<SIEnumerateResult> {
+        return this.request(0x82, undefined, () => this.enumerate());
+    }
+
+    /**
+     * Same as describe(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDescription() callback is called too.
+     *
+     * @param deviceAccessId: Device access ID for which the description should be retrieved.
+     * @param deviceId Device ID for which the description should be retrieved. Note that device_access_id must be present too.
+     * @param propertyId Property ID for which the description should be retrieved. Note that device_access_id and device_id must be present too.
+     * @param flags Flags to control level of detail of the response.
+     * @return Promise resolving to the description.
+     */
+    public describeAsync(deviceAccessId?: string, deviceId?: string, propertyId?: number, flags?: SIDescriptionFlags[]): Promise<SIDescriptionResult> {
+        return this.request(0x83, describeId(deviceAccessId, deviceId, propertyId), () => this.describe(deviceAccessId, deviceId, propertyId, flags));
+    }
+
+    /**
+     * Same as findProperties(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesFound() callback is called too.
+     *
+     * @param propertyId: The search wildcard ID.
+     * @param virtual: Optional to filter for virtual devices (true) or non-virtual devices (false, default).
+     * @param functionMask: Optional to filter for device functions. See SIDeviceFunctions for details. Defaults to all functions (SIDeviceFunctions.ALL).
+     * @return Promise resolving to the properties found.
+     */
+    public findPropertiesAsync(propertyId: string, virtual?: boolean, functionMask?: Array<SIDeviceFunctions>): Promise<SIPropertiesFoundResult> {
+        return this.request(0x8A, propertyId, () => this.findProperties(propertyId, virtual, functionMask));
+    }
+
+    /**
+     * Same as readProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyRead() callback is called too.
+     *
+     * @param propertyId The ID of the property to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the property read result.
+     */
+    public readPropertyAsync(propertyId: string): Promise<SIPropertyReadResult> {
+        return this.request(0x84, propertyId, () => this.readProperty(propertyId));
+    }
+
+    /**
+     * Same as readProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesRead() callback is called too.
+     *
+     * @param propertyIds The IDs of the properties to read in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of property read results.
+     */
+    public readPropertiesAsync(propertyIds: string[]): Promise<SIPropertyReadResult[]> {
+        return this.requestBatch(0x84, propertyIds, propertyId => this.readPropertyAsync(propertyId)).then(results => {
+            this.emit("propertiesRead", results);
+            return results;
+        });
+    }
+
+    /**
+     * Same as writeProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyWritten() callback is called too.
+     *
+     * @param propertyId The ID of the property to write in the form '{device access ID}.{<device ID}.{<property ID}'.
+     * @param value Optional value to write.
+     * @param flags Write flags, See SIWriteFlags for details, if not provided the flags are not send by the client and the gateway uses the default flags.
+     * @return Promise resolving to the property write result.
+     */
+    public writePropertyAsync(propertyId: string, value?: any, flags?: SIWriteFlags): Promise<SIPropertyWriteResult> {
+        return this.request(0x85, propertyId, () => this.writeProperty(propertyId, value, flags));
+    }
+
+    /**
+     * Same as subscribeToProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertySubscribed() callback is called too.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the subscription result.
+     */
+    public subscribeToPropertyAsync(propertyId: string): Promise<SISubscriptionsResult> {
+        return this.request(0x86, propertyId, () => this.subscribeToProperty(propertyId));
+    }
+
+    /**
+     * Same as subscribeToProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesSubscribed() callback is called too.
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of subscription results.
+     */
+    public subscribeToPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]> {
+        return this.requestBatch(0x86, propertyIds, propertyId => this.subscribeToPropertyAsync(propertyId)).then(results => {
+            this.emit("propertiesSubscribed", results);
+            return results;
+        });
+    }
+
+    /**
+     * Same as unsubscribeFromProperty(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertyUnsubscribed() callback is called too.
+     *
+     * @param propertyId The ID of the property to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the unsubscription result.
+     */
+    public unsubscribeFromPropertyAsync(propertyId: string): Promise<SISubscriptionsResult> {
+        return this.request(0x87, propertyId, () => this.unsubscribeFromProperty(propertyId));
+    }
+
+    /**
+     * Same as unsubscribeFromProperties(), but returns a promise that is resolved with the results of the operation or rejected if the gateway responds with an error.
+     * Note that the onPropertiesUnsubscribed() callback is called too.
+     *
+     * @param propertyIds The list of IDs of the properties to unsubscribe from in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Promise resolving to the list of unsubscription results.
+     */
+    public unsubscribeFromPropertiesAsync(propertyIds: string[]): Promise<SISubscriptionsResult[]> {
+        return this.requestBatch(0x87, propertyIds, propertyId => this.unsubscribeFromPropertyAsync(propertyId)).then(results => {
+            this.emit("propertiesUnsubscribed", results);
+            return results;
+        });
+    }
+
+    /**
+     * Same as readDatalogProperties(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDatalogPropertiesRead() callback is called too.
+     *
+     * @param dateFrom Optional date and time of the start of the time window to be considered.
+     * @param dateTo Optional date and time of the end of the time window to be considered.
+     * @return Promise resolving to the list of properties with logged data.
+     */
+    public readDatalogPropertiesAsync(dateFrom?: Date, dateTo?: Date): Promise<SIDatalogPropertiesResult> {
+        return this.request(0x88, undefined, () => this.readDatalogProperties(dateFrom, dateTo));
+    }
+
+    /**
+     * Same as readDatalog(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onDatalogRead() callback is called too.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of results retrieved in total.
+     * @return Promise resolving to the logged data.
+     */
+    public readDatalogAsync(propertyId: string, dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIDatalogReadResult> {
+        return this.request(0x88, propertyId, () => this.readDatalog(propertyId, dateFrom, dateTo, limit));
+    }
+
+    /**
+     * Reads the logged data of a property in pages and returns an async iterator yielding the entries in chronological order:
+     *
+     *     for await (const entry of client.readDatalogPaged("xcom.11.3000", from, to, {onProgress: progress => bar.update(progress.fraction)})) {
+     *         console.log(entry.timestamp, entry.value);
+     *     }
+     *
+     * Instead of reading the whole time range at once, successive data log reads of at most pageSize entries each are sent, every read starting at the timestamp of the last entry read
+     * before. Entries received again at the page boundaries are skipped, as many entries as have been read at the boundary timestamp before, which requires the gateway to return
+     * entries sharing a timestamp in the same order on every read. The next page is only requested once all entries of the previous one have been consumed, leaving the loop or
+     * aborting the signal passed in the options cancels the read. The iteration fails if a read fails. Note that the onDatalogRead() callback is called for each page.
+     *
+     * @param propertyId Global ID of the property for which the logged data should be retrieved. It has to be in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param dateFrom Optional date and time from which the data has to be retrieved, defaults to the oldest value logged.
+     * @param dateTo Optional date and time to which the data has to be retrieved, defaults to the current time on the gateway.
+     * @param options Optional page size, progress callback and cancellation signal, see SIDatalogPagingOptions for defaults.
+     * @return Async iterator yielding the logged values with their timestamps.
+     */
+    public readDatalogPaged(propertyId: string, dateFrom?: Date, dateTo?: Date, options: Partial<SIDatalogPagingOptions> = {}): AsyncIterableIterator<SIDataLogEntry> {
+        return new SIDatalogPager((from, to, limit) => this.readDatalogAsync(propertyId, from, to, limit), dateFrom, dateTo, options);
+    }
+
+    /**
+     * Same as readMessages(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onMessagesRead() callback is called too.
+     *
+     * @param dateFrom Optional date and time from which the messages have to be retrieved, defaults to the oldest message saved.
+     * @param dateTo Optional date and time to which the messages have to be retrieved, defaults to the current time on the gateway.
+     * @param limit Using this optional parameter you can limit the number of messages retrieved in total.
+     * @return Promise resolving to the messages read.
+     */
+    public readMessagesAsync(dateFrom?: Date, dateTo?: Date, limit?: number): Promise<SIMessagesReadResult> {
+        return this.request(0x89, undefined, () => this.readMessages(dateFrom, dateTo, limit));
+    }
+
+    /**
+     * Same as callExtension(), but returns a promise that is resolved with the result of the operation or rejected if the gateway responds with an error.
+     * Note that the onExtensionCalled() callback is called too.
+     *
+     * @param extension Extension to use.
+     * @param command Command to run on that extension.
+     * @param parameters Parameters list to pass to the command, see extension documentation for details.
+     * @return Promise resolving to the result of the extension command.
+     */
+    public callExtensionAsync(extension: string, command: string, parameters: Array<any> = []): Promise<SIExtensionCallResult<Array<any>>> {
+        return this.request(0x8B, `${extension}.${command}`, () => this.callExtension(extension, command, parameters));
+    }
+
+    /**
+     * Acquires a shared subscription to the given property. In contrast to subscribeToProperty(), the subscription is reference counted: The property is subscribed on the gateway when the
+     * first handle is acquired and only unsubscribed once all handles have been released, so independent parts of an application can subscribe to the same property. The result of the
+     * subscription, including failures, is reported to every holder through the result promise of the handle.
+     *
+     * @param propertyId The ID of the property to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handle to the shared subscription.
+     */
+    public acquireSubscription(propertyId: string): SISubscriptionHandle {
+        return this.sharedSubscriptions.acquire([propertyId])[0];
+    }
+
+    /**
+     * Acquires shared subscriptions to all given properties, see acquireSubscription() for details. Properties not subscribed yet are subscribed using
+     * subscribeToProperties().
+     *
+     * @param propertyIds The list of IDs of the properties to subscribe to in the form '{device access ID}.{device ID}.{property ID}'.
+     * @return Handles to the shared subscriptions in the same order as the property IDs.
+     */
+    public acquireSubscriptions(propertyIds: string[]): SISubscriptionHandle[] {
+        return this.sharedSubscriptions.acquire(propertyIds);
+    }
+
+    /**
+     * Subscribes to the given property and returns an async iterator yielding all updates of the property:
+     *
+     *     for await (const update of client.watchProperty("xcom.11.3000")) {
+     *         console.log(update.value);
+     *     }
+     *
+     * The property is subscribed using acquireSubscription(), leaving the loop releases the subscription. The iteration ends when the client is disconnected and fails
+     * if the property can not be subscribed. Updates not consumed yet are buffered, if the buffer is full the oldest update is dropped.
+     *
+     * @param propertyId The ID of the property to watch in the form '{device access ID}.{device ID}.{property ID}'.
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the property updates.
+     */
+    public watchProperty(propertyId: string, options: Partial<SIStreamOptions> = {}): AsyncIterableIterator<SIPropertyUpdate> {
+        const onUpdate = (id: string, value: any) => {
+            if (id === propertyId) {
+                queue.push({id: id, value: value});
+            }
+        };
+        const onDisconnected = () => queue.end();
+        const subscription = this.acquireSubscription(propertyId);
+        const queue = new SIAsyncQueue<SIPropertyUpdate>(options.bufferSize ?? 100, () => {
+            this.off("propertyUpdated", onUpdate);
+            this.off("disconnected", onDisconnected);
+            subscription.release();
+        });
+
+        this.on("propertyUpdated", onUpdate);
+        this.on("disconnected", onDisconnected);
+        subscription.result.then(result => {
+            if (result.status !== SIStatus.SUCCESS) {
+                queue.end(new SIProtocolError(`unable to subscribe to ${propertyId}, status=${result.status}`));
+            }
+        }).catch(error => queue.end(error));
+
+        return queue;
+    }
+
+    /**
+     * Returns an async iterator yielding all device messages broadcast by the gateway:
+     *
+     *     for await (const message of client.deviceMessages()) {
+     *         console.log(message.message);
+     *     }
+     *
+     * The iteration ends when the client is disconnected. Messages not consumed yet are buffered, if the buffer is full the oldest message is dropped.
+     *
+     * @param options Optional buffer configuration, see SIStreamOptions for defaults.
+     * @return Async iterator yielding the device messages.
+     */
+    public deviceMessages(options: Partial<SIStreamOptions> = {}): AsyncIterableIterator<SIDeviceMessage> {
+        const onMessage = (message: SIDeviceMessage) => queue.push(message);
+        const onDisconnected = () => queue.end();
+        const queue = new SIAsyncQueue<SIDeviceMessage>(options.bufferSize ?? 100, () => {
+            this.off("deviceMessage", onMessage);
+            this.off("disconnected", onDisconnected);
+        });
+
+        this.on("deviceMessage", onMessage);
+        this.on("disconnected", onDisconnected);
+        return queue;
+    }
+
+    /**
+     * Disconnects the client from the gateway. If the client is currently trying to reconnect, the reconnection is aborted.
      */
     public disconnect = () => {
-        if (this.debug) {
-            console.debug("Closing Bluetooth connection.");
+        this.log.debug(SILogCategory.CONNECTION, "Closing Bluetooth connection.");
+
+        this.closeRequested = true;
+        this.timers.clearTimeout(this.reconnectTimeout);
+        if (this.device?.gatt?.connected) {
+            this.device.gatt.disconnect();
+        } else {
+            this.onDeviceDisconnected();
+        }
+    }
+
+    private restoreSubscriptions() {
+        if (this.activeSubscriptions.size > 0) {
+            this.log.debug(SILogCategory.CONNECTION, `Restoring ${this.activeSubscriptions.size} property subscriptions.`);
         }
 
-        this.device!.gatt!.disconnect();
+        this.activeSubscriptions.forEach(propertyId => {
+            this.requests.trackInternal("restore", 0x86, propertyId);
+            this.txSend(SIBluetoothGatewayClient.encodeSubscribePropertyFrame(propertyId));
+        });
     }
 
     private onDeviceDisconnected = () => {
-        if (this.debug) {
-            console.debug(`Bluetooth connection closed.`);
+        this.log.debug(SILogCategory.CONNECTION, `Bluetooth connection closed.`);
+
+        this.service = null;
+        this.tx = null;
+        this.frame = new Uint8Array(0);
+        this.batchedResponses = [];
+        this.requests.clear();
+        this.heartbeat.stop();
+        this.propertyStore.markAllStale();
+
+        // Try to reconnect to the same device if the connection was lost and not closed on purpose.
+        const wasEstablished = this.state === SIConnectionState.CONNECTED || this.reconnectAttempt > 0;
+        if (this.reconnectOptions && this.device && wasEstablished && !this.closeRequested &&
+            (this.reconnectOptions.maxAttempts === 0 || this.reconnectAttempt < this.reconnectOptions.maxAttempts)) {
+            this.reconnectAttempt += 1;
+            const delay = reconnectDelay(this.reconnectOptions, this.reconnectAttempt);
+            this.log.debug(SILogCategory.CONNECTION, `Reconnecting in ${delay}ms, attempt=${this.reconnectAttempt}.`);
+
+            this.state = SIConnectionState.CONNECTING;
+            this.accessLevel = SIAccessLevel.NONE;
+            this.failQueuedCommands(SITransportError, "disconnected");
+            this.rejectAllPendingRequests(new SITransportError("disconnected"));
+            this.emit("reconnecting", this.reconnectAttempt, delay);
+            this.timers.clearTimeout(this.reconnectTimeout);
+            this.reconnectTimeout = this.timers.setTimeout(this.connectGatt, delay);
+            return;
         }
+        this.reconnectAttempt = 0;
+
+        // Fail all queued commands and reject all requests still waiting for a response, the gateway has forgotten all subscriptions.
+        this.failQueuedCommands(SITransportError, "disconnected");
+        this.rejectAllPendingRequests(new SITransportError("disconnected"));
+        this.sharedSubscriptions.clear();
 
         this.state = SIConnectionState.DISCONNECTED;
         this.device = null;
         this.service = null;
         this.tx = null;
-        this.callbacks?.onDisconnected();
+        this.emit("disconnected");
     }
 
     private onCharacteristicChanged = (event: Event) => {
         let fragment = new Uint8Array((event.target as BluetoothRemoteGATTCharacteristic).value!.buffer);
 
-        if (this.debug) {
-            console.debug("Bluetooth RX:\n\n" + fragment);
-        }
+        this.log.debug(SILogCategory.RX, () => "Bluetooth RX:\n\n" + fragment);
 
         let remainingFragments = fragment[0];
         this.frame = SIBluetoothGatewayClient.join(this.frame, fragment.subarray(1));
@@ -2703,85 +6844,157 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
 
         let frame = this.frame;
         this.frame = new Uint8Array(0);
+        this.record("rx", frame);
 
-        if (this.debug) {
-            console.debug("Bluetooth frame complete:\n\n" + frame);
+        // Any frame proves that the connection is alive, the responses to the heartbeat probes are not reported.
+        if (this.state === SIConnectionState.CONNECTED && this.heartbeat.received(() => this.isHeartbeatResponse(frame))) {
+            return;
         }
+        this.onFrame(frame);
+    }
 
+    private onFrame = (frame: Uint8Array) => {
+        this.log.debug(SILogCategory.RX, () => "Bluetooth frame complete:\n\n" + frame);
+
+        let command: number | undefined = undefined;
         try {
-            const command = SIBluetoothGatewayClient.peekFrameCommand(frame);
+            command = SIBluetoothGatewayClient.peekFrameCommand(frame);
 
             if (this.state === SIConnectionState.AUTHORIZING) {
-                if (command !== 0x81) {
+                if (command !== 0x81 && command !== 0xFF) {
                     // noinspection ExceptionCaughtLocallyJS
-                    throw new SIProtocolError("Authorization failed");
+                    throw new SIAuthorizationError("Authorization failed", {frame: frame});
                 }
                 const result = SIBluetoothGatewayClient.decodeAuthorizedFrame(frame);
                 this.accessLevel = result.accessLevel;
                 this.gatewayVersion = result.gatewayVersion;
                 this.availableExtensions = result.extensions;
+                this.capabilities = new SIGatewayCapabilities(result.protocolVersion, result.gatewayVersion, result.extensions, this.capabilityRules);
 
                 this.state = SIConnectionState.CONNECTED;
-                this.callbacks?.onConnected(result.accessLevel, result.gatewayVersion);
+                this.heartbeat.start();
+                if (this.reconnectAttempt > 0) {
+                    this.reconnectAttempt = 0;
+                    this.restoreSubscriptions();
+                    this.flushQueuedCommands();
+                    this.emit("reconnected", result.accessLevel, result.gatewayVersion);
+                } else {
+                    this.flushQueuedCommands();
+                    this.emit("connected", result.accessLevel, result.gatewayVersion);
+                }
              } else {
                 switch (command) {
                     case 0xFF: {
+                        // Error frames do not reference the request, so they are attributed to the oldest request sent.
+                        const request = this.requests.oldest();
+                        if (!this.requests.completeOldest()) break;
                         const decoded = SIBluetoothGatewayClient.decodeFrame(frame);
                         const reason = decoded.sequence.length > 0 ? decoded.sequence[0] : "unknown error";
-                        if (this.debug) {
-                            console.error(`Protocol error: ${reason}`);
+                        this.log.error(SILogCategory.PROTOCOL, `Protocol error: ${reason}`);
+                        const error = new SIGatewayError(reason, {frame: frame});
+                        this.emitError(error);
+                        if (request?.origin === "restore") {
+                            // The subscription restored after reconnect failed, forget the property.
+                            this.log.warning(SILogCategory.PROTOCOL, `Unable to restore subscription to ${request.key}: ${reason}`);
+                            this.activeSubscriptions.delete(request.key!);
+                        } else if (request !== undefined) {
+                            this.rejectPendingRequest(request.response as number, request.key, error);
                         }
-                        this.callbacks?.onError(reason);
                         break;
                     }
 
                     case 0x82: {
                         const decoded = SIBluetoothGatewayClient.decodeEnumerateFrame(frame);
-                        this.callbacks?.onEnumerated(decoded.status, decoded.deviceCount);
+                        if (!this.requests.complete(command, undefined)) break;
+                        this.emit("enumerated", decoded.status, decoded.deviceCount);
+                        this.resolvePendingRequest(command, undefined, decoded);
                         break;
                     }
 
                     case 0x83: {
                         const decoded = SIBluetoothGatewayClient.decodeDescriptionFrame(frame);
-                        this.callbacks?.onDescription(decoded.status, decoded.description, decoded.id);
+                        if (!this.requests.complete(command, decoded.id ?? undefined)) break;
+                        this.emit("description", decoded.status, decoded.description, decoded.id);
+                        this.resolvePendingRequest(command, decoded.id ?? undefined, {status: decoded.status, id: decoded.id ?? undefined, description: decoded.description});
+                        break;
+                    }
+
+                    case 0x8A: {
+                        const decoded = SIBluetoothGatewayClient.decodePropertiesFoundFrame(frame);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.emit("propertiesFound", decoded.status, decoded.id, decoded.count, decoded.virtual, decoded.functions, decoded.properties);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case 0x84: {
                         const decoded = SIBluetoothGatewayClient.decodePropertyReadFrame(frame);
-                        this.callbacks?.onPropertyRead(decoded.status, decoded.id, decoded.value);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.propertyStore.record(decoded.id, decoded.status, decoded.value ?? undefined, SIPropertySource.READ);
+                        if (!this.isBatchedResponse(command, decoded.id)) {
+                            this.emit("propertyRead", decoded.status, decoded.id, decoded.value);
+                        }
+                        this.resolvePendingRequest(command, decoded.id, {status: decoded.status, id: decoded.id, value: decoded.value ?? undefined});
                         break;
                     }
 
                     case 0x85: {
                         const decoded = SIBluetoothGatewayClient.decodePropertyWrittenFrame(frame);
-                        this.callbacks?.onPropertyWritten(decoded.status, decoded.id);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        this.emit("propertyWritten", decoded.status, decoded.id);
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case 0x86: {
                         const decoded = SIBluetoothGatewayClient.decodePropertySubscribedFrame(frame);
-                        this.callbacks?.onPropertySubscribed(decoded.status, decoded.id);
+                        if (this.requests.completeInternal("restore", command, decoded.id)) {
+                            // Response to a subscription restored after reconnect, forget the property if it could not be subscribed again.
+                            if (decoded.status !== SIStatus.SUCCESS) {
+                                this.log.warning(SILogCategory.PROTOCOL, `Unable to restore subscription to ${decoded.id}, status=${decoded.status}`);
+                                this.activeSubscriptions.delete(decoded.id);
+                            }
+                            break;
+                        }
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        if (decoded.status === SIStatus.SUCCESS) {
+                            this.activeSubscriptions.add(decoded.id);
+                        }
+                        if (!this.isBatchedResponse(command, decoded.id)) {
+                            this.emit("propertySubscribed", decoded.status, decoded.id);
+                        }
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case 0x87: {
                         const decoded = SIBluetoothGatewayClient.decodePropertyUnsubscribedFrame(frame);
-                        this.callbacks?.onPropertyUnsubscribed(decoded.status, decoded.id);
+                        if (!this.requests.complete(command, decoded.id)) break;
+                        if (decoded.status === SIStatus.SUCCESS) {
+                            this.activeSubscriptions.delete(decoded.id);
+                        }
+                        if (!this.isBatchedResponse(command, decoded.id)) {
+                            this.emit("propertyUnsubscribed", decoded.status, decoded.id);
+                        }
+                        this.resolvePendingRequest(command, decoded.id, decoded);
                         break;
                     }
 
                     case 0xFE: {
                         const decoded = SIBluetoothGatewayClient.decodePropertyUpdateFrame(frame);
-                        this.callbacks?.onPropertyUpdated(decoded.id, decoded.value);
+                        this.propertyStore.record(decoded.id, SIStatus.SUCCESS, decoded.value, SIPropertySource.UPDATE);
+                        this.emit("propertyUpdated", decoded.id, decoded.value);
                         break;
                     }
 
                     case 0x88: {
                         const decoded = SIBluetoothGatewayClient.decodeDatalogReadFrame(frame);
+                        if (!this.requests.complete(command, decoded.id ?? undefined)) break;
                         if (decoded.id === null) {
-                            this.callbacks?.onDatalogPropertiesRead(decoded.status, decoded.results);
+                            this.emit("datalogPropertiesRead", decoded.status, decoded.results);
+                            this.resolvePendingRequest(command, undefined, {status: decoded.status, properties: decoded.results});
                         } else {
+                            // Datalog timestamps are sent in milliseconds since epoch, the results alternate between timestamp and value.
                             let values = [];
                             for (let i = 0; i < decoded.count; ++i) {
                                 values.push({
@@ -2789,57 +7002,95 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
                                     value: decoded.results[2 * i + 1]
                                 });
                             }
-                            this.callbacks?.onDatalogRead(decoded.status, decoded.id, decoded.count, values);
+                            this.emit("datalogRead", decoded.status, decoded.id, decoded.count, values);
+                            this.resolvePendingRequest(command, decoded.id, {status: decoded.status, id: decoded.id, count: decoded.count, values: values});
                         }
                         break;
                     }
 
                     case 0xFD: {
                         const message = SIBluetoothGatewayClient.decodeDeviceMessageFrame(frame);
-                        this.callbacks?.onDeviceMessage(message);
+                        this.emit("deviceMessage", message);
                         break;
                     }
 
                     case 0x89: {
                         const decoded = SIBluetoothGatewayClient.decodeMessagesReadFrame(frame);
-                        this.callbacks?.onMessagesRead(decoded.status, decoded.count, decoded.messages);
+                        if (!this.requests.complete(command, undefined)) break;
+                        this.emit("messagesRead", decoded.status, decoded.count, decoded.messages);
+                        this.resolvePendingRequest(command, undefined, decoded);
                         break;
                     }
 
                     case 0x8B: {
                         const decoded = SIBluetoothGatewayClient.decodeExtensionCalledFrame(frame);
-                        this.callbacks?.onExtensionCalled(decoded.extension, decoded.command, decoded.status, decoded.parameters);
+                        if (!this.requests.complete(command, `${decoded.extension}.${decoded.command}`)) break;
+                        this.emit("extensionCalled", decoded.extension, decoded.command, decoded.status, decoded.parameters);
+                        this.resolvePendingRequest(command, `${decoded.extension}.${decoded.command}`, {
+                            extension: decoded.extension,
+                            command: decoded.command,
+                            status: decoded.status,
+                            parameters: decoded.parameters,
+                            body: ""
+                        });
+                        break;
                     }
                 }
             }
         } catch (error: any) {
             if (error instanceof SIProtocolError) {
-                if (this.debug) {
-                    console.error(`Protocol error: ${error.message}`);
-                }
+                this.log.error(SILogCategory.PROTOCOL, `Protocol error: ${error.message}`);
 
-                this.callbacks?.onError(error.message);
+                this.emitError(error);
             } else {
-                if (this.debug) {
-                    console.error(`Error: ${error.toString()}`);
-                }
+                this.log.error(SILogCategory.PROTOCOL, `Error: ${error.toString()}`);
 
-                this.callbacks?.onError(error.toString());
+                this.emitError(new SIProtocolError(error.toString(), {frame: frame, cause: error}));
             }
-            if (this.state === SIConnectionState.AUTHORIZING) {
-                if (this.debug) {
-                    console.error(`Authorizing failed, closing connection.`);
+            if (this.state === SIConnectionState.CONNECTED && command !== undefined) {
+                const key = SIBluetoothGatewayClient.peekFrameKey(frame);
+                if (this.requests.complete(command, key)) {
+                    this.rejectPendingRequest(command, key, error);
                 }
+            }
+            if (this.state === SIConnectionState.AUTHORIZING) {
+                this.log.error(SILogCategory.CONNECTION, `Authorizing failed, closing connection.`);
 
+                this.failQueuedCommands(SIAuthorizationError, "authorization failed");
                 this.disconnect();
             }
         }
     }
 
-    private txSend(payload: Uint8Array) {
-        if (this.debug) {
-            console.debug(`Bluetooth TX: ${bytesToHex(payload)}`);
+    private isHeartbeatResponse(frame: Uint8Array): boolean {
+        // The probes are tracked like the requests of the application, so the response to a probe is told apart from the response to a read of the same property.
+        try {
+            const command = SIBluetoothGatewayClient.peekFrameCommand(frame);
+            if (command === 0xFF) {
+                return this.requests.completeOldestInternal("probe");
+            }
+            return this.requests.completeInternal("probe", command, SIBluetoothGatewayClient.peekFrameKey(frame));
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private onHeartbeatFailed() {
+        this.log.error(SILogCategory.CONNECTION, `Heartbeat timeout, closing connection.`);
+
+        this.emitError(new SITimeoutError("heartbeat timeout"));
+
+        // Closing the GATT connection reports the connection loss, which triggers the reconnection if enabled.
+        if (this.device?.gatt?.connected) {
+            this.device.gatt.disconnect();
+        } else {
+            this.onDeviceDisconnected();
         }
+    }
+
+    private txSend(payload: Uint8Array) {
+        this.log.debug(SILogCategory.TX, () => `Bluetooth TX: ${bytesToHex(this.log.redact(payload, SIBluetoothGatewayClient.redactAuthorizeFrame))}`);
+        this.record("tx", payload);
 
         const MAX_FRAGMENT_SIZE = 508; // TODO: Detect or make configurable.
         let fragmentCount = Math.ceil(payload.length / MAX_FRAGMENT_SIZE);
@@ -2851,11 +7102,113 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
             fragment.set(payload.subarray(0, fragmentLength), 1);
             payload = payload.subarray(fragmentLength);
             this.tx!.writeValueWithoutResponse(fragment).catch((reason) => {
-                this.callbacks?.onError(reason);
+                this.emitError(new SITransportError(reason?.message || String(reason), {cause: reason}));
             });
         }
     }
 
+    private record(direction: "tx" | "rx", frame: Uint8Array) {
+        if (this.recorder !== undefined) {
+            const data = direction === "tx" && !this.recordCredentials ? SIBluetoothGatewayClient.redactAuthorizeFrame(frame) : frame;
+            this.recorder.record({timestamp: Date.now(), transport: "bluetooth", direction: direction, data: bytesToHex(data)});
+        }
+    }
+
+    private emit<E extends SIEventName<SIBluetoothGatewayClientCallbacks>>(event: E, ...args: SIEventArgs<SIBluetoothGatewayClientCallbacks, E>) {
+        this.listeners.emit(this.callbacks, event, args);
+    }
+
+    private emitError(error: SIProtocolError) {
+        this.emit("error", error.message, error);
+    }
+
+    private requestBatch<T>(response: number, propertyIds: string[], request: (propertyId: string) => Promise<T>): Promise<T[]> {
+        return new Promise<T[]>((resolve, reject) => {
+            // The individual requests are queued if the client is still connecting.
+            if (!this.isQueueing()) {
+                this.ensureInState(SIConnectionState.CONNECTED);
+            }
+
+            // Responses to batched requests are only reported as a whole, remember them in order to suppress the callbacks for the individual properties.
+            propertyIds.forEach(id => this.batchedResponses.push({response: response, id: id}));
+            Promise.all(propertyIds.map(id => request(id).catch(error => {
+                // No response will arrive for a request that failed.
+                this.isBatchedResponse(response, id);
+                throw error;
+            }))).then(resolve, reject);
+        });
+    }
+
+    private isBatchedResponse(response: number, propertyId: string): boolean {
+        const index = this.batchedResponses.findIndex(it => it.response === response && it.id === propertyId);
+        if (index >= 0) {
+            this.batchedResponses.splice(index, 1);
+            return true;
+        }
+        return false;
+    }
+
+    private request<T>(response: number, key: string | undefined, send: () => void): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            // Send the request first, if this fails (invalid state) the promise gets rejected.
+            send();
+            this.pendingRequests.push({response: response, key: key, resolve: resolve, reject: reject});
+        });
+    }
+
+    private resolvePendingRequest(response: number, key: string | undefined, result: any) {
+        // Responses with the same type and key are returned in order, so the oldest request with the same type and key is resolved.
+        const index = this.pendingRequests.findIndex(it => it.response === response && it.key === key);
+        if (index >= 0) {
+            this.pendingRequests.splice(index, 1)[0].resolve(result);
+        }
+    }
+
+    private rejectPendingRequest(response: number, key: string | undefined, reason: any) {
+        const index = this.pendingRequests.findIndex(it => it.response === response && it.key === key);
+        if (index >= 0) {
+            this.pendingRequests.splice(index, 1)[0].reject(reason);
+        }
+    }
+
+    private rejectAllPendingRequests(reason: any) {
+        const pendingRequests = this.pendingRequests;
+        this.pendingRequests = [];
+        pendingRequests.forEach(it => it.reject(reason));
+    }
+
+    private isQueueing(): boolean {
+        return this.commandQueueing && (this.state === SIConnectionState.CONNECTING || this.state === SIConnectionState.AUTHORIZING);
+    }
+
+    private queueUntilConnected(command: string, send: () => void): boolean {
+        if (this.isQueueing()) {
+            this.log.debug(SILogCategory.CONNECTION, `Queueing ${command} until connected.`);
+            this.queuedCommands.push({command: command, send: send});
+            return true;
+        }
+        this.ensureInState(SIConnectionState.CONNECTED);
+        return false;
+    }
+
+    private flushQueuedCommands() {
+        const queuedCommands = this.queuedCommands;
+        this.queuedCommands = [];
+        queuedCommands.forEach(it => {
+            try {
+                it.send();
+            } catch (error: any) {
+                this.emitError(new SIProtocolError(`${it.command} failed: ${error.message || error.toString()}`, {command: it.command, cause: error}));
+            }
+        });
+    }
+
+    private failQueuedCommands(type: new (message: string, details?: SIErrorDetails) => SIProtocolError, reason: string) {
+        const queuedCommands = this.queuedCommands;
+        this.queuedCommands = [];
+        queuedCommands.forEach(it => this.emitError(new type(`${it.command} failed: ${reason}`, {command: it.command})));
+    }
+
     private ensureInState(...states: Array<SIConnectionState>) {
         let ok = false;
         states.forEach((state) => {
@@ -2864,11 +7217,9 @@ export class SIBluetoothGatewayClient extends SIAbstractBluetoothGatewayClient {
             }
         });
         if (!ok) {
-            if (this.debug) {
-                console.error(`Invalid client state! required=${states}, effective=${this.state}`);
-            }
+            this.log.error(SILogCategory.PROTOCOL, `Invalid client state! required=${states}, effective=${this.state}`);
 
-            throw new SIProtocolError("invalid client state");
+            throw new SIInvalidStateError("invalid client state");
         }
     }
 }
@@ -0,0 +1,85 @@
+import {strict as assert} from "assert";
+import {encode as CBOR_encode} from "cbor-x/encode";
+import {SIBluetoothGatewayClient, SIConnectionState, SIGatewayClient, SIProtocolError, SIProtocolVersionError} from "../openstuder";
+import {collectErrors, connectBluetooth, createGateway, installFakeBluetooth, ManualTimers, rewritingWebSocketFactory, transports} from "./helpers";
+
+transports.forEach(transport => describe(`${transport.name} protocol version negotiation`, () => {
+    it("reports the negotiated protocol version", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+
+        assert.equal(client.getCapabilities()?.protocolVersion, 1);
+    });
+
+    it("fails to connect if the gateway supports none of the advertised versions", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        gateway.setProtocolVersions([2]);
+        let errors: Array<SIProtocolError> = [];
+
+        await assert.rejects(transport.connect(gateway, timers, client => errors = collectErrors(client)));
+
+        assert.equal(errors.length, 1);
+        assert.equal(errors[0].message, "protocol version not supported");
+    });
+}));
+
+describe("SIGatewayClient protocol version negotiation", () => {
+    async function connectAnswering(rewrite: (frame: string) => string): Promise<{client: SIGatewayClient, errors: Array<SIProtocolError>}> {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = new SIGatewayClient();
+        client.setWebSocketFactory(rewritingWebSocketFactory(gateway, frame => frame.startsWith("AUTHORIZED\n") ? rewrite(frame) : frame));
+        client.setTimerProvider(timers);
+        const errors = collectErrors(client);
+        client.connect("localhost", 1987, "installer", "secret");
+        await timers.advance();
+        return {client: client, errors: errors};
+    }
+
+    it("authorizes with a gateway not reporting the protocol version", async () => {
+        const {client, errors} = await connectAnswering(frame => frame.replace(/^protocol_version:.*\n/m, ""));
+
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+        assert.equal(client.getCapabilities()?.protocolVersion, 1);
+        assert.deepEqual(errors, []);
+    });
+
+    it("rejects a protocol version lower than the advertised ones", async () => {
+        const {client, errors} = await connectAnswering(frame => frame.replace(/^protocol_version:.*$/m, "protocol_version:0"));
+
+        assert.notEqual(client.getState(), SIConnectionState.CONNECTED);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof SIProtocolVersionError);
+    });
+});
+
+describe("SIBluetoothGatewayClient protocol version negotiation", () => {
+    it("advertises the protocol version as a single integer understood by installed gateways", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        await connectBluetooth(gateway, timers);
+
+        const advertised = Buffer.concat([CBOR_encode(0x01), CBOR_encode("installer"), CBOR_encode("secret"), CBOR_encode(1)]);
+        assert.equal(Buffer.from(gateway.receivedFrames[0] as Uint8Array).toString("hex"), advertised.toString("hex"));
+    });
+
+    it("is rejected by the gateway if the protocol version is advertised as a list", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        const codec = SIBluetoothGatewayClient as any;
+        codec.encodeAuthorizeFrame = (user: string, password: string) => codec.join(CBOR_encode(0x01), CBOR_encode(user), CBOR_encode(password), CBOR_encode([1]));
+        try {
+            let errors: Array<SIProtocolError> = [];
+
+            await assert.rejects(connectBluetooth(gateway, timers, client => errors = collectErrors(client)));
+
+            assert.equal(errors.length, 1);
+            assert.equal(errors[0].message, "invalid protocol version");
+        } finally {
+            delete codec.encodeAuthorizeFrame;
+        }
+    });
+});
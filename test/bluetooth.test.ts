@@ -0,0 +1,275 @@
+import {strict as assert} from "assert";
+import {SIBluetoothGatewayClient, SIConnectionState, SIInvalidStateError, SIStatus, SITransportError} from "../openstuder";
+import {collectErrors, connectBluetooth, createGateway, installFakeBluetooth, ManualTimers, observe} from "./helpers";
+
+describe("SIBluetoothGatewayClient with fake Bluetooth", () => {
+    it("reassembles frames received in multiple fragments", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway).setFragmentSize(3);
+        const client = await connectBluetooth(gateway, timers);
+
+        const read = client.readPropertyAsync("demo.inv.3136");
+        const description = client.describeAsync("demo", undefined, undefined);
+        await timers.advance();
+
+        assert.deepEqual(await read, {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: 230.5});
+        assert.equal((await description).status, SIStatus.SUCCESS);
+    });
+
+    it("sends frames larger than a fragment in multiple fragments", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers);
+
+        const pattern = "demo.inv." + "x".repeat(1200);
+        const found = client.findPropertiesAsync(pattern);
+        await timers.advance();
+
+        assert.equal((await found).status, SIStatus.SUCCESS);
+        const frame = gateway.receivedFrames[gateway.receivedFrames.length - 1] as Uint8Array;
+        assert.ok(frame.length > 1200);
+    });
+
+    it("fails to connect if the user cancels the device chooser", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway).setDeviceSelectable(false);
+        const client = new SIBluetoothGatewayClient();
+        client.setTimerProvider(timers);
+        const errors = collectErrors(client);
+
+        client.connect("installer", "secret");
+        await timers.advance();
+
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof SITransportError);
+    });
+
+    it("fails pending requests if the device disconnects", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const bluetooth = installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers);
+        let disconnected = 0;
+        client.on("disconnected", () => disconnected += 1);
+
+        gateway.setLatency(100);
+        const read = observe(client.readPropertyAsync("demo.inv.3136"));
+        await timers.advance(50);
+        bluetooth.simulateDisconnect();
+        await timers.advance(100);
+
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+        assert.equal(disconnected, 1);
+        assert.equal(read.state, "rejected");
+        assert.equal(gateway.getConnectionCount(), 0);
+    });
+
+    it("reconnects after the device disconnected if enabled", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const bluetooth = installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers, client => client.setAutoReconnect(true, {initialDelay: 1000}));
+
+        bluetooth.simulateDisconnect();
+        await timers.advance();
+        assert.notEqual(client.getState(), SIConnectionState.CONNECTED);
+        await timers.advance(1000);
+
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+        const read = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance();
+        assert.equal((await read).value, 230.5);
+    });
+
+    it("reports failed writes", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const bluetooth = installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers);
+        const errors = collectErrors(client);
+
+        bluetooth.failWrites(1, "NetworkError: GATT operation failed");
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+
+        assert.equal(errors.length, 1);
+        assert.ok(errors[0] instanceof SITransportError);
+        assert.equal(errors[0].message, "NetworkError: GATT operation failed");
+
+        const read = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance();
+        assert.equal((await read).value, 230.5);
+    });
+
+    it("aborts the reconnection if disconnected during the reconnection delay", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const bluetooth = installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers, client => client.setAutoReconnect(true, {initialDelay: 1000}));
+        const errors = collectErrors(client);
+        let disconnected = 0;
+        client.on("disconnected", () => disconnected += 1);
+
+        bluetooth.simulateDisconnect();
+        await timers.advance();
+        client.disconnect();
+        await timers.advance(5000);
+
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+        assert.equal(disconnected, 1);
+        assert.deepEqual(errors, []);
+        assert.equal(gateway.getConnectionCount(), 0);
+    });
+
+    it("aborts connecting if disconnected while the GATT connection is established", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        gateway.setLatency(100);
+        const client = new SIBluetoothGatewayClient();
+        client.setTimerProvider(timers);
+        const errors = collectErrors(client);
+        let disconnected = 0;
+        client.on("disconnected", () => disconnected += 1);
+
+        client.connect("installer", "secret");
+        await timers.advance(50);
+        client.disconnect();
+        await timers.advance(1000);
+
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+        assert.equal(disconnected, 1);
+        assert.deepEqual(errors, []);
+        assert.equal(gateway.getConnectionCount(), 0);
+    });
+
+    it("aborts connecting if disconnected while the user selects the device", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        const client = new SIBluetoothGatewayClient();
+        client.setTimerProvider(timers);
+        const errors = collectErrors(client);
+
+        client.connect("installer", "secret");
+        client.disconnect();
+        await timers.advance(1000);
+
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+        assert.deepEqual(errors, []);
+        assert.equal(gateway.getConnectionCount(), 0);
+    });
+
+    it("does not send FIND PROPERTIES if the gateway lacks the capability", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers, client => client.setCapabilityRule("findProperties", {minGatewayVersion: "1.0.0"}));
+        const sent = gateway.receivedFrames.length;
+
+        await assert.rejects(client.findPropertiesAsync("*.*.3136"), SIInvalidStateError);
+
+        assert.equal(gateway.receivedFrames.length, sent);
+        client.setCapabilityRule("findProperties", {minGatewayVersion: "0.6.0"});
+        const found = client.findPropertiesAsync("*.*.3136");
+        await timers.advance();
+        assert.deepEqual((await found).properties, ["demo.inv.3136"]);
+    });
+});
+
+describe("SIBluetoothGatewayClient batch operations", () => {
+    async function connect(timers: ManualTimers) {
+        const gateway = createGateway(timers);
+        installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers);
+        return {gateway: gateway, client: client};
+    }
+
+    it("sends all read requests before the first response arrives", async () => {
+        const timers = new ManualTimers();
+        const {gateway, client} = await connect(timers);
+        const frames = gateway.receivedFrames.length;
+
+        gateway.setLatency(100);
+        const read = observe(client.readPropertiesAsync(["demo.inv.3136", "demo.bat.7002", "demo.inv.9999"]));
+        await timers.advance(50);
+        assert.equal(gateway.receivedFrames.length, frames + 3);
+        assert.equal(read.state, "pending");
+        await timers.advance(100);
+
+        assert.deepEqual(read.value, [
+            {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: 230.5},
+            {status: SIStatus.SUCCESS, id: "demo.bat.7002", value: 52.1},
+            {status: SIStatus.NO_PROPERTY, id: "demo.inv.9999", value: undefined}
+        ]);
+    });
+
+    it("reports the batch as a whole without the callbacks for the individual properties", async () => {
+        const timers = new ManualTimers();
+        const {client} = await connect(timers);
+        let individual = 0;
+        let batches: Array<Array<any>> = [];
+        client.on("propertyRead", () => individual += 1);
+        client.on("propertySubscribed", () => individual += 1);
+        client.on("propertyUnsubscribed", () => individual += 1);
+        client.on("propertiesRead", results => batches.push(results));
+        client.on("propertiesSubscribed", statuses => batches.push(statuses));
+        client.on("propertiesUnsubscribed", statuses => batches.push(statuses));
+
+        client.readProperties(["demo.inv.3136", "demo.inv.3137"]);
+        client.subscribeToProperties(["demo.inv.3136", "demo.inv.3137"]);
+        client.unsubscribeFromProperties(["demo.inv.3136"]);
+        await timers.advance();
+
+        assert.equal(individual, 0);
+        assert.deepEqual(batches, [
+            [{status: SIStatus.SUCCESS, id: "demo.inv.3136", value: 230.5}, {status: SIStatus.SUCCESS, id: "demo.inv.3137", value: 50}],
+            [{status: SIStatus.SUCCESS, id: "demo.inv.3136"}, {status: SIStatus.SUCCESS, id: "demo.inv.3137"}],
+            [{status: SIStatus.SUCCESS, id: "demo.inv.3136"}]
+        ]);
+    });
+
+    it("subscribes to and unsubscribes from multiple properties", async () => {
+        const timers = new ManualTimers();
+        const {gateway, client} = await connect(timers);
+        let updates: Array<string> = [];
+        client.on("propertyUpdated", propertyId => updates.push(propertyId));
+
+        client.subscribeToPropertiesAsync(["demo.inv.3136", "demo.bat.7002"]);
+        await timers.advance();
+        gateway.setPropertyValue("demo.inv.3136", 231);
+        gateway.setPropertyValue("demo.bat.7002", 52.5);
+        await timers.advance();
+        client.unsubscribeFromPropertiesAsync(["demo.inv.3136", "demo.bat.7002"]);
+        await timers.advance();
+        gateway.setPropertyValue("demo.inv.3136", 232);
+        gateway.setPropertyValue("demo.bat.7002", 53);
+        await timers.advance();
+
+        assert.deepEqual(updates, ["demo.inv.3136", "demo.bat.7002"]);
+    });
+
+    it("reports the individual callbacks again once the batch completed", async () => {
+        const timers = new ManualTimers();
+        const {client} = await connect(timers);
+        let individual: Array<string> = [];
+        client.on("propertyRead", (_, propertyId) => individual.push(propertyId));
+
+        client.readPropertiesAsync(["demo.inv.3136"]);
+        await timers.advance();
+        client.readPropertyAsync("demo.inv.3136");
+        await timers.advance();
+
+        assert.deepEqual(individual, ["demo.inv.3136"]);
+    });
+
+    it("rejects a batch if the client is not connected", async () => {
+        const client = new SIBluetoothGatewayClient();
+
+        await assert.rejects(client.readPropertiesAsync(["demo.inv.3136"]), SIInvalidStateError);
+    });
+});
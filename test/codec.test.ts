@@ -0,0 +1,480 @@
+import {strict as assert} from "assert";
+import {encode as CBOR_encode} from "cbor-x/encode";
+import {
+    SIAccessLevel,
+    SIAuthorizationError,
+    SIBluetoothGatewayClient,
+    SIDescriptionFlags,
+    SIDeviceFunctions,
+    SIExtensionStatus,
+    SIGatewayClient,
+    SIGatewayError,
+    SIMalformedDatalogLineHandling,
+    SIProtocolError,
+    SIProtocolVersionError,
+    SIStatus,
+    SIWriteFlags
+} from "../openstuder";
+
+// The codecs are protected static methods of the client base classes.
+const ws = SIGatewayClient as any;
+const bt = SIBluetoothGatewayClient as any;
+
+function hex(frame: Uint8Array): string {
+    return Buffer.from(frame).toString("hex");
+}
+
+function bytes(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, "hex"));
+}
+
+function cbor(...values: Array<any>): Uint8Array {
+    return bt.join(...values.map(value => CBOR_encode(value)));
+}
+
+describe("WebSocket codec", () => {
+    describe("frame decoding", () => {
+        it("splits command, headers and body", () => {
+            const decoded = ws.decodeFrame("DESCRIPTION\nstatus:Success\nid:demo\n\n{\"a\":1}");
+            assert.equal(decoded.command, "DESCRIPTION");
+            assert.deepEqual(Array.from(decoded.headers.entries()), [["status", "Success"], ["id", "demo"]]);
+            assert.equal(decoded.body, "{\"a\":1}");
+        });
+
+        it("keeps ':' in header values", () => {
+            const decoded = ws.decodeFrame("DEVICE MESSAGE\ntimestamp:2021-03-04T10:20:30.000Z\nmessage:a:b\n\n");
+            assert.equal(decoded.headers.get("timestamp"), "2021-03-04T10:20:30.000Z");
+            assert.equal(decoded.headers.get("message"), "a:b");
+        });
+
+        it("keeps empty lines and line breaks in the body", () => {
+            const decoded = ws.decodeFrame("DATALOG READ\nstatus:Success\ncount:0\n\nline1\n\nline3\n");
+            assert.equal(decoded.body, "line1\n\nline3\n");
+        });
+
+        it("accepts frames without body", () => {
+            assert.equal(ws.decodeFrame("ENUMERATED\nstatus:Success\n\n").body, "");
+            assert.equal(ws.decodeFrame("ENUMERATED\nstatus:Success\n").headers.get("status"), "Success");
+        });
+
+        it("rejects frames without line break", () => {
+            assert.throws(() => ws.decodeFrame("ENUMERATED"), SIProtocolError);
+        });
+    });
+
+    describe("request encoding", () => {
+        it("AUTHORIZE", () => {
+            assert.equal(ws.encodeAuthorizeFrame("user", "pass"), "AUTHORIZE\nuser:user\npassword:pass\nprotocol_version:1\n\n");
+            assert.equal(ws.encodeAuthorizeFrame("", ""), "AUTHORIZE\nprotocol_version:1\n\n");
+        });
+
+        it("ENUMERATE", () => {
+            assert.equal(ws.encodeEnumerateFrame(), "ENUMERATE\n\n");
+        });
+
+        it("DESCRIBE", () => {
+            assert.equal(ws.encodeDescribeFrame(), "DESCRIBE\n\n");
+            assert.equal(ws.encodeDescribeFrame("demo", "inv", 3136), "DESCRIBE\nid:demo.inv.3136\n\n");
+            assert.equal(ws.encodeDescribeFrame("demo", undefined, undefined, [SIDescriptionFlags.INCLUDE_ACCESS_INFORMATION, SIDescriptionFlags.INCLUDE_DRIVER_INFORMATION]),
+                "DESCRIBE\nid:demo\nflags:IncludeAccessInformation,IncludeDriverInformation\n\n");
+        });
+
+        it("FIND PROPERTIES", () => {
+            assert.equal(ws.encodeFindPropertiesFrame("*.*.3136"), "FIND PROPERTIES\nid:*.*.3136\n\n");
+            assert.equal(ws.encodeFindPropertiesFrame("*.*.3136", false, [SIDeviceFunctions.INVERTER, SIDeviceFunctions.SOLAR]),
+                "FIND PROPERTIES\nid:*.*.3136\nvirtual:false\nfunctions:inverter,solar\n\n");
+        });
+
+        it("READ PROPERTY", () => {
+            assert.equal(ws.encodeReadPropertyFrame("demo.inv.3136"), "READ PROPERTY\nid:demo.inv.3136\n\n");
+        });
+
+        it("READ PROPERTIES", () => {
+            assert.equal(ws.encodeReadPropertiesFrame(["demo.inv.3136", "demo.bat.7002"]), "READ PROPERTIES\n\n[\"demo.inv.3136\",\"demo.bat.7002\"]");
+        });
+
+        it("WRITE PROPERTY", () => {
+            assert.equal(ws.encodeWritePropertyFrame("demo.inv.1415"), "WRITE PROPERTY\nid:demo.inv.1415\n\n");
+            assert.equal(ws.encodeWritePropertyFrame("demo.inv.1107", "42", SIWriteFlags.PERMANENT), "WRITE PROPERTY\nid:demo.inv.1107\nflags:Permanent\nvalue:42\n\n");
+        });
+
+        it("SUBSCRIBE PROPERTY and SUBSCRIBE PROPERTIES", () => {
+            assert.equal(ws.encodeSubscribePropertyFrame("demo.inv.3136"), "SUBSCRIBE PROPERTY\nid:demo.inv.3136\n\n");
+            assert.equal(ws.encodeSubscribePropertiesFrame(["demo.inv.3136"]), "SUBSCRIBE PROPERTIES\n\n[\"demo.inv.3136\"]");
+        });
+
+        it("UNSUBSCRIBE PROPERTY and UNSUBSCRIBE PROPERTIES", () => {
+            assert.equal(ws.encodeUnsubscribePropertyFrame("demo.inv.3136"), "UNSUBSCRIBE PROPERTY\nid:demo.inv.3136\n\n");
+            assert.equal(ws.encodeUnsubscribePropertiesFrame(["demo.inv.3136"]), "UNSUBSCRIBE PROPERTIES\n\n[\"demo.inv.3136\"]");
+        });
+
+        it("READ DATALOG", () => {
+            assert.equal(ws.encodeReadDatalogFrame(), "READ DATALOG\n\n");
+            assert.equal(ws.encodeReadDatalogFrame("demo.inv.3136", new Date(Date.UTC(2021, 2, 4, 10, 20, 30)), new Date(Date.UTC(2021, 2, 5)), 100),
+                "READ DATALOG\nid:demo.inv.3136\nfrom:2021-03-04T10:20:30.000Z\nto:2021-03-05T00:00:00.000Z\nlimit:100\n\n");
+        });
+
+        it("READ MESSAGES", () => {
+            assert.equal(ws.encodeReadMessagesFrame(), "READ MESSAGES\n\n");
+            assert.equal(ws.encodeReadMessagesFrame(new Date(Date.UTC(2021, 2, 4)), undefined, 10), "READ MESSAGES\nfrom:2021-03-04T00:00:00.000Z\nlimit:10\n\n");
+        });
+
+        it("CALL EXTENSION", () => {
+            assert.equal(ws.encodeCallExtensionFrame("WifiConfig", "status"), "CALL EXTENSION\nextension:WifiConfig\ncommand:status\n\n");
+            assert.equal(ws.encodeCallExtensionFrame("WifiConfig", "setup", new Map([["ssid", "home"]]), "secret"),
+                "CALL EXTENSION\nextension:WifiConfig\ncommand:setup\nssid:home\n\nsecret");
+        });
+    });
+
+    describe("response decoding", () => {
+        it("AUTHORIZED", () => {
+            const decoded = ws.decodeAuthorizedFrame("AUTHORIZED\naccess_level:Installer\nprotocol_version:1\ngateway_version:0.6.0\nextensions:WifiConfig,BluetoothConfig\n\n");
+            assert.deepEqual(decoded, {accessLevel: SIAccessLevel.INSTALLER, protocolVersion: 1, gatewayVersion: "0.6.0", extensions: ["WifiConfig", "BluetoothConfig"]});
+        });
+
+        it("AUTHORIZED with unsupported protocol version", () => {
+            assert.throws(() => ws.decodeAuthorizedFrame("AUTHORIZED\naccess_level:Basic\nprotocol_version:99\ngateway_version:9.0.0\n\n"), SIProtocolVersionError);
+            assert.throws(() => ws.decodeAuthorizedFrame("AUTHORIZED\naccess_level:Basic\nprotocol_version:0\ngateway_version:0.1.0\n\n"), SIProtocolVersionError);
+        });
+
+        it("AUTHORIZED without protocol version", () => {
+            assert.equal(ws.decodeAuthorizedFrame("AUTHORIZED\naccess_level:Basic\ngateway_version:0.5.0\n\n").protocolVersion, 1);
+        });
+
+        it("ERROR during authorization", () => {
+            assert.throws(() => ws.decodeAuthorizedFrame("ERROR\nreason:invalid user or password\n\n"),
+                (error: any) => error instanceof SIAuthorizationError && error.message === "invalid user or password");
+        });
+
+        it("ENUMERATED", () => {
+            assert.deepEqual(ws.decodeEnumerateFrame("ENUMERATED\nstatus:Success\ndevice_count:3\n\n"), {status: SIStatus.SUCCESS, deviceCount: 3});
+        });
+
+        it("DESCRIPTION", () => {
+            assert.deepEqual(ws.decodeDescriptionFrame("DESCRIPTION\nstatus:Success\nid:demo\n\n{\"id\":\"demo\"}"), {status: SIStatus.SUCCESS, id: "demo", description: "{\"id\":\"demo\"}"});
+            assert.deepEqual(ws.decodeDescriptionFrame("DESCRIPTION\nstatus:NoDeviceAccess\nid:none\n\n"), {status: SIStatus.NO_DEVICE_ACCESS, id: "none", description: undefined});
+        });
+
+        it("PROPERTIES FOUND", () => {
+            assert.deepEqual(ws.decodePropertiesFoundFrame("PROPERTIES FOUND\nstatus:Success\nid:*.*.3136\ncount:1\nvirtual:false\nfunctions:inverter\n\n[\"demo.inv.3136\"]"), {
+                status: SIStatus.SUCCESS,
+                id: "*.*.3136",
+                count: 1,
+                virtual: false,
+                functions: new Set([SIDeviceFunctions.INVERTER]),
+                properties: ["demo.inv.3136"]
+            });
+        });
+
+        it("PROPERTY READ", () => {
+            assert.deepEqual(ws.decodePropertyReadFrame("PROPERTY READ\nstatus:Success\nid:demo.inv.3136\nvalue:1.5\n\n"), {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: 1.5});
+            assert.deepEqual(ws.decodePropertyReadFrame("PROPERTY READ\nstatus:Success\nid:demo.inv.3136\nvalue:1.5\n\n", new Map([["demo.inv.3136", "String"]])),
+                {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: "1.5"});
+            assert.deepEqual(ws.decodePropertyReadFrame("PROPERTY READ\nstatus:NoProperty\nid:demo.inv.1\n\n"), {status: SIStatus.NO_PROPERTY, id: "demo.inv.1", value: undefined});
+        });
+
+        it("PROPERTIES READ", () => {
+            assert.deepEqual(ws.decodePropertiesReadFrame("PROPERTIES READ\nstatus:Success\n\n[{\"status\":\"Success\",\"id\":\"demo.inv.3136\",\"value\":\"true\"}," +
+                "{\"status\":\"NoProperty\",\"id\":\"demo.inv.1\"}]"), [
+                {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: true},
+                {status: SIStatus.NO_PROPERTY, id: "demo.inv.1", value: undefined}
+            ]);
+        });
+
+        it("PROPERTY WRITTEN", () => {
+            assert.deepEqual(ws.decodePropertyWrittenFrame("PROPERTY WRITTEN\nstatus:InvalidValue\nid:demo.inv.1107\n\n"), {status: SIStatus.INVALID_VALUE, id: "demo.inv.1107"});
+        });
+
+        it("PROPERTY SUBSCRIBED and PROPERTIES SUBSCRIBED", () => {
+            assert.deepEqual(ws.decodePropertySubscribedFrame("PROPERTY SUBSCRIBED\nstatus:Success\nid:demo.inv.3136\n\n"), {status: SIStatus.SUCCESS, id: "demo.inv.3136"});
+            assert.deepEqual(ws.decodePropertiesSubscribedFrame("PROPERTIES SUBSCRIBED\nstatus:Success\n\n[{\"status\":\"Success\",\"id\":\"demo.inv.3136\"}]"),
+                [{status: SIStatus.SUCCESS, id: "demo.inv.3136"}]);
+        });
+
+        it("PROPERTY UNSUBSCRIBED and PROPERTIES UNSUBSCRIBED", () => {
+            assert.deepEqual(ws.decodePropertyUnsubscribedFrame("PROPERTY UNSUBSCRIBED\nstatus:Success\nid:demo.inv.3136\n\n"), {status: SIStatus.SUCCESS, id: "demo.inv.3136"});
+            assert.deepEqual(ws.decodePropertiesUnsubscribedFrame("PROPERTIES UNSUBSCRIBED\nstatus:Success\n\n[{\"status\":\"NoProperty\",\"id\":\"demo.inv.1\"}]"),
+                [{status: SIStatus.NO_PROPERTY, id: "demo.inv.1"}]);
+        });
+
+        it("PROPERTY UPDATE", () => {
+            assert.deepEqual(ws.decodePropertyUpdateFrame("PROPERTY UPDATE\nid:demo.inv.3136\nvalue:230.5\n\n"), {id: "demo.inv.3136", value: 230.5});
+        });
+
+        it("DATALOG READ with property ID", () => {
+            const decoded = ws.decodeDatalogReadFrame("DATALOG READ\nstatus:Success\nid:demo.inv.3136\ncount:2\n\n2021-03-04T10:20:30.000Z,1\n\n2021-03-04T10:21:30.000Z,2\n");
+            assert.equal(decoded.status, SIStatus.SUCCESS);
+            assert.equal(decoded.count, 2);
+            assert.deepEqual(decoded.values, [
+                {timestamp: new Date("2021-03-04T10:20:30.000Z"), value: 1},
+                {timestamp: new Date("2021-03-04T10:21:30.000Z"), value: 2}
+            ]);
+            assert.deepEqual(decoded.properties, []);
+        });
+
+        it("DATALOG READ without property ID", () => {
+            const decoded = ws.decodeDatalogReadFrame("DATALOG READ\nstatus:Success\ncount:2\n\ndemo.inv.3136\ndemo.bat.7002");
+            assert.equal(decoded.id, undefined);
+            assert.deepEqual(decoded.properties, ["demo.inv.3136", "demo.bat.7002"]);
+            assert.deepEqual(decoded.values, []);
+        });
+
+        it("DATALOG READ with malformed lines", () => {
+            const frame = "DATALOG READ\nstatus:Success\nid:demo.inv.3136\ncount:3\n\nnot a timestamp,1\n2021-03-04T10:20:30.000Z,\n2021-03-04T10:21:30.000Z,2";
+            assert.deepEqual(ws.decodeDatalogReadFrame(frame).values, [{timestamp: new Date("2021-03-04T10:21:30.000Z"), value: 2}]);
+            assert.throws(() => ws.decodeDatalogReadFrame(frame, SIMalformedDatalogLineHandling.FAIL), SIProtocolError);
+        });
+
+        it("MESSAGES READ", () => {
+            const decoded = ws.decodeMessagesReadFrame("MESSAGES READ\nstatus:Success\ncount:1\n\n" +
+                "[{\"timestamp\":\"2021-03-04T10:20:30.000Z\",\"access_id\":\"demo\",\"device_id\":\"inv\",\"message_id\":\"11\",\"message\":\"Battery low\"}]");
+            assert.deepEqual(decoded, {
+                status: SIStatus.SUCCESS,
+                count: 1,
+                messages: [{timestamp: new Date("2021-03-04T10:20:30.000Z"), accessId: "demo", deviceId: "inv", messageId: "11", message: "Battery low"}]
+            });
+        });
+
+        it("DEVICE MESSAGE", () => {
+            assert.deepEqual(ws.decodeDeviceMessageFrame("DEVICE MESSAGE\naccess_id:demo\ndevice_id:inv\nmessage_id:11\nmessage:Battery low\ntimestamp:2021-03-04T10:20:30.000Z\n\n"),
+                {timestamp: new Date("2021-03-04T10:20:30.000Z"), accessId: "demo", deviceId: "inv", messageId: "11", message: "Battery low"});
+        });
+
+        it("EXTENSION CALLED", () => {
+            assert.deepEqual(ws.decodeExtensionsCalledFrame("EXTENSION CALLED\nextension:WifiConfig\ncommand:status\nstatus:Success\nconnected:true\n\nbody"), {
+                extension: "WifiConfig",
+                command: "status",
+                status: SIExtensionStatus.SUCCESS,
+                headers: new Map([["connected", "true"]]),
+                body: "body"
+            });
+        });
+
+        it("ERROR frames", () => {
+            const decoders = ["decodeEnumerateFrame", "decodeDescriptionFrame", "decodePropertiesFoundFrame", "decodePropertyReadFrame", "decodePropertiesReadFrame",
+                "decodePropertyWrittenFrame", "decodePropertySubscribedFrame", "decodePropertiesSubscribedFrame", "decodePropertyUnsubscribedFrame",
+                "decodePropertiesUnsubscribedFrame", "decodePropertyUpdateFrame", "decodeDatalogReadFrame", "decodeMessagesReadFrame", "decodeDeviceMessageFrame",
+                "decodeExtensionsCalledFrame"];
+            decoders.forEach(decoder => {
+                assert.throws(() => ws[decoder]("ERROR\nreason:no:pe\n\n"), (error: any) => error instanceof SIGatewayError && error.message === "no:pe", decoder);
+            });
+        });
+
+        it("unexpected and malformed frames", () => {
+            const decoders = ["decodeAuthorizedFrame", "decodeEnumerateFrame", "decodeDescriptionFrame", "decodePropertiesFoundFrame", "decodePropertyReadFrame",
+                "decodePropertiesReadFrame", "decodePropertyWrittenFrame", "decodePropertySubscribedFrame", "decodePropertiesSubscribedFrame",
+                "decodePropertyUnsubscribedFrame", "decodePropertiesUnsubscribedFrame", "decodePropertyUpdateFrame", "decodeDatalogReadFrame", "decodeMessagesReadFrame",
+                "decodeDeviceMessageFrame", "decodeExtensionsCalledFrame"];
+            decoders.forEach(decoder => {
+                assert.throws(() => ws[decoder]("SOMETHING ELSE\nstatus:Success\n\n"), (error: any) => error instanceof SIProtocolError && !(error instanceof SIGatewayError), decoder);
+                assert.throws(() => ws[decoder]("garbage"), SIProtocolError, decoder);
+            });
+        });
+    });
+
+    describe("round-trips", () => {
+        it("decodes the frames built by the generic frame encoder", () => {
+            assert.deepEqual(ws.decodePropertyReadFrame(ws.encodeTimeoutFrame("PROPERTY READ", [["status", "Timeout"], ["id", "demo.inv.3136"]])),
+                {status: SIStatus.TIMEOUT, id: "demo.inv.3136", value: undefined});
+            assert.deepEqual(ws.decodeEnumerateFrame(ws.encodeTimeoutFrame("ENUMERATED", [["status", "Timeout"], ["device_count", 0]])), {status: SIStatus.TIMEOUT, deviceCount: 0});
+            assert.deepEqual(ws.decodeExtensionsCalledFrame(ws.encodeTimeoutFrame("EXTENSION CALLED", [["extension", "x"], ["command", "y"], ["status", "Error"]])),
+                {extension: "x", command: "y", status: SIExtensionStatus.ERROR, headers: new Map(), body: ""});
+            assert.deepEqual(ws.decodeDeviceMessageFrame(ws.encodeTimeoutFrame("DEVICE MESSAGE", [["access_id", "a"], ["device_id", "b"], ["message_id", "1"],
+                ["message", "m"], ["timestamp", "2021-03-04T10:20:30.000Z"], ["ignored", undefined]])),
+                {timestamp: new Date("2021-03-04T10:20:30.000Z"), accessId: "a", deviceId: "b", messageId: "1", message: "m"});
+        });
+
+        it("reads back the command of encoded requests", () => {
+            assert.equal(ws.peekFrameCommand(ws.encodeReadPropertyFrame("demo.inv.3136")), "READ PROPERTY");
+            assert.equal(ws.decodeFrame(ws.encodeCallExtensionFrame("x", "y", new Map([["k", "v:w"]]), "a\n\nb")).headers.get("k"), "v:w");
+            assert.equal(ws.decodeFrame(ws.encodeCallExtensionFrame("x", "y", new Map(), "a\n\nb")).body, "a\n\nb");
+        });
+    });
+});
+
+describe("Bluetooth codec", () => {
+    describe("request encoding", () => {
+        it("AUTHORIZE (0x01)", () => {
+            assert.equal(hex(bt.encodeAuthorizeFrame("user", "pass")), "016475736572647061737301");
+            assert.equal(hex(bt.encodeAuthorizeFrame(undefined, undefined)), "01f7f701");
+        });
+
+        it("ENUMERATE (0x02)", () => {
+            assert.equal(hex(bt.encodeEnumerateFrame()), "02");
+        });
+
+        it("DESCRIBE (0x03)", () => {
+            assert.equal(hex(bt.encodeDescribeFrame()), "03f6");
+            assert.equal(hex(bt.encodeDescribeFrame("a", "b", 3, [SIDescriptionFlags.INCLUDE_ACCESS_INFORMATION])),
+                "0365612e622e33817818496e636c756465416363657373496e666f726d6174696f6e");
+        });
+
+        it("FIND PROPERTIES (0x0A)", () => {
+            assert.equal(hex(bt.encodeFindPropertiesFrame("*.*.3136")), "0a682a2e2a2e33313336f6f6");
+            assert.equal(hex(bt.encodeFindPropertiesFrame("*.*.3136", true, [SIDeviceFunctions.INVERTER])), "0a682a2e2a2e33313336f58168696e766572746572");
+        });
+
+        it("READ PROPERTY (0x04)", () => {
+            assert.equal(hex(bt.encodeReadPropertyFrame("a.b.1")), "0465612e622e31");
+        });
+
+        it("WRITE PROPERTY (0x05)", () => {
+            assert.equal(hex(bt.encodeWritePropertyFrame("a.b.1")), "0565612e622e31f6f6");
+            assert.equal(hex(bt.encodeWritePropertyFrame("a.b.1", "42", SIWriteFlags.PERMANENT)), "0565612e622e3101623432");
+        });
+
+        it("SUBSCRIBE PROPERTY (0x06) and UNSUBSCRIBE PROPERTY (0x07)", () => {
+            assert.equal(hex(bt.encodeSubscribePropertyFrame("a.b.1")), "0665612e622e31");
+            assert.equal(hex(bt.encodeUnsubscribePropertyFrame("a.b.1")), "0765612e622e31");
+        });
+
+        it("READ DATALOG (0x08) with timestamps in milliseconds", () => {
+            assert.equal(hex(bt.encodeReadDatalogFrame()), "08f6f6f6f6");
+            assert.equal(hex(bt.encodeReadDatalogFrame("a.b.1", new Date(1600000000000), new Date(1600000001000), 10)),
+                "0865612e622e31fb42774876e8000000fb42774876e83e80000a");
+        });
+
+        it("READ MESSAGES (0x09) with timestamps in milliseconds", () => {
+            assert.equal(hex(bt.encodeReadMessagesFrame(new Date(1600000000000), undefined, 5)), "09fb42774876e8000000f605");
+        });
+
+        it("CALL EXTENSION (0x0B)", () => {
+            assert.equal(hex(bt.encodeCallExtensionFrame("WifiConfig", "status", [1, "x"])), "0b6a57696669436f6e66696766737461747573016178");
+        });
+    });
+
+    describe("response decoding", () => {
+        it("AUTHORIZED (0x81)", () => {
+            assert.deepEqual(bt.decodeAuthorizedFrame(cbor(0x81, SIAccessLevel.EXPERT, 1, "0.6.0", "WifiConfig,BluetoothConfig")),
+                {accessLevel: SIAccessLevel.EXPERT, protocolVersion: 1, gatewayVersion: "0.6.0", extensions: ["WifiConfig", "BluetoothConfig"]});
+            assert.deepEqual(bt.decodeAuthorizedFrame(cbor(0x81, SIAccessLevel.BASIC, 1, "0.5.0")).extensions, []);
+            assert.throws(() => bt.decodeAuthorizedFrame(cbor(0x81, SIAccessLevel.BASIC, 99, "9.0.0")), SIProtocolVersionError);
+            assert.throws(() => bt.decodeAuthorizedFrame(cbor(0x81, SIAccessLevel.BASIC, 0, "0.1.0")), SIProtocolVersionError);
+            assert.throws(() => bt.decodeAuthorizedFrame(cbor(0xFF, "invalid user or password")), SIAuthorizationError);
+        });
+
+        it("ENUMERATED (0x82)", () => {
+            assert.deepEqual(bt.decodeEnumerateFrame(bytes("18820003")), {status: SIStatus.SUCCESS, deviceCount: 3});
+        });
+
+        it("DESCRIPTION (0x83)", () => {
+            assert.deepEqual(bt.decodeDescriptionFrame(cbor(0x83, SIStatus.SUCCESS, "demo", {id: "demo"})), {status: SIStatus.SUCCESS, id: "demo", description: {id: "demo"}});
+            assert.deepEqual(bt.decodeDescriptionFrame(cbor(0x83, SIStatus.NO_DEVICE_ACCESS, null, null)), {status: SIStatus.NO_DEVICE_ACCESS, id: null, description: null});
+        });
+
+        it("PROPERTIES FOUND (0x8A)", () => {
+            assert.deepEqual(bt.decodePropertiesFoundFrame(cbor(0x8A, SIStatus.SUCCESS, "*.*.3136", 1, false, ["inverter"], ["demo.inv.3136"])), {
+                status: SIStatus.SUCCESS,
+                id: "*.*.3136",
+                count: 1,
+                virtual: false,
+                functions: new Set([SIDeviceFunctions.INVERTER]),
+                properties: ["demo.inv.3136"]
+            });
+            assert.deepEqual(bt.decodePropertiesFoundFrame(cbor(0x8A, SIStatus.SUCCESS, "*.*.3136", 0, true, null, [])).functions, new Set([SIDeviceFunctions.ALL]));
+        });
+
+        it("PROPERTY READ (0x84)", () => {
+            assert.deepEqual(bt.decodePropertyReadFrame(bytes("18840065612e622e31fa3fc00000")), {status: SIStatus.SUCCESS, id: "a.b.1", value: 1.5});
+            assert.deepEqual(bt.decodePropertyReadFrame(cbor(0x84, SIStatus.NO_PROPERTY, "a.b.1")), {status: SIStatus.NO_PROPERTY, id: "a.b.1", value: undefined});
+        });
+
+        it("PROPERTY WRITTEN (0x85)", () => {
+            assert.deepEqual(bt.decodePropertyWrittenFrame(cbor(0x85, SIStatus.SUCCESS, "a.b.1")), {status: SIStatus.SUCCESS, id: "a.b.1"});
+        });
+
+        it("PROPERTY SUBSCRIBED (0x86) and PROPERTY UNSUBSCRIBED (0x87)", () => {
+            assert.deepEqual(bt.decodePropertySubscribedFrame(cbor(0x86, SIStatus.SUCCESS, "a.b.1")), {status: SIStatus.SUCCESS, id: "a.b.1"});
+            assert.deepEqual(bt.decodePropertyUnsubscribedFrame(cbor(0x87, SIStatus.NO_PROPERTY, "a.b.1")), {status: SIStatus.NO_PROPERTY, id: "a.b.1"});
+        });
+
+        it("PROPERTY UPDATE (0xFE)", () => {
+            assert.deepEqual(bt.decodePropertyUpdateFrame(cbor(0xFE, "a.b.1", true)), {id: "a.b.1", value: true});
+        });
+
+        it("DATALOG READ (0x88) keeps timestamps in milliseconds", () => {
+            assert.deepEqual(bt.decodeDatalogReadFrame(cbor(0x88, SIStatus.SUCCESS, "a.b.1", 2, [1600000000000, 1, 1600000001000, 2])),
+                {status: SIStatus.SUCCESS, id: "a.b.1", count: 2, results: [1600000000000, 1, 1600000001000, 2]});
+            assert.deepEqual(bt.decodeDatalogReadFrame(cbor(0x88, SIStatus.SUCCESS, null, 1, ["a.b.1"])), {status: SIStatus.SUCCESS, id: null, count: 1, results: ["a.b.1"]});
+        });
+
+        it("MESSAGES READ (0x89) converts timestamps from seconds", () => {
+            assert.deepEqual(bt.decodeMessagesReadFrame(cbor(0x89, SIStatus.SUCCESS, 1, [1600000000, "demo", "inv", 11, "Battery low"])), {
+                status: SIStatus.SUCCESS,
+                count: 1,
+                messages: [{timestamp: new Date(1600000000000), accessId: "demo", deviceId: "inv", messageId: "11", message: "Battery low"}]
+            });
+            assert.deepEqual(bt.decodeMessagesReadFrame(cbor(0x89, SIStatus.SUCCESS, 2, [1600000000, "demo"])).messages, []);
+        });
+
+        it("DEVICE MESSAGE (0xFD) converts timestamps from seconds", () => {
+            assert.deepEqual(bt.decodeDeviceMessageFrame(cbor(0xFD, 1600000000, "demo", "inv", 11, "Battery low")),
+                {timestamp: new Date(1600000000000), accessId: "demo", deviceId: "inv", messageId: "11", message: "Battery low"});
+        });
+
+        it("EXTENSION CALLED (0x8B)", () => {
+            assert.deepEqual(bt.decodeExtensionCalledFrame(cbor(0x8B, "WifiConfig", "status", SIExtensionStatus.SUCCESS, true, "home")),
+                {extension: "WifiConfig", command: "status", status: SIExtensionStatus.SUCCESS, parameters: [true, "home"]});
+        });
+
+        it("ERROR frames (0xFF)", () => {
+            const decoders = ["decodeEnumerateFrame", "decodeDescriptionFrame", "decodePropertiesFoundFrame", "decodePropertyReadFrame", "decodePropertyWrittenFrame",
+                "decodePropertySubscribedFrame", "decodePropertyUnsubscribedFrame", "decodePropertyUpdateFrame", "decodeDatalogReadFrame", "decodeMessagesReadFrame",
+                "decodeDeviceMessageFrame", "decodeExtensionCalledFrame"];
+            decoders.forEach(decoder => {
+                assert.throws(() => bt[decoder](cbor(0xFF, "no property")), (error: any) => error instanceof SIGatewayError && error.message === "no property", decoder);
+            });
+        });
+
+        it("unexpected and malformed frames", () => {
+            const decoders = ["decodeAuthorizedFrame", "decodeEnumerateFrame", "decodeDescriptionFrame", "decodePropertiesFoundFrame", "decodePropertyReadFrame",
+                "decodePropertyWrittenFrame", "decodePropertySubscribedFrame", "decodePropertyUnsubscribedFrame", "decodePropertyUpdateFrame", "decodeDatalogReadFrame",
+                "decodeMessagesReadFrame", "decodeDeviceMessageFrame", "decodeExtensionCalledFrame"];
+            decoders.forEach(decoder => {
+                assert.throws(() => bt[decoder](cbor(0x80)), (error: any) => error instanceof SIProtocolError && !(error instanceof SIGatewayError), decoder);
+                assert.throws(() => bt[decoder](bytes("7f")), SIProtocolError, decoder);
+            });
+        });
+    });
+
+    describe("round-trips", () => {
+        it("decodes the frames built by the generic frame encoder", () => {
+            assert.deepEqual(bt.decodePropertyReadFrame(bt.encodeTimeoutFrame(0x84, SIStatus.TIMEOUT, "a.b.1", null)), {status: SIStatus.TIMEOUT, id: "a.b.1", value: null});
+            assert.deepEqual(bt.decodeEnumerateFrame(bt.encodeTimeoutFrame(0x82, SIStatus.TIMEOUT, 0)), {status: SIStatus.TIMEOUT, deviceCount: 0});
+            assert.deepEqual(bt.decodeDatalogReadFrame(bt.encodeTimeoutFrame(0x88, SIStatus.TIMEOUT, "a.b.1", 0, [])), {status: SIStatus.TIMEOUT, id: "a.b.1", count: 0, results: []});
+            assert.deepEqual(bt.decodeExtensionCalledFrame(bt.encodeTimeoutFrame(0x8B, "x", "y", SIExtensionStatus.ERROR)),
+                {extension: "x", command: "y", status: SIExtensionStatus.ERROR, parameters: []});
+        });
+
+        it("reads back the command of encoded requests", () => {
+            [
+                [bt.encodeAuthorizeFrame("u", "p"), 0x01], [bt.encodeEnumerateFrame(), 0x02], [bt.encodeDescribeFrame(), 0x03], [bt.encodeReadPropertyFrame("a.b.1"), 0x04],
+                [bt.encodeWritePropertyFrame("a.b.1"), 0x05], [bt.encodeSubscribePropertyFrame("a.b.1"), 0x06], [bt.encodeUnsubscribePropertyFrame("a.b.1"), 0x07],
+                [bt.encodeReadDatalogFrame(), 0x08], [bt.encodeReadMessagesFrame(), 0x09], [bt.encodeFindPropertiesFrame("*"), 0x0A],
+                [bt.encodeCallExtensionFrame("x", "y", []), 0x0B]
+            ].forEach(([frame, command]) => assert.equal(bt.peekFrameCommand(frame), command));
+        });
+
+        it("restores the parameters of encoded requests", () => {
+            const decoded = bt.decodeFrame(bt.encodeCallExtensionFrame("WifiConfig", "setup", ["home", 3, true, null]));
+            assert.deepEqual(decoded, {command: 0x0B, sequence: ["WifiConfig", "setup", "home", 3, true, null]});
+            assert.deepEqual(bt.decodeFrame(bt.encodeReadDatalogFrame("a.b.1", new Date(1600000000000))).sequence, ["a.b.1", 1600000000000, null, null]);
+            assert.deepEqual(bt.decodeFrame(bt.encodeFindPropertiesFrame("*.*.3136")).sequence, ["*.*.3136", null, null]);
+            assert.deepEqual(bt.decodeFrame(bt.encodeFindPropertiesFrame("demo.*.3136", false, [SIDeviceFunctions.INVERTER, SIDeviceFunctions.BATTERY])).sequence,
+                ["demo.*.3136", false, ["inverter", "battery"]]);
+        });
+
+        it("decodes PROPERTIES FOUND (0x8A) for the parameters of FIND PROPERTIES (0x0A)", () => {
+            const request = bt.decodeFrame(bt.encodeFindPropertiesFrame("*.*.3136", true, [SIDeviceFunctions.INVERTER])).sequence;
+            assert.deepEqual(bt.decodePropertiesFoundFrame(bt.encodeTimeoutFrame(0x8A, SIStatus.SUCCESS, request[0], 1, request[1], request[2], ["demo.inv.3136"])), {
+                status: SIStatus.SUCCESS,
+                id: "*.*.3136",
+                count: 1,
+                virtual: true,
+                functions: new Set([SIDeviceFunctions.INVERTER]),
+                properties: ["demo.inv.3136"]
+            });
+            assert.deepEqual(bt.decodePropertiesFoundFrame(bt.encodeTimeoutFrame(0x8A, SIStatus.TIMEOUT, "*.*.3136", 0, false, null, [])).properties, []);
+        });
+    });
+});
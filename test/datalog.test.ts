@@ -0,0 +1,73 @@
+import {strict as assert} from "assert";
+import {SIDataLogEntry} from "../openstuder";
+import {createGateway, ManualTimers, transports} from "./helpers";
+
+async function collect(iterator: AsyncIterableIterator<SIDataLogEntry>, timers: ManualTimers): Promise<Array<[number, any]>> {
+    let entries: Array<[number, any]> = [];
+    let done = false;
+    const loop = (async () => {
+        for await (const entry of iterator) {
+            entries.push([entry.timestamp.getTime(), entry.value]);
+        }
+    })().finally(() => done = true);
+    for (let round = 0; !done; ++round) {
+        assert.ok(round < 100, "datalog read did not complete");
+        await timers.advance();
+    }
+    await loop;
+    return entries;
+}
+
+function fakeSignal(): AbortSignal & {listeners: Set<any>} {
+    const signal = {
+        aborted: false,
+        listeners: new Set<any>(),
+        addEventListener: (_: string, listener: any) => signal.listeners.add(listener),
+        removeEventListener: (_: string, listener: any) => signal.listeners.delete(listener)
+    };
+    return signal as any;
+}
+
+transports.forEach(transport => describe(`${transport.name} paged datalog read`, () => {
+    const t0 = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+    it("yields distinct entries sharing timestamp and value across page boundaries", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const logged: Array<[number, any]> = [[t0, 1], [t0 + 1000, 2], [t0 + 1000, 2], [t0 + 1000, 2], [t0 + 2000, 3], [t0 + 2000, 3], [t0 + 3000, 4]];
+        logged.forEach(([timestamp, value]) => gateway.addDatalogEntry("demo.inv.3136", new Date(timestamp), value));
+        const client = await transport.connect(gateway, timers);
+
+        const entries = await collect(client.readDatalogPaged("demo.inv.3136", undefined, undefined, {pageSize: 2}), timers);
+
+        assert.deepEqual(entries, logged);
+    });
+
+    it("reads past a timestamp shared by more entries than fit in a page", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const logged: Array<[number, any]> = [[t0, 1], [t0, 1], [t0, 1], [t0, 1], [t0, 1], [t0 + 1000, 2]];
+        logged.forEach(([timestamp, value]) => gateway.addDatalogEntry("demo.inv.3136", new Date(timestamp), value));
+        const client = await transport.connect(gateway, timers);
+
+        const entries = await collect(client.readDatalogPaged("demo.inv.3136", undefined, undefined, {pageSize: 2}), timers);
+
+        assert.deepEqual(entries, logged);
+    });
+
+    it("removes the abort listener once the last page has been read", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        [1, 2, 3].forEach(value => gateway.addDatalogEntry("demo.inv.3136", new Date(t0 + value * 1000), value));
+        const client = await transport.connect(gateway, timers);
+        const signal = fakeSignal();
+
+        const iterator = client.readDatalogPaged("demo.inv.3136", undefined, undefined, {pageSize: 5, signal: signal});
+        assert.equal(signal.listeners.size, 1);
+        const first = iterator.next();
+        await timers.advance();
+
+        assert.equal((await first).value?.value, 1);
+        assert.equal(signal.listeners.size, 0);
+    });
+}));
@@ -0,0 +1,43 @@
+import {strict as assert} from "assert";
+import {SIExtensionStatus} from "../openstuder";
+import {SIMockGateway} from "../openstuder-mock";
+import {connectBluetooth, connectWebSocket, createGateway, installFakeBluetooth, ManualTimers} from "./helpers";
+
+function createGatewayWithExtension(timers: ManualTimers): SIMockGateway {
+    const gateway = createGateway(timers);
+    gateway.setExtension("WifiConfig", "status", parameters => ({
+        status: SIExtensionStatus.SUCCESS,
+        parameters: parameters instanceof Map ? new Map([["ssid", "demo"]]) : ["demo", -42]
+    }));
+    return gateway;
+}
+
+describe("extension calls", () => {
+    it("resolves to key/value pairs for SIGatewayClient", async () => {
+        const timers = new ManualTimers();
+        const client = await connectWebSocket(createGatewayWithExtension(timers), timers);
+
+        const called = client.callExtensionAsync("WifiConfig", "status");
+        await timers.advance();
+        const result = await called;
+
+        assert.equal(result.status, SIExtensionStatus.SUCCESS);
+        const parameters: Map<string,string> = result.parameters;
+        assert.equal(parameters.get("ssid"), "demo");
+    });
+
+    it("resolves to a parameter list for SIBluetoothGatewayClient", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGatewayWithExtension(timers);
+        installFakeBluetooth(gateway);
+        const client = await connectBluetooth(gateway, timers);
+
+        const called = client.callExtensionAsync("WifiConfig", "status");
+        await timers.advance();
+        const result = await called;
+
+        assert.equal(result.status, SIExtensionStatus.SUCCESS);
+        const parameters: Array<any> = result.parameters;
+        assert.deepEqual(parameters, ["demo", -42]);
+    });
+});
@@ -0,0 +1,49 @@
+import {strict as assert} from "assert";
+import {SIAccessLevel, SIGenericGatewayClient} from "../openstuder";
+import {createGateway, ManualTimers, transports} from "./helpers";
+
+/**
+ * Application code written against the interface shared by both clients.
+ */
+function monitor(client: SIGenericGatewayClient, propertyId: string): {values: Array<any>, stop: () => void} {
+    const monitored = {values: [] as Array<any>, stop: () => {}};
+    const listener = (id: string, value: any) => {
+        if (id === propertyId) monitored.values.push(value);
+    };
+    client.on("propertyUpdated", listener).subscribeToPropertyAsync(propertyId);
+    monitored.stop = () => client.off("propertyUpdated", listener);
+    return monitored;
+}
+
+transports.forEach(transport => describe(`${transport.name} as SIGenericGatewayClient`, () => {
+    it("reports events to listeners added using the shared interface", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const monitored = monitor(client, "demo.inv.3136");
+        await timers.advance();
+
+        gateway.setPropertyValue("demo.inv.3136", 231);
+        await timers.advance();
+        monitored.stop();
+        gateway.setPropertyValue("demo.inv.3136", 232);
+        await timers.advance();
+
+        assert.deepEqual(monitored.values, [231]);
+    });
+
+    it("reports the connection events to listeners added using the shared interface", async () => {
+        const timers = new ManualTimers();
+        let events: Array<string> = [];
+        const client = await transport.connect(createGateway(timers), timers, client => {
+            const generic: SIGenericGatewayClient = client;
+            generic.addEventListener("connected", accessLevel => events.push(`connected ${SIAccessLevel[accessLevel]}`));
+            generic.addEventListener("disconnected", () => events.push("disconnected"));
+        });
+
+        client.disconnect();
+        await timers.advance();
+
+        assert.deepEqual(events, ["connected INSTALLER", "disconnected"]);
+    });
+}));
@@ -0,0 +1,90 @@
+import {strict as assert} from "assert";
+import {SIGenericGatewayClient, SIProtocolError, SIStatus, SITimeoutError} from "../openstuder";
+import {connectWebSocket, createGateway, droppingWebSocketFactory, ManualTimers, observe, transports} from "./helpers";
+
+function collectEvents(client: SIGenericGatewayClient): {reads: Array<string>, errors: Array<any>} {
+    const events = {reads: [] as Array<string>, errors: [] as Array<any>};
+    client.on("propertyRead", (status, id) => events.reads.push(id));
+    client.on("error", (_, error) => events.errors.push(error));
+    return events;
+}
+
+transports.forEach(transport => describe(`${transport.name} heartbeat`, () => {
+    it("requires a probe property unless probes are disabled", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+
+        assert.throws(() => client.setHeartbeat(true), SIProtocolError);
+        client.setHeartbeat(true, {probe: false});
+        client.setHeartbeat(true, {probePropertyId: "demo.inv.3136"});
+    });
+
+    it("probes by reading the configured property", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const events = collectEvents(client);
+        client.setHeartbeat(true, {interval: 1000, timeout: 500, probePropertyId: "demo.inv.3136"});
+        const sent = gateway.receivedFrames.length;
+
+        await timers.advance(1000);
+
+        assert.equal(gateway.receivedFrames.length, sent + 1);
+        const probe = gateway.receivedFrames[sent];
+        assert.ok(typeof probe === "string" ? probe.startsWith("READ PROPERTY\nid:demo.inv.3136\n") : probe[0] === 0x04);
+        assert.deepEqual(events.reads, []);
+        assert.deepEqual(events.errors, []);
+    });
+
+    it("reports the response to a read of the probe property sent before the probe", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const events = collectEvents(client);
+        client.setHeartbeat(true, {interval: 1000, timeout: 500, probePropertyId: "demo.inv.3136"});
+        gateway.setLatency(100);
+
+        await timers.advance(950);
+        const read = observe(client.readPropertyAsync("demo.inv.3136"));
+        await timers.advance(300);
+
+        assert.equal(read.state, "resolved");
+        assert.equal(read.value?.status, SIStatus.SUCCESS);
+        assert.deepEqual(events.reads, ["demo.inv.3136"]);
+        assert.deepEqual(events.errors, []);
+    });
+
+    it("reports the response to a read of the probe property sent after the probe", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const events = collectEvents(client);
+        client.setHeartbeat(true, {interval: 1000, timeout: 500, probePropertyId: "demo.inv.3136"});
+        gateway.setLatency(100);
+
+        await timers.advance(1000);
+        const read = observe(client.readPropertyAsync("demo.inv.3136"));
+        await timers.advance(300);
+
+        assert.equal(read.state, "resolved");
+        assert.deepEqual(events.reads, ["demo.inv.3136"]);
+        assert.deepEqual(events.errors, []);
+    });
+}));
+
+describe("SIGatewayClient heartbeat", () => {
+    it("reports a timeout if the gateway does not respond to the probe", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        let silent = false;
+        const client = await connectWebSocket(gateway, timers, client => client.setWebSocketFactory(droppingWebSocketFactory(gateway, () => silent)));
+        const events = collectEvents(client);
+        client.setHeartbeat(true, {interval: 1000, timeout: 500, probePropertyId: "demo.inv.3136"});
+
+        silent = true;
+        await timers.advance(1500);
+
+        assert.equal(events.errors.length, 1);
+        assert.ok(events.errors[0] instanceof SITimeoutError);
+    });
+});
@@ -0,0 +1,204 @@
+import {strict as assert} from "assert";
+import {
+    SIAccessLevel,
+    SIBluetoothGatewayClient,
+    SIConnectionState,
+    SIDeviceFunctions,
+    SIGatewayClient,
+    SIGenericGatewayClient,
+    SIPropertyType,
+    SIProtocolError,
+    SITimerProvider,
+    SIWebSocket,
+    SIWebSocketFactory
+} from "../openstuder";
+import {SIFakeBluetooth, SIMockGateway} from "../openstuder-mock";
+
+/**
+ * Timer provider running the scheduled callbacks only when the test advances the time, shared by the clients and the mock gateway.
+ */
+export class ManualTimers implements SITimerProvider {
+    private now: number = 0;
+    private nextHandle: number = 1;
+    private scheduled: Array<{handle: number, due: number, callback: () => void}> = [];
+
+    public setTimeout(callback: () => void, delay: number): any {
+        const handle = this.nextHandle++;
+        this.scheduled.push({handle: handle, due: this.now + Math.max(0, delay), callback: callback});
+        return handle;
+    }
+
+    public clearTimeout(handle: any) {
+        this.scheduled = this.scheduled.filter(it => it.handle !== handle);
+    }
+
+    public getTime(): number {
+        return this.now;
+    }
+
+    public pending(): number {
+        return this.scheduled.length;
+    }
+
+    /**
+     * Advances the time, running every callback that gets due in order and settling all promise chains in between.
+     */
+    public async advance(duration: number = 0) {
+        const end = this.now + duration;
+        await settle();
+        for (let count = 0; ; ++count) {
+            // Guards against callbacks rescheduling themselves forever, which would otherwise hang the test run.
+            assert.ok(count < 10000, "timers did not settle");
+            const next = this.scheduled.filter(it => it.due <= end).sort((a, b) => a.due - b.due || a.handle - b.handle)[0];
+            if (next === undefined) break;
+            this.scheduled.splice(this.scheduled.indexOf(next), 1);
+            this.now = next.due;
+            next.callback();
+            await settle();
+        }
+        this.now = end;
+    }
+}
+
+export function settle(): Promise<void> {
+    return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+/**
+ * Creates a mock gateway with a small installation: A device access "demo" with an inverter "inv" and a battery "bat".
+ */
+export function createGateway(timers: ManualTimers): SIMockGateway {
+    const gateway = new SIMockGateway("0.6.0", timers);
+    gateway.addUser("installer", "secret", SIAccessLevel.INSTALLER);
+    gateway.addDeviceAccess("demo");
+    gateway.addDevice("demo", "inv", "XTM 4000", [SIDeviceFunctions.INVERTER]);
+    gateway.addDevice("demo", "bat", "BSP 500", [SIDeviceFunctions.BATTERY]);
+    gateway.addProperty("demo.inv.3136", {type: SIPropertyType.FLOAT, value: 230.5, description: "Output voltage", unit: "V"});
+    gateway.addProperty("demo.inv.3137", {type: SIPropertyType.FLOAT, value: 50});
+    gateway.addProperty("demo.inv.1107", {type: SIPropertyType.FLOAT, value: 16, writeable: true, accessLevel: SIAccessLevel.INSTALLER});
+    gateway.addProperty("demo.bat.7002", {type: SIPropertyType.FLOAT, value: 52.1, description: "Battery voltage", unit: "V"});
+    gateway.addProperty("demo.bat.0", {type: SIPropertyType.STRING, value: "BSP"});
+    return gateway;
+}
+
+/**
+ * Starts connecting a WebSocket client to the mock gateway without waiting for the connection to be established.
+ */
+export function startWebSocket(gateway: SIMockGateway, timers: ManualTimers, setup?: (client: SIGatewayClient) => void, password: string = "secret"): SIGatewayClient {
+    const client = new SIGatewayClient();
+    client.setWebSocketFactory(gateway.webSocketFactory);
+    client.setTimerProvider(timers);
+    setup?.(client);
+    client.connect("localhost", 1987, "installer", password);
+    return client;
+}
+
+export async function connectWebSocket(gateway: SIMockGateway, timers: ManualTimers, setup?: (client: SIGatewayClient) => void): Promise<SIGatewayClient> {
+    const client = startWebSocket(gateway, timers, setup);
+    await timers.advance();
+    assert.equal(client.getState(), SIConnectionState.CONNECTED);
+    return client;
+}
+
+export function installFakeBluetooth(gateway: SIMockGateway): SIFakeBluetooth {
+    const bluetooth = new SIFakeBluetooth(gateway);
+    Object.defineProperty(globalThis, "navigator", {value: {bluetooth: bluetooth}, configurable: true, writable: true});
+    return bluetooth;
+}
+
+/**
+ * Starts connecting a Bluetooth client to the mock gateway without waiting for the connection to be established, installFakeBluetooth() has to be called before.
+ */
+export function startBluetooth(gateway: SIMockGateway, timers: ManualTimers, setup?: (client: SIBluetoothGatewayClient) => void, password: string = "secret"): SIBluetoothGatewayClient {
+    const client = new SIBluetoothGatewayClient();
+    client.setTimerProvider(timers);
+    setup?.(client);
+    client.connect("installer", password);
+    return client;
+}
+
+export async function connectBluetooth(gateway: SIMockGateway, timers: ManualTimers, setup?: (client: SIBluetoothGatewayClient) => void): Promise<SIBluetoothGatewayClient> {
+    const client = startBluetooth(gateway, timers, setup);
+    await timers.advance();
+    assert.equal(client.getState(), SIConnectionState.CONNECTED);
+    return client;
+}
+
+/**
+ * WebSocket factory connecting to the mock gateway, frames sent by the gateway are passed to the client as returned by rewrite(), or dropped if it returns undefined.
+ */
+export function rewritingWebSocketFactory(gateway: SIMockGateway, rewrite: (frame: string) => string | undefined): SIWebSocketFactory {
+    return (url: string) => {
+        const ws = gateway.webSocketFactory(url);
+        const client: SIWebSocket = {
+            onopen: null,
+            onmessage: null,
+            onerror: null,
+            onclose: null,
+            send: data => ws.send(data),
+            close: () => ws.close()
+        };
+        ws.onopen = event => client.onopen?.(event);
+        ws.onmessage = event => {
+            const frame = rewrite(event.data);
+            if (frame !== undefined) client.onmessage?.({...event, data: frame});
+        };
+        ws.onerror = event => client.onerror?.(event);
+        ws.onclose = event => client.onclose?.(event);
+        return client;
+    };
+}
+
+/**
+ * WebSocket factory connecting to the mock gateway, frames sent by the gateway for which drop() returns true never reach the client.
+ */
+export function droppingWebSocketFactory(gateway: SIMockGateway, drop: (frame: string) => boolean): SIWebSocketFactory {
+    return rewritingWebSocketFactory(gateway, frame => drop(frame) ? undefined : frame);
+}
+
+/**
+ * Records how a promise gets settled, so that tests can check that a promise is still pending.
+ */
+export function observe<T>(promise: Promise<T>): {state: "pending" | "resolved" | "rejected", value?: T, reason?: any} {
+    const observed: {state: "pending" | "resolved" | "rejected", value?: T, reason?: any} = {state: "pending"};
+    promise.then(value => {
+        observed.state = "resolved";
+        observed.value = value;
+    }, reason => {
+        observed.state = "rejected";
+        observed.reason = reason;
+    });
+    return observed;
+}
+
+/**
+ * Collects the errors reported by a client of either transport.
+ */
+export function collectErrors(client: SIGenericGatewayClient): Array<SIProtocolError> {
+    let errors: Array<SIProtocolError> = [];
+    client.on("error", (_, error) => errors.push(error));
+    return errors;
+}
+
+export type Client = SIGatewayClient | SIBluetoothGatewayClient;
+
+/**
+ * Connects a client of either transport to the mock gateway, used to run the same test against both clients. Using start(), the client is returned without waiting for the connection
+ * to be established.
+ */
+export const transports: Array<{
+    name: string,
+    connect: (gateway: SIMockGateway, timers: ManualTimers, setup?: (client: Client) => void) => Promise<Client>,
+    start: (gateway: SIMockGateway, timers: ManualTimers, setup?: (client: Client) => void, password?: string) => Client
+}> = [
+    {name: "SIGatewayClient", connect: connectWebSocket, start: startWebSocket},
+    {
+        name: "SIBluetoothGatewayClient", connect: (gateway, timers, setup) => {
+            installFakeBluetooth(gateway);
+            return connectBluetooth(gateway, timers, setup);
+        }, start: (gateway, timers, setup, password) => {
+            installFakeBluetooth(gateway);
+            return startBluetooth(gateway, timers, setup, password);
+        }
+    }
+];
@@ -0,0 +1,75 @@
+import {strict as assert} from "assert";
+import {SIAuthorizationError, SIConnectionState, SIGenericGatewayClient, SIInvalidStateError, SIStatus, SITransportError} from "../openstuder";
+import {Client, collectErrors, createGateway, ManualTimers, observe, transports} from "./helpers";
+
+const enableQueueing = (client: Client) => client.setCommandQueueing(true);
+
+transports.forEach(transport => describe(`${transport.name} command queueing`, () => {
+    it("sends the commands issued while connecting in order once authorized", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = transport.start(gateway, timers, enableQueueing);
+        let events: Array<string> = [];
+        const generic: SIGenericGatewayClient = client;
+        generic.on("propertyRead", (_, propertyId) => events.push(`read ${propertyId}`));
+        generic.on("propertySubscribed", (_, propertyId) => events.push(`subscribed ${propertyId}`));
+
+        assert.equal(client.getState(), SIConnectionState.CONNECTING);
+        client.readProperty("demo.inv.3136");
+        client.subscribeToProperty("demo.bat.7002");
+        const read = observe(client.readPropertyAsync("demo.inv.3137"));
+        await timers.advance();
+
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+        assert.deepEqual(events, ["read demo.inv.3136", "subscribed demo.bat.7002", "read demo.inv.3137"]);
+        assert.deepEqual(read.value, {status: SIStatus.SUCCESS, id: "demo.inv.3137", value: 50});
+    });
+
+    it("fails each queued command if the authorization fails", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = transport.start(gateway, timers, enableQueueing, "wrong");
+        const errors = collectErrors(client);
+
+        client.readProperty("demo.inv.3136");
+        const read = observe(client.readPropertyAsync("demo.inv.3137"));
+        await timers.advance();
+
+        const failures = errors.filter(it => /failed: authorization failed/.test(it.message));
+        assert.deepEqual(failures.map(it => it.command), ["READ PROPERTY", "READ PROPERTY"]);
+        failures.forEach(it => assert.ok(it instanceof SIAuthorizationError));
+        assert.equal(read.state, "rejected");
+        assert.equal(gateway.receivedFrames.length, 1);
+    });
+
+    it("fails each queued command if the connection is lost while connecting", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        gateway.setLatency(100);
+        const client = transport.start(gateway, timers, enableQueueing);
+        const errors = collectErrors(client);
+
+        client.subscribeToProperty("demo.bat.7002");
+        const read = observe(client.readPropertyAsync("demo.inv.3137"));
+        await timers.advance(150);
+        assert.notEqual(client.getState(), SIConnectionState.CONNECTED);
+        gateway.disconnectAll();
+        await timers.advance(200);
+
+        const failures = errors.filter(it => /failed: disconnected/.test(it.message));
+        assert.deepEqual(failures.map(it => it.command), ["SUBSCRIBE PROPERTY", "READ PROPERTY"]);
+        failures.forEach(it => assert.ok(it instanceof SITransportError));
+        assert.equal(read.state, "rejected");
+    });
+
+    it("rejects commands issued while connecting if queueing is disabled", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = transport.start(gateway, timers);
+
+        assert.throws(() => client.readProperty("demo.inv.3136"), SIInvalidStateError);
+        await assert.rejects(client.readPropertyAsync("demo.inv.3136"), SIInvalidStateError);
+        await timers.advance();
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+    });
+}));
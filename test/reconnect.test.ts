@@ -0,0 +1,135 @@
+import {strict as assert} from "assert";
+import {SIConnectionState, SIGatewayError, SIGenericGatewayClient, SIProtocolError, SIStatus, SITransportError} from "../openstuder";
+import {connectWebSocket, createGateway, ManualTimers, observe, rewritingWebSocketFactory, transports} from "./helpers";
+
+function collectEvents(client: SIGenericGatewayClient): {events: Array<string>, updates: Array<[string, any]>, errors: Array<any>} {
+    const collected = {events: [] as Array<string>, updates: [] as Array<[string, any]>, errors: [] as Array<any>};
+    client.on("reconnecting", attempt => collected.events.push(`reconnecting ${attempt}`));
+    client.on("reconnected", () => collected.events.push("reconnected"));
+    client.on("disconnected", () => collected.events.push("disconnected"));
+    client.on("propertyUpdated", (id, value) => collected.updates.push([id, value]));
+    client.on("error", (_, error) => collected.errors.push(error));
+    return collected;
+}
+
+transports.forEach(transport => describe(`${transport.name} automatic reconnection`, () => {
+    it("reconnects after a connection loss and restores the subscriptions", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers, client => client.setAutoReconnect(true, {initialDelay: 1000}));
+        const collected = collectEvents(client);
+        const subscribed = client.subscribeToPropertyAsync("demo.inv.3136");
+        await timers.advance();
+        await subscribed;
+
+        gateway.disconnectAll();
+        await timers.advance();
+        assert.deepEqual(collected.events, ["reconnecting 1"]);
+        await timers.advance(1000);
+        assert.deepEqual(collected.events, ["reconnecting 1", "reconnected"]);
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+
+        gateway.setPropertyValue("demo.inv.3136", 229);
+        await timers.advance();
+        assert.deepEqual(collected.updates, [["demo.inv.3136", 229]]);
+    });
+
+    it("gives up after the maximal number of attempts", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers, client => client.setAutoReconnect(true, {initialDelay: 1000, multiplier: 1, maxAttempts: 2}));
+        const collected = collectEvents(client);
+
+        gateway.setOnline(false);
+        gateway.disconnectAll();
+        await timers.advance(5000);
+
+        assert.deepEqual(collected.events, ["reconnecting 1", "reconnecting 2", "disconnected"]);
+        assert.equal(client.getState(), SIConnectionState.DISCONNECTED);
+    });
+
+    it("reports subscriptions requested after a failed restore", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers, client => client.setAutoReconnect(true, {initialDelay: 1000}));
+        const collected = collectEvents(client);
+        client.subscribeToProperty("demo.inv.3136");
+        await timers.advance();
+
+        gateway.disconnectAll();
+        gateway.injectError(transport.name === "SIGatewayClient" ? "SUBSCRIBE PROPERTIES" : "SUBSCRIBE PROPERTY", "device busy");
+        await timers.advance(1000);
+        assert.deepEqual(collected.events, ["reconnecting 1", "reconnected"]);
+        assert.equal(collected.errors.length, 1);
+        assert.ok(collected.errors[0] instanceof SIGatewayError);
+
+        const subscribed = observe(client.subscribeToPropertiesAsync(["demo.bat.7002"]));
+        await timers.advance();
+        assert.deepEqual(subscribed.value, [{status: SIStatus.SUCCESS, id: "demo.bat.7002"}]);
+    });
+}));
+
+describe("SIGatewayClient automatic reconnection", () => {
+    it("handles a WebSocket that can not be created like a failed attempt", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        let failures = 1;
+        const client = await connectWebSocket(gateway, timers, client => {
+            client.setAutoReconnect(true, {initialDelay: 1000, multiplier: 1});
+            client.setWebSocketFactory(url => {
+                if (client.getState() === SIConnectionState.CONNECTING && failures > 0) {
+                    failures -= 1;
+                    throw new Error("SyntaxError: invalid URL");
+                }
+                return gateway.webSocketFactory(url);
+            });
+        });
+        const collected = collectEvents(client);
+
+        gateway.disconnectAll();
+        await timers.advance(1000);
+        assert.deepEqual(collected.events, ["reconnecting 1", "reconnecting 2"]);
+        assert.equal(collected.errors.length, 1);
+        assert.ok(collected.errors[0] instanceof SITransportError);
+
+        await timers.advance(1000);
+        assert.deepEqual(collected.events, ["reconnecting 1", "reconnecting 2", "reconnected"]);
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+    });
+});
+
+describe("SIGatewayClient subscription restore", () => {
+    it("reports subscriptions requested after the gateway refused to restore the subscriptions", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        let reconnected = false;
+        const client = await connectWebSocket(gateway, timers, client => {
+            client.setAutoReconnect(true, {initialDelay: 1000});
+            client.setWebSocketFactory(rewritingWebSocketFactory(gateway, frame => {
+                // Refuse the first subscriptions after reconnect as a whole.
+                if (reconnected && frame.startsWith("PROPERTIES SUBSCRIBED\n")) {
+                    reconnected = false;
+                    return frame.replace("status:Success", "status:Error");
+                }
+                return frame;
+            }));
+        });
+        const collected = collectEvents(client);
+        let batches: Array<Array<any>> = [];
+        client.on("propertiesSubscribed", statuses => batches.push(statuses));
+        client.subscribeToProperty("demo.inv.3136");
+        await timers.advance();
+
+        gateway.disconnectAll();
+        reconnected = true;
+        await timers.advance(1000);
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+        assert.equal(collected.errors.length, 1);
+        assert.ok(collected.errors[0] instanceof SIProtocolError);
+
+        const subscribed = observe(client.subscribeToPropertiesAsync(["demo.bat.7002"]));
+        await timers.advance();
+        assert.deepEqual(subscribed.value, [{status: SIStatus.SUCCESS, id: "demo.bat.7002"}]);
+        assert.deepEqual(batches, [[{status: SIStatus.SUCCESS, id: "demo.bat.7002"}]]);
+    });
+});
@@ -0,0 +1,62 @@
+import {strict as assert} from "assert";
+import {SIBluetoothGatewayClient, SIConnectionState, SIGatewayClient, SIJsonlTrafficRecorder} from "../openstuder";
+import {SIFakeBluetooth, SITrafficReplay} from "../openstuder-mock";
+import {createGateway, ManualTimers, transports} from "./helpers";
+
+transports.forEach(transport => describe(`${transport.name} traffic recording`, () => {
+    async function record(recordCredentials?: boolean): Promise<string> {
+        const timers = new ManualTimers();
+        const recorder = new SIJsonlTrafficRecorder();
+        const client = await transport.connect(createGateway(timers), timers, client => client.setTrafficRecorder(recorder, recordCredentials));
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+        client.disconnect();
+        await timers.advance();
+        return recorder.getRecording();
+    }
+
+    function authorizeFrame(recording: string): string {
+        const frame = SIJsonlTrafficRecorder.parse(recording)[0];
+        assert.equal(frame.direction, "tx");
+        return transport.name === "SIGatewayClient" ? frame.data : Buffer.from(frame.data, "hex").toString("latin1");
+    }
+
+    it("replaces the password by default", async () => {
+        const frame = authorizeFrame(await record());
+        assert.ok(frame.includes("installer"));
+        assert.ok(frame.includes("***"));
+        assert.ok(!frame.includes("secret"));
+    });
+
+    it("records the password if explicitly enabled", async () => {
+        const frame = authorizeFrame(await record(true));
+        assert.ok(frame.includes("secret"));
+        assert.ok(!frame.includes("***"));
+    });
+
+    it("replays a recording with redacted password without mismatches", async () => {
+        const timers = new ManualTimers();
+        const replay = new SITrafficReplay(await record(), timers);
+        let client: SIGatewayClient | SIBluetoothGatewayClient;
+        if (transport.name === "SIGatewayClient") {
+            const webSocketClient = new SIGatewayClient();
+            webSocketClient.setWebSocketFactory(replay.webSocketFactory);
+            webSocketClient.setTimerProvider(timers);
+            webSocketClient.connect("localhost", 1987, "installer", "secret");
+            client = webSocketClient;
+        } else {
+            Object.defineProperty(globalThis, "navigator", {value: {bluetooth: new SIFakeBluetooth(replay)}, configurable: true, writable: true});
+            const bluetoothClient = new SIBluetoothGatewayClient();
+            bluetoothClient.setTimerProvider(timers);
+            bluetoothClient.connect("installer", "secret");
+            client = bluetoothClient;
+        }
+        await timers.advance();
+        assert.equal(client.getState(), SIConnectionState.CONNECTED);
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+
+        assert.deepEqual(replay.getMismatches(), []);
+        assert.ok(replay.isFinished());
+    });
+}));
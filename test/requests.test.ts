@@ -0,0 +1,159 @@
+import {strict as assert} from "assert";
+import {SIGatewayError, SIGenericGatewayClient, SIStatus} from "../openstuder";
+import {collectErrors, connectWebSocket, createGateway, droppingWebSocketFactory, ManualTimers, observe, transports} from "./helpers";
+
+transports.forEach(transport => describe(`${transport.name} requests`, () => {
+    it("resolves concurrent requests for different properties with their own results", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+
+        const voltage = client.readPropertyAsync("demo.inv.3136");
+        const battery = client.readPropertyAsync("demo.bat.7002");
+        const found = client.findPropertiesAsync("*.*.7002");
+        await timers.advance();
+
+        assert.deepEqual(await voltage, {status: SIStatus.SUCCESS, id: "demo.inv.3136", value: 230.5});
+        assert.deepEqual(await battery, {status: SIStatus.SUCCESS, id: "demo.bat.7002", value: 52.1});
+        assert.deepEqual((await found).properties, ["demo.bat.7002"]);
+    });
+
+    it("resolves two requests for the same property in order", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+
+        const first = client.readPropertyAsync("demo.inv.3136");
+        gateway.setPropertyValue("demo.inv.3136", 231);
+        const second = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance();
+
+        assert.equal((await first).value, 230.5);
+        assert.equal((await second).value, 231);
+    });
+
+    it("does not resolve a request with the response to another request of the same type", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+
+        client.readProperty("demo.inv.3136");
+        const battery = client.readPropertyAsync("demo.bat.7002");
+        await timers.advance();
+
+        assert.deepEqual(await battery, {status: SIStatus.SUCCESS, id: "demo.bat.7002", value: 52.1});
+    });
+
+    it("rejects only the request an error frame is attributed to", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const errors = collectErrors(client);
+
+        gateway.injectError("READ PROPERTY", "device busy");
+        client.readProperty("demo.inv.3136");
+        const battery = observe(client.readPropertyAsync("demo.bat.7002"));
+        const failing = observe(client.readPropertyAsync("demo.inv.3137"));
+        gateway.injectError("READ PROPERTY", "device busy");
+        const voltage = observe(client.readPropertyAsync("demo.inv.3137"));
+        await timers.advance();
+
+        assert.deepEqual(errors.map(it => it.message), ["device busy", "device busy"]);
+        assert.equal(battery.state, "resolved");
+        assert.equal(battery.value?.value, 52.1);
+        assert.equal(failing.state, "resolved");
+        assert.equal(voltage.state, "rejected");
+        assert.ok(voltage.reason instanceof SIGatewayError);
+    });
+
+    it("resolves descriptions of property 0", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+
+        const description = client.describeAsync("demo", "bat", 0);
+        await timers.advance();
+
+        assert.equal((await description).status, SIStatus.SUCCESS);
+        assert.equal((await description).id, "demo.bat.0");
+    });
+}));
+
+describe("SIGatewayClient request matching", () => {
+    it("leaves a request pending if no response matches", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await connectWebSocket(gateway, timers, client => {
+            client.setWebSocketFactory(droppingWebSocketFactory(gateway, frame => frame.includes("id:demo.bat.7002")));
+        });
+
+        const battery = observe(client.readPropertyAsync("demo.bat.7002"));
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+
+        assert.equal(battery.state, "pending");
+    });
+});
+
+transports.forEach(transport => describe(`${transport.name} request timeouts`, () => {
+    it("completes a retry with the late response to the request that timed out and drops the response to the retry", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        client.setRequestTimeout(1000);
+        let reads: Array<[SIStatus, string, any]> = [];
+        const generic: SIGenericGatewayClient = client;
+        generic.on("propertyRead", (status, id, value) => reads.push([status, id, value]));
+
+        gateway.setLatency(1500);
+        const first = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance(1000);
+        assert.equal((await first).status, SIStatus.TIMEOUT);
+
+        const retry = observe(client.readPropertyAsync("demo.inv.3136"));
+        await timers.advance(500);
+        assert.equal(retry.state, "resolved");
+        assert.equal(retry.value?.value, 230.5);
+
+        await timers.advance(2000);
+        assert.deepEqual(reads.map(it => it[0]), [SIStatus.TIMEOUT, SIStatus.SUCCESS]);
+    });
+
+    it("attributes an error frame to a waiting request rather than to a request that timed out", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        client.setRequestTimeout(1000);
+
+        gateway.setLatency(1500);
+        const first = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance(1000);
+        assert.equal((await first).status, SIStatus.TIMEOUT);
+
+        gateway.setLatency(0);
+        gateway.injectError("DESCRIBE", "device busy");
+        const description = observe(client.describeAsync("demo"));
+        await timers.advance(100);
+
+        assert.equal(description.state, "rejected");
+        assert.ok(description.reason instanceof SIGatewayError);
+    });
+}));
+
+describe("SIGatewayClient request timeouts", () => {
+    it("completes a retry if the response to the request that timed out got lost", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        let dropped = 0;
+        const client = await connectWebSocket(gateway, timers, client => {
+            client.setWebSocketFactory(droppingWebSocketFactory(gateway, frame => frame.startsWith("PROPERTY READ") && dropped++ === 0));
+        });
+        client.setRequestTimeout(1000);
+
+        const first = client.readPropertyAsync("demo.inv.3136");
+        await timers.advance(1000);
+        assert.equal((await first).status, SIStatus.TIMEOUT);
+
+        const retry = observe(client.readPropertyAsync("demo.inv.3136"));
+        await timers.advance();
+        assert.equal(retry.state, "resolved");
+        assert.equal(retry.value?.value, 230.5);
+    });
+});
@@ -0,0 +1,104 @@
+import {strict as assert} from "assert";
+import {SIPropertySource, SIPropertyState, SIStatus} from "../openstuder";
+import {createGateway, ManualTimers, transports} from "./helpers";
+
+transports.forEach(transport => describe(`${transport.name} property store`, () => {
+    it("keeps the values read and updated", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const store = client.getPropertyStore();
+
+        client.readProperty("demo.inv.3136");
+        client.subscribeToProperty("demo.bat.7002");
+        await timers.advance();
+        gateway.setPropertyValue("demo.bat.7002", 53);
+        await timers.advance();
+
+        assert.equal(store.get("demo.inv.3136")?.value, 230.5);
+        assert.equal(store.get("demo.inv.3136")?.source, SIPropertySource.READ);
+        assert.equal(store.get("demo.bat.7002")?.value, 53);
+        assert.equal(store.get("demo.bat.7002")?.source, SIPropertySource.UPDATE);
+        assert.equal(store.get("demo.inv.3137"), undefined);
+    });
+
+    it("marks the values stale if the connection is lost", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const store = client.getPropertyStore();
+
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+        assert.equal(store.get("demo.inv.3136")?.stale, false);
+        client.disconnect();
+        await timers.advance();
+
+        assert.equal(store.get("demo.inv.3136")?.stale, true);
+        assert.equal(store.get("demo.inv.3136")?.value, 230.5);
+    });
+
+    it("marks the values stale once they reach the maximal age and reports them to the listeners", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const store = client.getPropertyStore();
+        store.setMaxAge(1000);
+        let changes: Array<[string | undefined, boolean | undefined, boolean | undefined]> = [];
+        store.addChangeListener((state, previous) => changes.push([state?.id, state?.stale, previous?.stale]));
+
+        client.readProperty("demo.inv.3136");
+        client.readProperty("demo.bat.7002");
+        await timers.advance(600);
+        client.readProperty("demo.bat.7002");
+        await timers.advance(400);
+        assert.equal(store.get("demo.inv.3136")?.stale, true);
+        assert.equal(store.get("demo.bat.7002")?.stale, false);
+        await timers.advance(600);
+
+        assert.equal(store.get("demo.bat.7002")?.stale, true);
+        assert.deepEqual(changes, [
+            ["demo.inv.3136", false, undefined],
+            ["demo.bat.7002", false, undefined],
+            ["demo.bat.7002", false, false],
+            ["demo.inv.3136", true, false],
+            ["demo.bat.7002", true, false]
+        ]);
+    });
+
+    it("marks the values already in the store stale once a maximal age is set", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const store = client.getPropertyStore();
+        client.readProperty("demo.inv.3136");
+        await timers.advance();
+
+        store.setMaxAge(1000);
+        await timers.advance(900);
+        assert.equal(store.get("demo.inv.3136")?.stale, false);
+        await timers.advance(100);
+        assert.equal(store.get("demo.inv.3136")?.stale, true);
+
+        store.setMaxAge(undefined);
+        client.readProperty("demo.inv.3136");
+        await timers.advance(5000);
+        assert.equal(store.get("demo.inv.3136")?.stale, false);
+    });
+
+    it("reports every property removed by clear()", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const store = client.getPropertyStore();
+        client.readProperty("demo.inv.3136");
+        client.readProperty("demo.bat.7002");
+        await timers.advance();
+        let changes: Array<[SIPropertyState | undefined, SIPropertyState | undefined]> = [];
+        store.addChangeListener((state, previous) => changes.push([state, previous]));
+
+        store.clear();
+
+        assert.deepEqual(changes.map(([state, previous]) => [state, previous?.id, previous?.status]), [
+            [undefined, "demo.inv.3136", SIStatus.SUCCESS],
+            [undefined, "demo.bat.7002", SIStatus.SUCCESS]
+        ]);
+        assert.equal(store.snapshot().size, 0);
+    });
+}));
@@ -0,0 +1,113 @@
+import {strict as assert} from "assert";
+import {SIDeviceMessage, SIGenericGatewayClient, SIPropertyUpdate} from "../openstuder";
+import {createGateway, ManualTimers, observe, transports} from "./helpers";
+
+function countUpdates(client: SIGenericGatewayClient): {count: number} {
+    const counter = {count: 0};
+    client.on("propertyUpdated", () => counter.count += 1);
+    return counter;
+}
+
+function message(id: number): SIDeviceMessage {
+    return {timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, id)), accessId: "demo", deviceId: "inv", messageId: `${id}`, message: `message ${id}`};
+}
+
+transports.forEach(transport => describe(`${transport.name} async iterators`, () => {
+    it("yields the updates of a watched property and unsubscribes once the loop is left", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const updates = countUpdates(client);
+        const watch = client.watchProperty("demo.inv.3136");
+        await timers.advance();
+
+        gateway.setPropertyValue("demo.inv.3136", 231);
+        gateway.setPropertyValue("demo.inv.3136", 232);
+        await timers.advance();
+        let values: Array<any> = [];
+        for await (const update of watch) {
+            values.push(update.value);
+            if (values.length === 2) break;
+        }
+        await timers.advance();
+        gateway.setPropertyValue("demo.inv.3136", 233);
+        await timers.advance();
+
+        assert.deepEqual(values, [231, 232]);
+        assert.equal(updates.count, 2);
+    });
+
+    it("keeps the subscription while another watcher of the property is active", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const first = client.watchProperty("demo.inv.3136");
+        const second = client.watchProperty("demo.inv.3136");
+        await timers.advance();
+
+        await first.return!();
+        await timers.advance();
+        gateway.setPropertyValue("demo.inv.3136", 231);
+        await timers.advance();
+
+        assert.deepEqual((await second.next()).value, {id: "demo.inv.3136", value: 231});
+    });
+
+    it("drops the oldest updates once the buffer is full", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const watch = client.watchProperty("demo.inv.3136", {bufferSize: 2});
+        await timers.advance();
+
+        [231, 232, 233].forEach(value => gateway.setPropertyValue("demo.inv.3136", value));
+        await timers.advance();
+
+        assert.equal((await watch.next()).value.value, 232);
+        assert.equal((await watch.next()).value.value, 233);
+    });
+
+    it("fails if the property can not be subscribed", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const watch = client.watchProperty("demo.inv.9999");
+        const next = observe(watch.next());
+        await timers.advance();
+
+        assert.equal(next.state, "rejected");
+        assert.ok(/unable to subscribe to demo.inv.9999/.test(next.reason.message));
+        assert.deepEqual(await watch.next(), {value: undefined, done: true});
+    });
+
+    it("yields device messages until the client is disconnected", async () => {
+        const timers = new ManualTimers();
+        const gateway = createGateway(timers);
+        const client = await transport.connect(gateway, timers);
+        const messages = client.deviceMessages();
+
+        gateway.addMessage(message(1));
+        gateway.addMessage(message(2));
+        await timers.advance();
+        client.disconnect();
+        await timers.advance();
+
+        let received: Array<string> = [];
+        for await (const message of messages) {
+            received.push(message.message);
+        }
+        assert.deepEqual(received, ["message 1", "message 2"]);
+    });
+
+    it("ends watching a property when the client is disconnected", async () => {
+        const timers = new ManualTimers();
+        const client = await transport.connect(createGateway(timers), timers);
+        const watch: AsyncIterableIterator<SIPropertyUpdate> = client.watchProperty("demo.inv.3136");
+        await timers.advance();
+
+        const next = watch.next();
+        client.disconnect();
+        await timers.advance();
+
+        assert.deepEqual(await next, {value: undefined, done: true});
+    });
+}));